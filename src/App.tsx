@@ -6,6 +6,10 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { Dashboard } from "./pages/Dashboard";
+import { Workspaces } from "./pages/Workspaces";
+import { Compare } from "./pages/Compare";
+import { Scoring } from "./pages/Scoring";
+import { ExitMultiples } from "./pages/ExitMultiples";
 
 const queryClient = new QueryClient();
 
@@ -18,6 +22,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/workspaces" element={<Workspaces />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/scoring" element={<Scoring />} />
+          <Route path="/multiples" element={<ExitMultiples />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,71 @@
+import { Pause, Play, Square, RefreshCw } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { QueueStatus } from '@/utils/analysisQueue';
+
+interface AnalysisProgressPanelProps {
+  status: QueueStatus;
+  progress: number;
+  statusMessage: string;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+export function AnalysisProgressPanel({ status, progress, statusMessage, onPause, onResume, onCancel }: AnalysisProgressPanelProps) {
+  const isPaused = status.state === 'paused';
+  const isStopping = status.state === 'cancelled' && status.inFlight > 0;
+  const isActive = status.state === 'running' || isPaused;
+
+  return (
+    <Card className="shadow-soft">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 min-w-0">
+            {status.state === 'running' && <RefreshCw className="h-4 w-4 animate-spin text-accent shrink-0" />}
+            <span className="text-sm font-medium">
+              {isPaused ? 'Analysis paused' : isStopping ? 'Cancelling...' : 'Analyzing portfolio'}
+            </span>
+            <span className="text-sm text-muted-foreground truncate">{statusMessage}</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {isPaused ? (
+              <Button variant="outline" size="sm" onClick={onResume}>
+                <Play className="mr-2 h-4 w-4" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={onPause} disabled={!isActive}>
+                <Pause className="mr-2 h-4 w-4" />
+                Pause
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={onCancel} disabled={!isActive}>
+              <Square className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+
+        <Progress value={progress} className="h-2" />
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant="secondary">{status.completed + status.failed}/{status.total} done</Badge>
+          <Badge variant="outline">{status.inFlight} in flight</Badge>
+          <Badge variant="outline">{status.pending} queued</Badge>
+          {status.retrying > 0 && (
+            <Badge variant="outline" className="border-yellow-300 text-yellow-700">{status.retrying} backing off</Badge>
+          )}
+          {status.failed > 0 && (
+            <Badge variant="destructive">{status.failed} failed</Badge>
+          )}
+          {isPaused && status.inFlight > 0 && (
+            <span className="text-muted-foreground">In-flight requests will finish before the queue stops</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,85 +1,58 @@
 
 import { useState, useMemo, useCallback } from 'react';
-import { ChevronDown, ChevronRight, Download, RefreshCw } from 'lucide-react';
+import { ChevronDown, ChevronRight, Database, Download, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-
-interface CompanyData {
-  id: string;
-  companyName: string;
-  totalInvestment: number;
-  equityStake: number;
-  moic: number | null;
-  revenueGrowth: number | null;
-  projectedRevenueGrowth: number | null;
-  burnMultiple: number | null;
-  runway: number | null;
-  tam: number;
-  exitActivity: string;
-  barrierToEntry: number;
-  additionalInvestmentRequested: number;
-  industry: string;
-  investorInterest: number | null;
-  preMoneyValuation: number | null;
-  postMoneyValuation: number | null;
-  roundComplexity: number | null;
-  exitTimeline: number | null;
-  revenue: number | null;
-  arr: number | null;
-  caEquityValuation: number | null;
-  isExistingInvestment: boolean;
-  seriesStage: string | null;
-  totalRaiseRequest: number | null;
-  amountRequestedFromFirm: number | null;
-  // Revenue Timeline Fields
-  revenueYearMinus2?: number | null;
-  revenueYearMinus1?: number | null;
-  currentRevenue?: number | null;
-  projectedRevenueYear1?: number | null;
-  projectedRevenueYear2?: number | null;
-  currentARR?: number | null;
-  // Calculated Analytics
-  yoyGrowthPercent?: number | null;
-  historicalCAGR2Y?: number | null;
-  forwardCAGR2Y?: number | null;
-  forwardRevenueMultiple?: number | null;
-  revenueTrajectoryScore?: number | null;
-  // AI Generated Fields
-  recommendation?: string;
-  timingBucket?: string;
-  reasoning?: string;
-  confidence?: number;
-  keyRisks?: string;
-  suggestedAction?: string;
-  projectedExitValueRange?: string;
-  riskAdjustedMonetizationSummary?: string;
-  // External Research Integration
-  externalSources?: string;
-  insufficientData?: boolean;
-  // Enhanced external attribution
-  externalInsights?: {
-    marketContext: string[];
-    competitivePosition: string[];
-    fundingEnvironment: string[];
-    industryTrends: string[];
-  };
-  researchQuality?: 'comprehensive' | 'limited' | 'minimal' | 'unavailable';
-  sourceAttributions?: string[];
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { agreesWithRulesBaseline, AnalysisMode } from '@/utils/rulesAnalysis';
+import { calculateReturnMetrics, formatIrr, ReturnMetrics } from '@/utils/returnMetrics';
+import { ICMemoMenu } from '@/components/ICMemoMenu';
+import { SimulationSettingsDialog } from '@/components/SimulationSettingsDialog';
+import { ReturnSimulationHistogram } from '@/components/charts/ReturnSimulationHistogram';
+import { DistributionOverridesEditor } from '@/components/DistributionOverridesEditor';
+import { ScoreBreakdownChart } from '@/components/charts/ScoreBreakdownChart';
+import { SensitivityAnalysisPanel } from '@/components/charts/SensitivityAnalysisPanel';
 
 interface AnalysisTableProps {
-  companies: CompanyData[];
+  companies: AnalyzedCompanyData[];
   onAnalyze: () => void;
   isAnalyzing: boolean;
   analysisProgress?: number;
   analysisStatus?: string;
+  analysisMode: AnalysisMode;
+  onAnalysisModeChange: (mode: AnalysisMode) => void;
+  forceRefresh: boolean; // Ignore cached responses on the next AI run
+  onForceRefreshChange: (forceRefresh: boolean) => void;
+  onExport: () => void;
+}
+
+function formatCachedAt(cachedAt?: string): string {
+  return cachedAt ? new Date(cachedAt).toLocaleString() : 'earlier';
 }
 
-export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTableProps) {
+export function AnalysisTable({
+  companies,
+  onAnalyze,
+  isAnalyzing,
+  analysisMode,
+  onAnalysisModeChange,
+  forceRefresh,
+  onForceRefreshChange,
+  onExport
+}: AnalysisTableProps) {
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
 
+  const returnMetrics = useMemo(() => {
+    const metricsById = new Map<string, ReturnMetrics | null>();
+    companies.forEach(company => metricsById.set(company.id, calculateReturnMetrics(company)));
+    return metricsById;
+  }, [companies]);
+
   const getConfidenceBadge = (confidence?: number) => {
     if (!confidence) return null;
     
@@ -193,7 +166,30 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
       <CardHeader className="bg-gradient-subtle">
         <div className="flex items-center justify-between">
           <CardTitle className="text-xl font-semibold">Portfolio Analysis</CardTitle>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {analysisMode === 'llm' && (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer" title="Re-request every company instead of reusing cached analysis and research">
+                <Checkbox
+                  checked={forceRefresh}
+                  onCheckedChange={(checked) => onForceRefreshChange(checked === true)}
+                  disabled={isAnalyzing}
+                />
+                Force refresh
+              </label>
+            )}
+            <Select
+              value={analysisMode}
+              onValueChange={(value) => onAnalysisModeChange(value as AnalysisMode)}
+              disabled={isAnalyzing}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="llm">AI Analysis</SelectItem>
+                <SelectItem value="rules">Rules Only</SelectItem>
+              </SelectContent>
+            </Select>
             <Button 
               onClick={onAnalyze} 
               disabled={isAnalyzing}
@@ -204,11 +200,14 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                   <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
                   Analyzing...
                 </>
+              ) : analysisMode === 'rules' ? (
+                'Run Rules Analysis'
               ) : (
                 'Run AI Analysis'
               )}
             </Button>
-            <Button variant="outline" size="sm">
+            <SimulationSettingsDialog disabled={isAnalyzing} />
+            <Button variant="outline" size="sm" onClick={onExport} disabled={isAnalyzing || companies.length === 0}>
               <Download className="mr-2 h-4 w-4" />
               Export
             </Button>
@@ -231,6 +230,7 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                 <TableHead>Investment</TableHead>
                 <TableHead>Equity</TableHead>
                 <TableHead>MOIC</TableHead>
+                <TableHead>Exp. IRR</TableHead>
                 <TableHead>TTM Growth</TableHead>
                 <TableHead>Projected Growth</TableHead>
                 <TableHead>Revenue Timeline</TableHead>
@@ -327,6 +327,16 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                     <TableCell>{formatCurrency(company.totalInvestment)}</TableCell>
                     <TableCell>{formatPercentage(company.equityStake)}</TableCell>
                     <TableCell>{formatNumber(company.moic, 'x')}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        <div className="font-medium">{formatIrr(returnMetrics.get(company.id)?.expectedIrr)}</div>
+                        {returnMetrics.get(company.id) && (
+                          <div className="text-xs text-muted-foreground">
+                            {returnMetrics.get(company.id).expectedMoic.toFixed(2)}x exp. TVPI
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>{formatPercentage(company.revenueGrowth)}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
@@ -447,7 +457,35 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                     <TableCell>{getComplexityBadge(company.roundComplexity)}</TableCell>
                     <TableCell>
                       {company.recommendation ? (
-                        <span className="font-medium text-foreground">{company.recommendation}</span>
+                        <div className="space-y-1">
+                          <span className="font-medium text-foreground">{company.recommendation}</span>
+                          {company.analysisSource === 'rules' && (
+                            <Badge variant="outline" className="text-xs ml-1">Rules</Badge>
+                          )}
+                          {company.validationStatus === 'failed' && (
+                            <Badge variant="destructive" className="text-xs ml-1">Invalid response</Badge>
+                          )}
+                          {company.validationStatus === 'repaired' && (
+                            <Badge variant="outline" className="text-xs ml-1">Repaired</Badge>
+                          )}
+                          {company.analysisSource === 'llm' && company.cacheHit && (
+                            <Badge variant="outline" className="text-xs ml-1" title={`Cached analysis generated ${formatCachedAt(company.cachedAt)}`}>
+                              <Database className="mr-1 h-3 w-3" />
+                              Cached
+                            </Badge>
+                          )}
+                          {company.analysisSource === 'llm' && !company.cacheHit && company.researchCacheHit && (
+                            <Badge variant="outline" className="text-xs ml-1" title="Fresh analysis built on cached market research">
+                              <Database className="mr-1 h-3 w-3" />
+                              Cached research
+                            </Badge>
+                          )}
+                          {agreesWithRulesBaseline(company) === false && (
+                            <Badge variant="secondary" className="text-xs ml-1" title={`Rules baseline: ${company.rulesBaseline?.recommendation}`}>
+                              Differs from rules
+                            </Badge>
+                          )}
+                        </div>
                       ) : (
                         <span className="text-muted-foreground italic">Pending analysis</span>
                       )}
@@ -471,7 +509,10 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                   
                   {expandedRow === company.id && (
                   <TableRow>
-                    <TableCell colSpan={22} className="bg-muted/20 p-6">
+                    <TableCell colSpan={23} className="bg-muted/20 p-6">
+                        <div className="flex justify-end mb-4">
+                          <ICMemoMenu company={company} />
+                        </div>
                         <div className="grid md:grid-cols-2 gap-6">
                           <div className="space-y-4">
                             <div>
@@ -617,6 +658,154 @@ export function AnalysisTable({ companies, onAnalyze, isAnalyzing }: AnalysisTab
                                 <Badge variant="outline">{company.timingBucket}</Badge>
                               </div>
                             )}
+
+                            {company.validationIssues && company.validationIssues.length > 0 && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                                  Response Validation {company.validationStatus === 'repaired' ? '(fixed by repair request)' : '(failed)'}
+                                </h4>
+                                <ul className="list-disc pl-5 space-y-1 text-xs font-mono text-muted-foreground">
+                                  {company.validationIssues.map((issue, index) => (
+                                    <li key={index}>{issue}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+
+                            {company.rulesBaseline && company.analysisSource === 'llm' && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Rules Baseline</h4>
+                                <div className="grid grid-cols-1 gap-1 text-sm">
+                                  <div><span className="text-muted-foreground">Recommendation:</span> <span className="ml-2">{company.rulesBaseline.recommendation}</span></div>
+                                  <div><span className="text-muted-foreground">Timing:</span> <span className="ml-2">{company.rulesBaseline.timingBucket}</span></div>
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-muted-foreground">Confidence:</span>
+                                    {getConfidenceBadge(company.rulesBaseline.confidence)}
+                                    {agreesWithRulesBaseline(company) !== null && (
+                                      <Badge variant={agreesWithRulesBaseline(company) ? 'default' : 'destructive'} className="text-xs">
+                                        {agreesWithRulesBaseline(company) ? 'Agrees with AI' : 'Differs from AI'}
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            )}
+
+                            {company.marketCredibilityScore !== undefined && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Credibility Scores</h4>
+                                <div className="space-y-2">
+                                  {[
+                                    { label: 'Market Credibility', score: company.marketCredibilityScore },
+                                    { label: 'Capital Efficiency', score: company.capitalEfficiencyScore },
+                                    { label: 'Execution Credibility', score: company.executionCredibilityScore }
+                                  ].map(({ label, score }) => (
+                                    <div key={label}>
+                                      <div className="flex justify-between text-xs mb-1">
+                                        <span className="text-muted-foreground">{label}</span>
+                                        <span className="font-medium">{Math.round(score ?? 0)}/100</span>
+                                      </div>
+                                      <Progress value={score ?? 0} className="h-2" />
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+
+                            {company.scoreBreakdown && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Score Breakdown</h4>
+                                <ScoreBreakdownChart breakdown={company.scoreBreakdown} />
+                              </div>
+                            )}
+
+                            {company.executiveSummary && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Executive Summary</h4>
+                                <div className="grid grid-cols-1 gap-1 text-sm">
+                                  <div><span className="text-muted-foreground">Valuation:</span> <span className="ml-2">{company.executiveSummary.valuationAssessment}</span></div>
+                                  <div><span className="text-muted-foreground">Capital Efficiency:</span> <span className="ml-2">{company.executiveSummary.capitalEfficiency}</span></div>
+                                  <div><span className="text-muted-foreground">Market Validation:</span> <span className="ml-2">{company.executiveSummary.marketValidation}</span></div>
+                                  <div><span className="text-muted-foreground">Execution Risk:</span> <span className="ml-2">{company.executiveSummary.executionRisk}</span></div>
+                                  <div><span className="text-muted-foreground">Recommended Action:</span> <span className="ml-2 font-medium">{company.executiveSummary.recommendedAction}</span></div>
+                                </div>
+                              </div>
+                            )}
+
+                            {company.scenarios && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Scenario Analysis{company.simulation ? ' (simulated quartiles)' : ''}</h4>
+                                <table className="w-full text-xs border border-border rounded">
+                                  <thead className="bg-muted/50">
+                                    <tr>
+                                      <th className="text-left p-2 font-medium">Scenario</th>
+                                      <th className="text-right p-2 font-medium">Exit Value</th>
+                                      <th className="text-right p-2 font-medium">Ownership</th>
+                                      <th className="text-right p-2 font-medium">MOIC</th>
+                                      <th className="text-right p-2 font-medium">IRR</th>
+                                      <th className="text-right p-2 font-medium">Probability</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {(['bear', 'base', 'bull'] as const).map(key => {
+                                      const scenario = company.scenarios![key];
+                                      return (
+                                        <tr key={key} className="border-t border-border">
+                                          <td className="p-2 font-medium capitalize">{key}</td>
+                                          <td className="p-2 text-right">{formatCurrency(scenario.exitValue)}</td>
+                                          <td className="p-2 text-right">{formatPercentage(scenario.ownership)}</td>
+                                          <td className="p-2 text-right">{formatNumber(scenario.moic, 'x')}</td>
+                                          <td className="p-2 text-right">{formatIrr(returnMetrics.get(company.id)?.scenarios[key].irr)}</td>
+                                          <td className="p-2 text-right">{(scenario.probability * 100).toFixed(0)}%</td>
+                                        </tr>
+                                      );
+                                    })}
+                                    <tr className="border-t border-border bg-muted/30">
+                                      <td className="p-2 font-medium" colSpan={3}>Probability-Weighted</td>
+                                      <td className="p-2 text-right font-semibold">
+                                        {formatNumber(
+                                          company.scenarios.bear.moic * company.scenarios.bear.probability +
+                                          company.scenarios.base.moic * company.scenarios.base.probability +
+                                          company.scenarios.bull.moic * company.scenarios.bull.probability,
+                                          'x'
+                                        )}
+                                      </td>
+                                      <td className="p-2 text-right font-semibold">{formatIrr(returnMetrics.get(company.id)?.expectedIrr)}</td>
+                                      <td className="p-2 text-right">100%</td>
+                                    </tr>
+                                  </tbody>
+                                </table>
+                                {returnMetrics.get(company.id) && (
+                                  <p className="text-xs text-muted-foreground mt-2">
+                                    Expected IRR assumes {formatCurrency(returnMetrics.get(company.id).paidIn)} paid in today (invested plus requested) and exit proceeds in {returnMetrics.get(company.id).exitYears} years;
+                                    scenario IRRs average the simulated paths, each with its own exit year and follow-on.
+                                    Current TVPI {formatNumber(returnMetrics.get(company.id).currentTvpi, 'x')}, DPI {returnMetrics.get(company.id).currentDpi.toFixed(1)}x.
+                                    Annualized risk-adjusted return {formatIrr(returnMetrics.get(company.id).annualizedRiskAdjustedReturn)}.
+                                  </p>
+                                )}
+                              </div>
+                            )}
+
+                            {company.simulation && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Return Distribution</h4>
+                                <ReturnSimulationHistogram simulation={company.simulation} />
+                              </div>
+                            )}
+
+                            {company.simulation && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Simulation Inputs</h4>
+                                <DistributionOverridesEditor company={company} />
+                              </div>
+                            )}
+
+                            {company.simulation && !company.insufficientData && (
+                              <div>
+                                <h4 className="font-semibold text-sm text-muted-foreground mb-2">Sensitivity</h4>
+                                <SensitivityAnalysisPanel company={company} />
+                              </div>
+                            )}
                           </div>
                           
                           <div className="space-y-4">
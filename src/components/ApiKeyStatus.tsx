@@ -5,30 +5,31 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { getPerplexityApiKey } from '@/utils/externalResearch';
+import { describeProvider, getActiveProviderConfig, isProviderConfigured, LLM_PROVIDERS } from '@/utils/llmProviders';
 
 interface ApiKeyStatusProps {
   onConfigureClick: () => void;
 }
 
 export function ApiKeyStatus({ onConfigureClick }: ApiKeyStatusProps) {
-  const [openaiConnected, setOpenaiConnected] = useState(false);
+  const [providerConfig, setProviderConfig] = useState(() => getActiveProviderConfig());
   const [perplexityConnected, setPerplexityConnected] = useState(false);
+  const providerConnected = isProviderConfigured(providerConfig);
+  const providerLabel = LLM_PROVIDERS[providerConfig.provider].label;
 
   useEffect(() => {
     // Check if API keys are stored
-    const openaiKey = localStorage.getItem('openai_api_key');
     const perplexityKey = getPerplexityApiKey();
     
-    setOpenaiConnected(!!openaiKey);
+    setProviderConfig(getActiveProviderConfig());
     setPerplexityConnected(!!perplexityKey);
   }, []);
 
   // Refresh status when called externally
   const refreshStatus = () => {
-    const openaiKey = localStorage.getItem('openai_api_key');
     const perplexityKey = getPerplexityApiKey();
     
-    setOpenaiConnected(!!openaiKey);
+    setProviderConfig(getActiveProviderConfig());
     setPerplexityConnected(!!perplexityKey);
   };
 
@@ -52,14 +53,14 @@ export function ApiKeyStatus({ onConfigureClick }: ApiKeyStatusProps) {
             
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
-                {openaiConnected ? (
+                {providerConnected ? (
                   <CheckCircle className="h-4 w-4 text-green-600" />
                 ) : (
                   <AlertCircle className="h-4 w-4 text-yellow-600" />
                 )}
-                <span className="text-sm">OpenAI</span>
-                <Badge variant={openaiConnected ? "default" : "secondary"} className="text-xs">
-                  {openaiConnected ? "Connected" : "Not Connected"}
+                <span className="text-sm" title={describeProvider(providerConfig)}>{providerLabel}</span>
+                <Badge variant={providerConnected ? "default" : "secondary"} className="text-xs">
+                  {providerConnected ? providerConfig.model : "Not Connected"}
                 </Badge>
               </div>
               
@@ -89,10 +90,10 @@ export function ApiKeyStatus({ onConfigureClick }: ApiKeyStatusProps) {
           </Button>
         </div>
         
-        {!openaiConnected && (
+        {!providerConnected && (
           <div className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded-md">
             <p className="text-xs text-yellow-700">
-              <strong>OpenAI API key required:</strong> Connect your OpenAI API key to enable portfolio analysis.
+              <strong>{providerLabel} not configured:</strong> Connect an analysis provider to enable portfolio analysis.
             </p>
           </div>
         )}
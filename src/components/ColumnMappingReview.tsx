@@ -0,0 +1,277 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Columns } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MappingProfileManager } from '@/components/MappingProfileManager';
+import {
+  ColumnMappingDecision,
+  MappableField,
+  MatchType,
+  MAPPABLE_FIELDS,
+  SpreadsheetPreview,
+  UnitSource,
+  applyMappingProfile,
+  assignColumnUnits,
+  detectColumnUnit,
+  findDuplicateFieldAssignments,
+  findMissingEssentialFields,
+  getColumnSamples,
+  getFieldLabel,
+  getMappingWarnings
+} from '@/utils/excelParser';
+import { MappingProfile } from '@/utils/mappingProfiles';
+import { ValueUnit } from '@/utils/numberFormatting';
+
+const IGNORE_VALUE = '__ignore__';
+
+const UNIT_OPTIONS: { unit: ValueUnit; label: string }[] = [
+  { unit: 'dollars', label: '$ (dollars)' },
+  { unit: 'thousands', label: '$K (thousands)' },
+  { unit: 'millions', label: '$M (millions)' }
+];
+
+const UNIT_SOURCE_LABELS: Record<UnitSource, string> = {
+  detected: 'Detected',
+  default: 'Template default',
+  profile: 'From profile',
+  manual: 'Override'
+};
+
+interface ColumnMappingReviewProps {
+  preview: SpreadsheetPreview;
+  onConfirm: (columnMappings: ColumnMappingDecision[]) => void;
+  onCancel: () => void;
+  isProcessing?: boolean;
+  stepLabel?: string; // e.g. "Sheet 2 of 3" when several sheets are reviewed in turn
+  confirmLabel?: string;
+}
+
+export function ColumnMappingReview({ preview, onConfirm, onCancel, isProcessing, stepLabel, confirmLabel = 'Confirm Mapping & Import' }: ColumnMappingReviewProps) {
+  const [decisions, setDecisions] = useState<ColumnMappingDecision[]>(preview.columnMappings);
+  const [activeProfile, setActiveProfile] = useState(preview.mappingProfile);
+
+  const missingEssentials = useMemo(() => findMissingEssentialFields(decisions), [decisions]);
+  const duplicateFields = useMemo(() => findDuplicateFieldAssignments(decisions), [decisions]);
+  const mappedCount = decisions.filter(decision => decision.field && decision.matchType !== 'ignored').length;
+  const warningCount = decisions.filter(decision => decision.warnings.length > 0).length;
+  const currencyColumns = decisions.filter(decision => decision.unit && decision.matchType !== 'ignored');
+
+  const handleFieldChange = (columnIndex: number, value: string) => {
+    setDecisions(prev => prev.map(decision => {
+      if (decision.columnIndex !== columnIndex) return decision;
+      if (value === IGNORE_VALUE) {
+        return { ...decision, field: null, matchType: 'ignored', confidence: 0, warnings: [], unit: null, unitConfidence: 0, unitSource: null };
+      }
+      const field = value as MappableField;
+      const reassigned: ColumnMappingDecision = { ...decision, field, matchType: 'manual', confidence: 1, warnings: getMappingWarnings(decision.header, field) };
+      return { ...reassigned, ...detectColumnUnit(preview, reassigned) };
+    }));
+  };
+
+  // Overriding the unit rescales every value in the column on import
+  const handleUnitChange = (columnIndex: number, unit: ValueUnit) => {
+    setDecisions(prev => prev.map(decision =>
+      decision.columnIndex === columnIndex
+        ? { ...decision, unit, unitConfidence: 1, unitSource: 'manual' }
+        : decision
+    ));
+  };
+
+  const handleApplyProfile = (profile: MappingProfile) => {
+    setDecisions(assignColumnUnits(preview, applyMappingProfile(profile, preview.headers)));
+  };
+
+  const getMatchTypeBadge = (matchType: MatchType) => {
+    const variants: Record<MatchType, { variant: 'default' | 'secondary' | 'outline' | 'destructive'; label: string }> = {
+      exact: { variant: 'default', label: 'Exact' },
+      keyword: { variant: 'secondary', label: 'Keyword' },
+      profile: { variant: 'default', label: 'Profile' },
+      manual: { variant: 'outline', label: 'Manual' },
+      unmapped: { variant: 'outline', label: 'Unmapped' },
+      ignored: { variant: 'outline', label: 'Ignored' }
+    };
+    const config = variants[matchType];
+    return <Badge variant={config.variant} className="text-xs">{config.label}</Badge>;
+  };
+
+  const getConfidenceClass = (confidence: number) => {
+    if (confidence >= 0.9) return 'text-green-600';
+    if (confidence >= 0.6) return 'text-yellow-600';
+    return 'text-destructive';
+  };
+
+  return (
+    <Card className="w-full shadow-medium">
+      <CardHeader className="bg-gradient-subtle">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Columns className="h-5 w-5 text-accent" />
+            <CardTitle className="text-xl font-semibold">Review Column Mapping</CardTitle>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="outline">{preview.fileName}</Badge>
+            <Badge variant="outline">Sheet: {preview.sheetName}</Badge>
+            {stepLabel && <Badge variant="secondary">{stepLabel}</Badge>}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {decisions.length} columns detected · {mappedCount} mapped · {warningCount} with warnings.
+          Reassign or ignore columns before importing.
+        </p>
+        <MappingProfileManager
+          headers={preview.headers}
+          decisions={decisions}
+          activeProfile={activeProfile}
+          onApplyProfile={handleApplyProfile}
+          onActiveProfileChange={setActiveProfile}
+          disabled={isProcessing}
+        />
+      </CardHeader>
+
+      <CardContent className="p-0">
+        <div className="p-4 space-y-2">
+          {missingEssentials.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Map the essential fields before importing: {missingEssentials.map(getFieldLabel).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+          {currencyColumns.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>Currency units:</span>
+              {currencyColumns.map(decision => (
+                <Badge
+                  key={decision.columnIndex}
+                  variant={decision.unitSource === 'default' ? 'outline' : 'secondary'}
+                  className="text-xs"
+                >
+                  {getFieldLabel(decision.field)}: {decision.unit}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {duplicateFields.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Mapped from more than one column (the right-most column wins): {duplicateFields.map(getFieldLabel).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader className="bg-muted/50">
+              <TableRow>
+                <TableHead className="min-w-[220px]">Spreadsheet Column</TableHead>
+                <TableHead className="min-w-[180px]">Sample Values</TableHead>
+                <TableHead className="min-w-[240px]">Mapped Field</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead className="min-w-[170px]">Unit</TableHead>
+                <TableHead className="min-w-[200px]">Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {decisions.map(decision => (
+                <TableRow key={decision.columnIndex}>
+                  <TableCell className="font-medium whitespace-pre-line">{decision.header}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {getColumnSamples(preview, decision.columnIndex).join(' · ') || 'Empty'}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={decision.field && decision.matchType !== 'ignored' ? decision.field : IGNORE_VALUE}
+                      onValueChange={(value) => handleFieldChange(decision.columnIndex, value)}
+                      disabled={isProcessing}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE_VALUE}>Ignore column</SelectItem>
+                        {MAPPABLE_FIELDS.map(option => (
+                          <SelectItem key={option.field} value={option.field}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>{getMatchTypeBadge(decision.matchType)}</TableCell>
+                  <TableCell>
+                    {decision.field && decision.matchType !== 'ignored' ? (
+                      <span className={`text-sm font-medium ${getConfidenceClass(decision.confidence)}`}>
+                        {Math.round(decision.confidence * 100)}%
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {decision.unit ? (
+                      <div className="space-y-1">
+                        <Select
+                          value={decision.unit}
+                          onValueChange={(value) => handleUnitChange(decision.columnIndex, value as ValueUnit)}
+                          disabled={isProcessing}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {UNIT_OPTIONS.map(option => (
+                              <SelectItem key={option.unit} value={option.unit}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {decision.unitSource && (
+                          <p className={`text-xs ${decision.unitSource === 'default' ? 'text-yellow-600' : 'text-muted-foreground'}`}>
+                            {UNIT_SOURCE_LABELS[decision.unitSource]}
+                            {decision.unitSource === 'detected' || decision.unitSource === 'default'
+                              ? ` · ${Math.round(decision.unitConfidence * 100)}%`
+                              : ''}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {decision.warnings.length > 0 ? (
+                      <span className="text-yellow-600">⚠️ {decision.warnings.join('; ')}</span>
+                    ) : decision.field && duplicateFields.includes(decision.field) ? (
+                      <span className="text-yellow-600">⚠️ Field also mapped from another column</span>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-border">
+          <Button variant="outline" onClick={onCancel} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(decisions)}
+            disabled={isProcessing || missingEssentials.length > 0}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            <CheckCircle className="mr-2 h-4 w-4" />
+            {isProcessing ? 'Importing...' : confirmLabel}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,60 +1,58 @@
-
 import { useState } from 'react';
-import { Key, Search, AlertCircle, ExternalLink, CheckCircle } from 'lucide-react';
+import { Key, Search, AlertCircle, ExternalLink, CheckCircle, Cpu } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  LLM_PROVIDERS,
+  LLMProviderConfig,
+  LLMProviderId,
+  LLMSettings,
+  getLLMSettings,
+  getProviderConfigurationIssues
+} from '@/utils/llmProviders';
 
 interface CombinedApiKeyInputProps {
-  onApiKeysSubmit: (openaiKey: string, perplexityKey?: string) => void;
+  onApiKeysSubmit: (llmSettings: LLMSettings, perplexityKey?: string) => void;
   isAnalyzing: boolean;
 }
 
 export function CombinedApiKeyInput({ onApiKeysSubmit, isAnalyzing }: CombinedApiKeyInputProps) {
-  const [openaiKey, setOpenaiKey] = useState('');
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(() => getLLMSettings());
   const [perplexityKey, setPerplexityKey] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
-    setSuccess(null);
-    
-    if (!openaiKey.trim()) {
-      setError('OpenAI API key is required');
-      return;
-    }
-    
-    if (!openaiKey.startsWith('sk-')) {
-      setError('OpenAI API keys should start with "sk-"');
-      return;
-    }
+  const activeProvider = llmSettings.activeProvider;
+  const providerConfig = llmSettings.providers[activeProvider];
+  const providerDefinition = LLM_PROVIDERS[activeProvider];
+  const isAzure = activeProvider === 'azure-openai';
 
-    if (perplexityKey.trim() && !perplexityKey.startsWith('pplx-')) {
-      setError('Perplexity API keys should start with "pplx-"');
-      return;
-    }
-    
-    setSuccess('API keys configured successfully!');
-    setTimeout(() => {
-      onApiKeysSubmit(openaiKey.trim(), perplexityKey.trim() || undefined);
-    }, 1000);
+  const updateProviderConfig = (changes: Partial<LLMProviderConfig>) => {
+    setLlmSettings(prev => ({
+      ...prev,
+      providers: {
+        ...prev.providers,
+        [prev.activeProvider]: { ...prev.providers[prev.activeProvider], ...changes }
+      }
+    }));
   };
 
   const handleSaveOnly = () => {
     setError(null);
     setSuccess(null);
-    
-    if (!openaiKey.trim()) {
-      setError('OpenAI API key is required');
+
+    const issues = getProviderConfigurationIssues(providerConfig);
+    if (issues.length > 0) {
+      setError(`${providerDefinition.label}: ${issues.join(', ')}`);
       return;
     }
-    
-    if (!openaiKey.startsWith('sk-')) {
+
+    if (activeProvider === 'openai' && !providerConfig.apiKey.startsWith('sk-')) {
       setError('OpenAI API keys should start with "sk-"');
       return;
     }
@@ -63,10 +61,10 @@ export function CombinedApiKeyInput({ onApiKeysSubmit, isAnalyzing }: CombinedAp
       setError('Perplexity API keys should start with "pplx-"');
       return;
     }
-    
+
     setSuccess('Configuration saved!');
     setTimeout(() => {
-      onApiKeysSubmit(openaiKey.trim(), perplexityKey.trim() || undefined);
+      onApiKeysSubmit(llmSettings, perplexityKey.trim() || undefined);
     }, 1000);
   };
 
@@ -79,28 +77,145 @@ export function CombinedApiKeyInput({ onApiKeysSubmit, isAnalyzing }: CombinedAp
         </div>
         <CardTitle className="text-lg">Configure API Services</CardTitle>
         <p className="text-sm text-muted-foreground">
-          Connect your API keys to enable AI-powered portfolio analysis
+          Choose the language model provider that powers portfolio analysis
         </p>
       </CardHeader>
-      
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* OpenAI API Key - Required */}
+
+      <CardContent className="max-h-[70vh] overflow-y-auto">
+        <form onSubmit={(e) => { e.preventDefault(); handleSaveOnly(); }} className="space-y-6">
+          {/* LLM Provider - Required */}
           <div className="space-y-2">
             <div className="flex items-center gap-2">
-              <Label htmlFor="openai-key">OpenAI API Key</Label>
+              <Cpu className="h-4 w-4 text-muted-foreground" />
+              <Label>Analysis Provider</Label>
               <Badge variant="destructive" className="text-xs">Required</Badge>
             </div>
-            <Input
-              id="openai-key"
-              type="password"
-              placeholder="sk-..."
-              value={openaiKey}
-              onChange={(e) => setOpenaiKey(e.target.value)}
+            <Select
+              value={activeProvider}
+              onValueChange={(value) => setLlmSettings(prev => ({ ...prev, activeProvider: value as LLMProviderId }))}
               disabled={isAnalyzing}
-            />
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map(id => (
+                  <SelectItem key={id} value={id}>{LLM_PROVIDERS[id].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{providerDefinition.description}</p>
+          </div>
+
+          <div className="space-y-4 rounded-md border border-border p-4">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="llm-key">API Key</Label>
+                {!providerDefinition.requiresApiKey && (
+                  <Badge variant="secondary" className="text-xs">Optional</Badge>
+                )}
+              </div>
+              <Input
+                id="llm-key"
+                type="password"
+                placeholder={activeProvider === 'openai' ? 'sk-...' : activeProvider === 'anthropic' ? 'sk-ant-...' : ''}
+                value={providerConfig.apiKey}
+                onChange={(e) => updateProviderConfig({ apiKey: e.target.value.trim() })}
+                disabled={isAnalyzing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="llm-base-url">{isAzure ? 'Endpoint' : 'Base URL'}</Label>
+              <Input
+                id="llm-base-url"
+                placeholder={isAzure ? 'https://your-resource.openai.azure.com' : LLM_PROVIDERS[activeProvider].defaults.baseUrl}
+                value={providerConfig.baseUrl}
+                onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                disabled={isAnalyzing}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="llm-model">{isAzure ? 'Deployment Name' : 'Model'}</Label>
+                <Input
+                  id="llm-model"
+                  value={providerConfig.model}
+                  onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                  disabled={isAnalyzing}
+                />
+              </div>
+              {isAzure && (
+                <div className="space-y-2">
+                  <Label htmlFor="llm-api-version">API Version</Label>
+                  <Input
+                    id="llm-api-version"
+                    value={providerConfig.apiVersion || ''}
+                    onChange={(e) => updateProviderConfig({ apiVersion: e.target.value })}
+                    disabled={isAnalyzing}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="llm-temperature">Temperature</Label>
+                <Input
+                  id="llm-temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={providerConfig.temperature}
+                  onChange={(e) => updateProviderConfig({ temperature: parseFloat(e.target.value) })}
+                  disabled={isAnalyzing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-max-tokens">Max Tokens</Label>
+                <Input
+                  id="llm-max-tokens"
+                  type="number"
+                  min={256}
+                  step={256}
+                  value={providerConfig.maxTokens}
+                  onChange={(e) => updateProviderConfig({ maxTokens: parseInt(e.target.value) })}
+                  disabled={isAnalyzing}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="llm-concurrency">Parallel Requests</Label>
+                <Input
+                  id="llm-concurrency"
+                  type="number"
+                  min={1}
+                  max={16}
+                  step={1}
+                  value={providerConfig.concurrency}
+                  onChange={(e) => updateProviderConfig({ concurrency: parseInt(e.target.value) })}
+                  disabled={isAnalyzing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-rpm">Requests / Minute</Label>
+                <Input
+                  id="llm-rpm"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={providerConfig.requestsPerMinute}
+                  onChange={(e) => updateProviderConfig({ requestsPerMinute: parseInt(e.target.value) })}
+                  disabled={isAnalyzing}
+                />
+              </div>
+            </div>
             <p className="text-xs text-muted-foreground">
-              Powers the core AI analysis and investment recommendations
+              Match your account's rate limit. Rate-limited and server errors are retried with exponential backoff.
             </p>
           </div>
 
@@ -122,7 +237,7 @@ export function CombinedApiKeyInput({ onApiKeysSubmit, isAnalyzing }: CombinedAp
               Enables real-time market research and competitive intelligence
             </p>
           </div>
-          
+
           {error && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
@@ -136,36 +251,45 @@ export function CombinedApiKeyInput({ onApiKeysSubmit, isAnalyzing }: CombinedAp
               <AlertDescription className="text-green-700">{success}</AlertDescription>
             </Alert>
           )}
-          
+
           <div className="space-y-2">
-            <Button 
+            <Button
               type="button"
               className="w-full"
-              disabled={isAnalyzing || !openaiKey.trim()}
+              disabled={isAnalyzing}
               onClick={handleSaveOnly}
             >
               Save Configuration
             </Button>
           </div>
         </form>
-        
+
         <div className="mt-6 space-y-3">
           <div className="p-3 bg-muted/30 rounded-md">
             <p className="text-xs text-muted-foreground mb-2">
               <strong>Note:</strong> Your API keys are stored locally in your browser and are not shared with our servers.
+              Local OpenAI-compatible servers must allow requests from this origin (CORS).
             </p>
             <div className="flex flex-col gap-1">
-              <a 
-                href="https://platform.openai.com/api-keys" 
-                target="_blank" 
+              <a
+                href="https://platform.openai.com/api-keys"
+                target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-primary hover:underline inline-flex items-center"
               >
                 Get OpenAI API key <ExternalLink className="ml-1 h-3 w-3" />
               </a>
-              <a 
-                href="https://docs.perplexity.ai/docs/getting-started" 
-                target="_blank" 
+              <a
+                href="https://console.anthropic.com/settings/keys"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-primary hover:underline inline-flex items-center"
+              >
+                Get Anthropic API key <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+              <a
+                href="https://docs.perplexity.ai/docs/getting-started"
+                target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-primary hover:underline inline-flex items-center"
               >
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Pencil, RotateCcw, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import {
+  describeDistribution,
+  Distribution,
+  DISTRIBUTION_PARAMETERS,
+  DISTRIBUTION_TYPES,
+  DistributionOverrides,
+  DistributionType,
+  getDistributionIssues,
+  getDistributionOverrides,
+  reshapeDistribution,
+  saveDistributionOverrides,
+  SIMULATION_VARIABLES,
+  SimulationVariable
+} from '@/utils/returnSimulation';
+
+interface DistributionOverridesEditorProps {
+  company: AnalyzedCompanyData;
+}
+
+const VARIABLE_FORMATS: Record<SimulationVariable, (value: number) => string> = {
+  growth: value => `${value.toFixed(0)}%`,
+  exitMultiple: value => `${value.toFixed(1)}x`,
+  exitYears: value => `${value.toFixed(1)}y`,
+  roundDilution: value => `${value.toFixed(2)}×`
+};
+
+// Results from before round-based dilution have no round dilution input to start an override from
+const FALLBACK_DISTRIBUTION: Distribution = { type: 'uniform', min: 0.7, max: 1.3 };
+
+function parseNumber(value: string): number {
+  return value === '' ? NaN : parseFloat(value);
+}
+
+export function DistributionOverridesEditor({ company }: DistributionOverridesEditorProps) {
+  const [overrides, setOverrides] = useState<DistributionOverrides>(() => getDistributionOverrides(company));
+  const [editing, setEditing] = useState<{ key: SimulationVariable; draft: Distribution } | null>(null);
+  const { toast } = useToast();
+  const issues = editing ? getDistributionIssues(editing.draft) : [];
+
+  const save = (next: DistributionOverrides) => {
+    try {
+      saveDistributionOverrides(company, next);
+      setOverrides(next);
+      setEditing(null);
+      toast({
+        title: "Distribution Saved",
+        description: `Re-run the analysis to apply it to ${company.companyName}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Distribution",
+        description: error instanceof Error ? error.message : "Settings storage is unavailable",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReset = (key: SimulationVariable) => {
+    const { [key]: _removed, ...rest } = overrides;
+    save(rest);
+  };
+
+  const updateDraft = (changes: Partial<Distribution>) => {
+    setEditing(current => current && { ...current, draft: { ...current.draft, ...changes } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs">
+        <tbody>
+          {SIMULATION_VARIABLES.map(({ key, label }) => {
+            const current = overrides[key] || company.simulation?.inputs[key];
+            return (
+              <tr key={key} className="border-b border-border last:border-0">
+                <td className="text-muted-foreground py-1">{label}</td>
+                <td className="text-right py-1" title={key === 'exitMultiple' ? company.simulation?.exitMultipleBasis || 'Simulation settings default' : undefined}>
+                  {overrides[key] && <Badge variant="secondary" className="text-xs mr-2">Override</Badge>}
+                  {current ? describeDistribution(current, VARIABLE_FORMATS[key]) : 'N/A'}
+                </td>
+                <td className="text-right py-1 w-[72px]">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-1"
+                    onClick={() => setEditing({ key, draft: { ...(current || FALLBACK_DISTRIBUTION) } })}
+                    title="Edit distribution"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  {overrides[key] && (
+                    <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => handleReset(key)} title="Use the score-derived distribution">
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {editing && (
+        <div className="rounded border border-border p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">{SIMULATION_VARIABLES.find(variable => variable.key === editing.key)?.label}</span>
+            <Select
+              value={editing.draft.type}
+              onValueChange={(type: DistributionType) => setEditing({ ...editing, draft: reshapeDistribution(editing.draft, type) })}
+            >
+              <SelectTrigger className="h-7 w-[130px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISTRIBUTION_TYPES.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {DISTRIBUTION_PARAMETERS[editing.draft.type].map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`distribution-${company.id}-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                <Input
+                  id={`distribution-${company.id}-${key}`}
+                  type="number"
+                  className="h-7 text-xs"
+                  value={Number.isFinite(editing.draft[key]) ? editing.draft[key] : ''}
+                  onChange={(e) => updateDraft({ [key]: parseNumber(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+          {issues.length > 0 && <p className="text-xs text-destructive">{issues.join('. ')}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+              <X className="mr-1 h-3 w-3" />
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => save({ ...overrides, [editing.key]: editing.draft })} disabled={issues.length > 0}>
+              <Save className="mr-1 h-3 w-3" />
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Overrides replace the distribution derived from the scores and are used as entered, so sensitivity swings on that input have no effect.
+      </p>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Upload, FileSpreadsheet, AlertCircle } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { isSupportedSpreadsheet, SUPPORTED_SPREADSHEET_EXTENSIONS } from '@/utils/spreadsheetReader';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
@@ -44,8 +45,8 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
     console.log('FileUpload: handleFile called with file:', file.name);
     setError(null);
     
-    if (!file.name.endsWith('.xlsx')) {
-      setError('Please upload an Excel file (.xlsx format only)');
+    if (!isSupportedSpreadsheet(file.name)) {
+      setError('Please upload a spreadsheet (.xlsx, .xls, .ods, .csv or .tsv)');
       return;
     }
     
@@ -76,7 +77,7 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
               Upload Portfolio Data
             </h3>
             <p className="text-muted-foreground mb-6">
-              Upload an Excel file with your portfolio company data on the "Main Page" tab
+              Upload an Excel workbook (data on the "Main Page" tab), a CSV/TSV export from your CRM, or a Google Sheets download
             </p>
             
             <div className="space-y-4">
@@ -86,18 +87,18 @@ export function FileUpload({ onFileSelect }: FileUploadProps) {
                 onClick={() => document.getElementById('file-input')?.click()}
               >
                 <Upload className="mr-2 h-4 w-4" />
-                Select Excel File
+                Select Spreadsheet
                 <input
                   id="file-input"
                   type="file"
-                  accept=".xlsx"
+                  accept={SUPPORTED_SPREADSHEET_EXTENSIONS.join(',')}
                   onChange={handleFileInput}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 />
               </Button>
               
               <p className="text-sm text-muted-foreground">
-                Or drag and drop your .xlsx file here
+                Or drag and drop your .xlsx, .xls, .ods, .csv or .tsv file here
               </p>
             </div>
           </div>
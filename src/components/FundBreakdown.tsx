@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { aggregateByFund } from '@/utils/chartData';
+import { formatCurrency } from '@/utils/numberFormatting';
+
+interface FundBreakdownProps {
+  companies: AnalyzedCompanyData[];
+  selectedFund: string | null;
+  onFundSelect: (fund: string | null) => void;
+}
+
+export function FundBreakdown({ companies, selectedFund, onFundSelect }: FundBreakdownProps) {
+  const funds = useMemo(() => aggregateByFund(companies), [companies]);
+
+  const formatMOIC = (moic: number | null) => moic !== null ? `${moic.toFixed(2)}x` : 'N/A';
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-accent" />
+            <CardTitle className="text-lg font-semibold">Fund Breakdown</CardTitle>
+          </div>
+          {selectedFund && (
+            <button
+              onClick={() => onFundSelect(null)}
+              className="text-sm text-muted-foreground hover:text-foreground"
+            >
+              Show all funds
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">Click a fund to filter the dashboard to its companies</p>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader className="bg-muted/50">
+            <TableRow>
+              <TableHead>Fund / Sheet</TableHead>
+              <TableHead className="text-right">Companies</TableHead>
+              <TableHead className="text-right">Invested</TableHead>
+              <TableHead className="text-right">Requested</TableHead>
+              <TableHead className="text-right">Avg MOIC</TableHead>
+              <TableHead className="text-right">Capital-Weighted MOIC</TableHead>
+              <TableHead className="text-right">Analyzed</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {funds.map(fund => (
+              <TableRow
+                key={fund.fund}
+                className={`cursor-pointer hover:bg-muted/50 ${selectedFund === fund.fund ? 'bg-accent/10' : ''}`}
+                onClick={() => onFundSelect(selectedFund === fund.fund ? null : fund.fund)}
+              >
+                <TableCell className="font-medium">{fund.fund}</TableCell>
+                <TableCell className="text-right">{fund.companyCount}</TableCell>
+                <TableCell className="text-right">{formatCurrency(fund.totalInvested)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(fund.totalRequested)}</TableCell>
+                <TableCell className="text-right">{formatMOIC(fund.avgMOIC)}</TableCell>
+                <TableCell className="text-right">{formatMOIC(fund.weightedMOIC)}</TableCell>
+                <TableCell className="text-right">{fund.analyzedCount}/{fund.companyCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
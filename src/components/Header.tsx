@@ -1,7 +1,17 @@
-import { TrendingUp, Settings, User } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { TrendingUp, Settings, User, LayoutDashboard, FolderOpen, GitCompare, Scale } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
+const NAV_LINKS = [
+  { to: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+  { to: '/workspaces', label: 'Workspaces', icon: FolderOpen },
+  { to: '/compare', label: 'Compare', icon: GitCompare },
+  { to: '/multiples', label: 'Multiples', icon: Scale }
+];
+
 export function Header() {
+  const { pathname } = useLocation();
+
   return (
     <header className="border-b border-accent/30 bg-gradient-subtle shadow-glow backdrop-blur-md relative scan-lines">
       <div className="container mx-auto px-6 py-4">
@@ -17,8 +27,33 @@ export function Header() {
           </div>
           
           <div className="flex items-center space-x-2">
-            <Button variant="ghost" size="sm" className="hover:bg-accent/20 hover:text-accent">
-              <Settings className="h-4 w-4" />
+            {NAV_LINKS.map(({ to, label, icon: Icon }) => {
+              // The index route renders the dashboard as well
+              const isActive = pathname === to || (to === '/dashboard' && pathname === '/');
+              return (
+                <Button
+                  key={to}
+                  asChild
+                  variant="ghost"
+                  size="sm"
+                  className={`hover:bg-accent/20 hover:text-accent ${isActive ? 'text-accent' : ''}`}
+                >
+                  <Link to={to}>
+                    <Icon className="mr-2 h-4 w-4" />
+                    {label}
+                  </Link>
+                </Button>
+              );
+            })}
+            <Button
+              asChild
+              variant="ghost"
+              size="sm"
+              className={`hover:bg-accent/20 hover:text-accent ${pathname === '/scoring' ? 'text-accent' : ''}`}
+            >
+              <Link to="/scoring" title="Scoring model">
+                <Settings className="h-4 w-4" />
+              </Link>
             </Button>
             <Button variant="ghost" size="sm" className="hover:bg-accent/20 hover:text-accent">
               <User className="h-4 w-4" />
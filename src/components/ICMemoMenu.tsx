@@ -0,0 +1,51 @@
+import { FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { exportICMemo, hasMemoContent, MemoFormat } from '@/utils/icMemo';
+
+interface ICMemoMenuProps {
+  company: AnalyzedCompanyData;
+}
+
+export function ICMemoMenu({ company }: ICMemoMenuProps) {
+  const { toast } = useToast();
+
+  const handleExport = (format: MemoFormat) => {
+    try {
+      exportICMemo(company, format);
+    } catch (error) {
+      toast({
+        title: "Memo Export Failed",
+        description: error instanceof Error ? error.message : 'Could not generate the memo',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!hasMemoContent(company)} title={hasMemoContent(company) ? undefined : 'Run an analysis first'}>
+          <FileText className="mr-2 h-4 w-4" />
+          IC Memo
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Investment committee memo</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>Print / Save as PDF</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('markdown')}>Download Markdown</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('html')}>Download HTML</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, ClipboardList, Download } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ImportIssueSeverity,
+  ImportReport,
+  importReportToCsv,
+  importReportToJson,
+  summarizeImportReport
+} from '@/utils/importReport';
+import { downloadFile } from '@/utils/fileDownload';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const SEVERITY_STYLES: Record<ImportIssueSeverity, { variant: 'destructive' | 'secondary' | 'outline'; label: string }> = {
+  error: { variant: 'destructive', label: 'Error' },
+  warning: { variant: 'secondary', label: 'Warning' },
+  info: { variant: 'outline', label: 'Info' }
+};
+
+export function ImportReportPanel({ report }: ImportReportPanelProps) {
+  const summary = useMemo(() => summarizeImportReport(report), [report]);
+  const [severityFilter, setSeverityFilter] = useState<ImportIssueSeverity | 'all'>('all');
+  const [isExpanded, setIsExpanded] = useState(summary.errors > 0);
+
+  const visibleIssues = severityFilter === 'all'
+    ? report.issues
+    : report.issues.filter(issue => issue.severity === severityFilter);
+
+  const hasMultipleSheets = report.issues.some(issue => issue.sheetName);
+  const baseFileName = report.fileName.replace(/\.[^.]+$/, '');
+
+  const handleDownloadCsv = () => {
+    downloadFile(importReportToCsv(report), `${baseFileName}-import-report.csv`, 'text/csv');
+  };
+
+  const handleDownloadJson = () => {
+    downloadFile(importReportToJson(report), `${baseFileName}-import-report.json`);
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-accent" />
+            <CardTitle className="text-lg font-semibold">Import Report</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownloadCsv} disabled={report.issues.length === 0}>
+              <Download className="mr-1 h-3 w-3" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownloadJson}>
+              <Download className="mr-1 h-3 w-3" />
+              JSON
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)} disabled={report.issues.length === 0}>
+              {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            Imported {report.importedCompanyCount} of {report.dataRowCount} data rows from {hasMultipleSheets ? 'sheets' : 'sheet'} "{report.sheetName}"
+          </span>
+          {report.issues.length === 0 ? (
+            <Badge variant="outline" className="text-green-600 border-green-600">No issues found</Badge>
+          ) : (
+            <>
+              <Badge variant="destructive">{summary.errors} errors</Badge>
+              <Badge variant="secondary">{summary.warnings} warnings</Badge>
+              <Badge variant="outline">{summary.info} info</Badge>
+              <span>across {summary.affectedRows} rows</span>
+            </>
+          )}
+        </div>
+      </CardHeader>
+
+      {isExpanded && report.issues.length > 0 && (
+        <CardContent className="p-0">
+          <div className="flex gap-2 px-6 pb-3">
+            {(['all', 'error', 'warning', 'info'] as const).map(filter => (
+              <Button
+                key={filter}
+                variant={severityFilter === filter ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSeverityFilter(filter)}
+              >
+                {filter === 'all' ? 'All' : SEVERITY_STYLES[filter].label}
+              </Button>
+            ))}
+          </div>
+          <div className="max-h-[400px] overflow-auto border-t border-border">
+            <Table>
+              <TableHeader className="bg-muted/50">
+                <TableRow>
+                  {hasMultipleSheets && <TableHead>Sheet</TableHead>}
+                  <TableHead className="w-[70px]">Row</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead className="min-w-[280px]">Issue</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleIssues.map((issue, index) => (
+                  <TableRow key={`${issue.sheetName}-${issue.rowNumber}-${issue.field}-${issue.kind}-${index}`}>
+                    {hasMultipleSheets && <TableCell className="text-xs">{issue.sheetName}</TableCell>}
+                    <TableCell className="text-xs">{issue.rowNumber ?? '-'}</TableCell>
+                    <TableCell className="text-xs font-medium">{issue.companyName || '-'}</TableCell>
+                    <TableCell className="text-xs whitespace-pre-line">{issue.columnHeader || '-'}</TableCell>
+                    <TableCell className="text-xs font-mono">{issue.rawValue ?? '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={SEVERITY_STYLES[issue.severity].variant} className="text-xs">
+                        {SEVERITY_STYLES[issue.severity].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{issue.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
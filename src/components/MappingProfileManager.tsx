@@ -0,0 +1,158 @@
+import { useRef, useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ColumnMappingDecision } from '@/utils/excelParser';
+import {
+  MappingProfile,
+  deleteMappingProfile,
+  exportMappingProfiles,
+  getMappingProfiles,
+  importMappingProfiles,
+  saveMappingProfile
+} from '@/utils/mappingProfiles';
+import { downloadFile, readTextFile } from '@/utils/fileDownload';
+
+interface MappingProfileManagerProps {
+  headers: string[];
+  decisions: ColumnMappingDecision[];
+  activeProfile: { id: string; name: string } | null;
+  onApplyProfile: (profile: MappingProfile) => void;
+  onActiveProfileChange: (profile: { id: string; name: string } | null) => void;
+  disabled?: boolean;
+}
+
+export function MappingProfileManager({
+  headers,
+  decisions,
+  activeProfile,
+  onApplyProfile,
+  onActiveProfileChange,
+  disabled
+}: MappingProfileManagerProps) {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => getMappingProfiles());
+  const [profileName, setProfileName] = useState(activeProfile?.name || '');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleApply = (profileId: string) => {
+    const profile = profiles.find(saved => saved.id === profileId);
+    if (!profile) return;
+    onApplyProfile(profile);
+    onActiveProfileChange({ id: profile.id, name: profile.name });
+    setProfileName(profile.name);
+  };
+
+  const handleSave = () => {
+    try {
+      const profile = saveMappingProfile(profileName, headers, decisions);
+      setProfiles(getMappingProfiles());
+      onActiveProfileChange({ id: profile.id, name: profile.name });
+      toast({
+        title: "Mapping Profile Saved",
+        description: `"${profile.name}" will be applied automatically to spreadsheets with this layout`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Profile",
+        description: error instanceof Error ? error.message : "Failed to save mapping profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    deleteMappingProfile(activeProfile.id);
+    setProfiles(getMappingProfiles());
+    onActiveProfileChange(null);
+    toast({
+      title: "Mapping Profile Deleted",
+      description: `"${activeProfile.name}" has been removed`,
+    });
+  };
+
+  const handleExport = () => {
+    downloadFile(exportMappingProfiles(profiles), 'column-mapping-profiles.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { imported, skipped } = importMappingProfiles(await readTextFile(file));
+      setProfiles(getMappingProfiles());
+      toast({
+        title: "Mapping Profiles Imported",
+        description: skipped > 0
+          ? `Imported ${imported} profiles (${skipped} invalid entries skipped)`
+          : `Imported ${imported} profiles`,
+      });
+    } catch (error) {
+      toast({
+        title: "Profile Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import mapping profiles",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {activeProfile ? (
+        <Badge variant="secondary">Profile: {activeProfile.name}</Badge>
+      ) : (
+        <Badge variant="outline">No saved profile</Badge>
+      )}
+
+      <Select value={activeProfile?.id ?? ''} onValueChange={handleApply} disabled={disabled || profiles.length === 0}>
+        <SelectTrigger className="h-8 w-[200px] text-xs">
+          <SelectValue placeholder={profiles.length > 0 ? 'Apply saved profile' : 'No saved profiles'} />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        value={profileName}
+        onChange={(e) => setProfileName(e.target.value)}
+        placeholder="Profile name"
+        className="h-8 w-[180px] text-xs"
+        disabled={disabled}
+      />
+      <Button variant="outline" size="sm" onClick={handleSave} disabled={disabled || !profileName.trim()}>
+        <Save className="mr-1 h-3 w-3" />
+        Save Profile
+      </Button>
+      {activeProfile && (
+        <Button variant="ghost" size="sm" onClick={handleDelete} disabled={disabled}>
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={handleExport} disabled={disabled || profiles.length === 0}>
+        <Download className="mr-1 h-3 w-3" />
+        Export
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+        <Upload className="mr-1 h-3 w-3" />
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleImport}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { FileBarChart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { exportPortfolioReport, ReportFormat } from '@/utils/portfolioReport';
+
+interface PortfolioReportMenuProps {
+  companies: AnalyzedCompanyData[];
+  sourceFileName: string;
+  fundLabel: string | null;
+  disabled?: boolean;
+}
+
+export function PortfolioReportMenu({ companies, sourceFileName, fundLabel, disabled = false }: PortfolioReportMenuProps) {
+  const { toast } = useToast();
+
+  const handleExport = (format: ReportFormat) => {
+    try {
+      exportPortfolioReport(companies, { sourceFileName, fundLabel }, format);
+    } catch (error) {
+      toast({
+        title: "Report Export Failed",
+        description: error instanceof Error ? error.message : 'Could not generate the portfolio report',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || companies.length === 0}>
+          <FileBarChart className="mr-2 h-4 w-4" />
+          LP Report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{fundLabel ? `Report for ${fundLabel}` : 'Portfolio report'}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>Print / Save as PDF</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('html')}>Download HTML</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
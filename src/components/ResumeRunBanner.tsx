@@ -0,0 +1,45 @@
+import { History, Play, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AnalysisRun, summarizeRunProgress } from '@/utils/analysisRuns';
+
+interface ResumeRunBannerProps {
+  run: AnalysisRun;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+export function ResumeRunBanner({ run, onResume, onDiscard, disabled = false }: ResumeRunBannerProps) {
+  const summary = summarizeRunProgress(run);
+  const remaining = summary.pending + summary.failed;
+
+  return (
+    <Card className="shadow-soft border-accent/40">
+      <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <History className="h-5 w-5 text-accent mt-0.5 shrink-0" />
+          <div>
+            <p className="font-medium">Interrupted analysis of {run.fileName}</p>
+            <p className="text-sm text-muted-foreground">
+              {summary.completed} of {summary.total} companies completed with {run.providerDescription}
+              {' '}· last update {new Date(run.updatedAt).toLocaleString()}.
+              {' '}Resuming analyzes the remaining {remaining} {remaining === 1 ? 'company' : 'companies'}
+              {summary.failed > 0 ? ` (including ${summary.failed} that failed)` : ''}.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={onDiscard} disabled={disabled}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+          <Button size="sm" onClick={onResume} disabled={disabled} className="bg-gradient-primary hover:opacity-90">
+            <Play className="mr-2 h-4 w-4" />
+            Resume Analysis
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MissingDataPolicy, SCORING_METRICS, ScoringFactor } from '@/utils/scoringModel';
+
+interface ScoringFactorEditorProps {
+  factor: ScoringFactor;
+  onChange: (factor: ScoringFactor) => void;
+  onRemove: () => void;
+}
+
+const KIND_LABELS: Record<ScoringFactor['kind'], string> = {
+  scale: 'Proportional',
+  bands: 'Threshold bands',
+  keywords: 'Keyword match'
+};
+
+function parseNumber(value: string): number {
+  return value === '' ? NaN : parseFloat(value);
+}
+
+function NumberField({ id, label, value, onChange }: { id: string; label: string; value: number | undefined; onChange: (value: number) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        className="h-8"
+        value={value !== undefined && Number.isFinite(value) ? value : ''}
+        onChange={(e) => onChange(parseNumber(e.target.value))}
+      />
+    </div>
+  );
+}
+
+export function ScoringFactorEditor({ factor, onChange, onRemove }: ScoringFactorEditorProps) {
+  const update = (changes: Partial<ScoringFactor>) => onChange({ ...factor, ...changes });
+  const bands = factor.bands || [];
+  const keywords = factor.keywords || [];
+
+  return (
+    <Card className="shadow-soft">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1 space-y-1">
+            <Input
+              value={factor.label}
+              onChange={(e) => update({ label: e.target.value })}
+              className="h-8 font-medium"
+              aria-label="Factor name"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="text-xs">{SCORING_METRICS[factor.metric].label}</Badge>
+              <Badge variant="secondary" className="text-xs">{KIND_LABELS[factor.kind]}</Badge>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onRemove} title="Remove factor">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <NumberField id={`${factor.id}-points`} label="Weight (max points)" value={factor.points} onChange={(points) => update({ points })} />
+          {factor.kind === 'scale' && (
+            <NumberField id={`${factor.id}-scale`} label="Full marks at" value={factor.scaleMax} onChange={(scaleMax) => update({ scaleMax })} />
+          )}
+          {factor.kind === 'bands' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Better when</Label>
+              <Select value={factor.direction || 'higher'} onValueChange={(direction: 'higher' | 'lower') => update({ direction })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="higher">Higher (≥ threshold)</SelectItem>
+                  <SelectItem value="lower">Lower (≤ threshold)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {factor.kind !== 'scale' && (
+            <NumberField id={`${factor.id}-otherwise`} label="Otherwise (points)" value={factor.otherwisePoints} onChange={(otherwisePoints) => update({ otherwisePoints })} />
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">When data is missing</Label>
+            <Select value={factor.missing} onValueChange={(missing: MissingDataPolicy) => update({ missing })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Award fixed points</SelectItem>
+                <SelectItem value="exclude">Exclude and rescale</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {factor.missing === 'fixed' && (
+            <NumberField id={`${factor.id}-missing`} label="Missing-data points" value={factor.missingPoints} onChange={(missingPoints) => update({ missingPoints })} />
+          )}
+        </div>
+
+        {factor.kind === 'bands' && (
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Bands (the best band reached wins)</Label>
+            {bands.map((band, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground w-6">{factor.direction === 'lower' ? '≤' : '≥'}</span>
+                <Input
+                  type="number"
+                  className="h-8 w-28"
+                  value={Number.isFinite(band.threshold) ? band.threshold : ''}
+                  onChange={(e) => update({ bands: bands.map((entry, i) => i === index ? { ...entry, threshold: parseNumber(e.target.value) } : entry) })}
+                  aria-label="Threshold"
+                />
+                <span className="text-sm text-muted-foreground">→</span>
+                <Input
+                  type="number"
+                  className="h-8 w-24"
+                  value={Number.isFinite(band.points) ? band.points : ''}
+                  onChange={(e) => update({ bands: bands.map((entry, i) => i === index ? { ...entry, points: parseNumber(e.target.value) } : entry) })}
+                  aria-label="Points"
+                />
+                <span className="text-xs text-muted-foreground">pts</span>
+                <Button variant="ghost" size="sm" onClick={() => update({ bands: bands.filter((_, i) => i !== index) })} title="Remove band">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => update({ bands: [...bands, { threshold: 0, points: 0 }] })}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Band
+            </Button>
+          </div>
+        )}
+
+        {factor.kind === 'keywords' && (
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Keywords (the first match wins)</Label>
+            {keywords.map((entry, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  className="h-8 w-40"
+                  value={entry.keyword}
+                  onChange={(e) => update({ keywords: keywords.map((item, i) => i === index ? { ...item, keyword: e.target.value } : item) })}
+                  aria-label="Keyword"
+                />
+                <span className="text-sm text-muted-foreground">→</span>
+                <Input
+                  type="number"
+                  className="h-8 w-24"
+                  value={Number.isFinite(entry.points) ? entry.points : ''}
+                  onChange={(e) => update({ keywords: keywords.map((item, i) => i === index ? { ...item, points: parseNumber(e.target.value) } : item) })}
+                  aria-label="Points"
+                />
+                <span className="text-xs text-muted-foreground">pts</span>
+                <Button variant="ghost" size="sm" onClick={() => update({ keywords: keywords.filter((_, i) => i !== index) })} title="Remove keyword">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => update({ keywords: [...keywords, { keyword: '', points: 0 }] })}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Keyword
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { ArrowRight, Layers } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { WorkbookPreview } from '@/utils/excelParser';
+
+interface SheetSelectionProps {
+  workbook: WorkbookPreview;
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+export function SheetSelection({ workbook, onConfirm, onCancel }: SheetSelectionProps) {
+  const [selectedSheets, setSelectedSheets] = useState<string[]>(() => {
+    const companySheets = workbook.sheets.filter(sheet => sheet.containsCompanyTable).map(sheet => sheet.sheetName);
+    return companySheets.length > 0 ? companySheets : [workbook.defaultSheetName];
+  });
+
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    setSelectedSheets(prev => checked
+      ? workbook.sheets.map(sheet => sheet.sheetName).filter(name => name === sheetName || prev.includes(name))
+      : prev.filter(name => name !== sheetName));
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto shadow-medium">
+      <CardHeader className="bg-gradient-subtle">
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-accent" />
+          <CardTitle className="text-xl font-semibold">Select Sheets to Import</CardTitle>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {workbook.fileName} contains {workbook.sheets.length} sheets. Each selected sheet is imported as its own fund
+          and reviewed separately.
+        </p>
+      </CardHeader>
+
+      <CardContent className="p-4 space-y-2">
+        {workbook.sheets.map(sheet => (
+          <label
+            key={sheet.sheetName}
+            className={`flex items-start gap-3 rounded-md border border-border p-3 ${sheet.preview ? 'cursor-pointer hover:bg-muted/50' : 'opacity-60'}`}
+          >
+            <Checkbox
+              checked={selectedSheets.includes(sheet.sheetName)}
+              onCheckedChange={(checked) => toggleSheet(sheet.sheetName, checked === true)}
+              disabled={!sheet.preview}
+              className="mt-0.5"
+            />
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{sheet.sheetName}</span>
+                {sheet.containsCompanyTable ? (
+                  <Badge variant="secondary" className="text-xs">Company table</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-xs">Not detected</Badge>
+                )}
+                {sheet.sheetName === workbook.defaultSheetName && (
+                  <Badge variant="outline" className="text-xs">Default</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{sheet.reason}</p>
+            </div>
+          </label>
+        ))}
+
+        <div className="flex items-center justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(selectedSheets)}
+            disabled={selectedSheets.length === 0}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            Review {selectedSheets.length} {selectedSheets.length === 1 ? 'Sheet' : 'Sheets'}
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
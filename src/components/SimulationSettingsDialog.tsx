@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Dices } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_SIMULATION_SETTINGS,
+  getSimulationSettings,
+  getSimulationSettingsIssues,
+  saveSimulationSettings,
+  SimulationSettings
+} from '@/utils/returnSimulation';
+import {
+  DEFAULT_DILUTION_SETTINGS,
+  DilutionSettings,
+  FUNDING_ROUNDS,
+  getDilutionSettings,
+  getDilutionSettingsIssues,
+  saveDilutionSettings
+} from '@/utils/dilution';
+
+interface SimulationSettingsDialogProps {
+  disabled?: boolean;
+}
+
+interface SettingField<T> {
+  key: keyof T;
+  label: string;
+  hint: string;
+  percent?: boolean; // Stored as a fraction, edited as a percentage
+  step: number;
+}
+
+const FIELDS: SettingField<SimulationSettings>[] = [
+  { key: 'iterations', label: 'Simulated Paths', hint: 'Per company', step: 1000 },
+  { key: 'exitMultipleMedian', label: 'Median Exit Multiple (x)', hint: 'For industries missing from the exit multiple library', step: 0.5 },
+  { key: 'exitMultipleSigma', label: 'Exit Multiple Volatility', hint: 'Lognormal σ for unlisted industries, widened by weak market scores', step: 0.05 },
+  { key: 'growthVolatility', label: 'Growth Volatility (%)', hint: 'Of the base growth rate, widened by weak execution', percent: true, step: 5 },
+  { key: 'exitTimingSpreadYears', label: 'Exit Timing Spread (years)', hint: 'Early by up to 1x, late by up to 2x', step: 0.5 }
+];
+
+const DILUTION_FIELDS: SettingField<DilutionSettings>[] = [
+  { key: 'defaultRunwayMonths', label: 'Default Runway (months)', hint: 'Until the next round when the sheet has none', step: 1 },
+  { key: 'monthsBetweenRounds', label: 'Months Between Rounds', hint: 'After the next round', step: 3 },
+  { key: 'dilutionVariance', label: 'Dilution Variance (%)', hint: 'Per-path spread, shifted up by weak capital efficiency', percent: true, step: 5 }
+];
+
+function toInputValue(value: number, percent?: boolean): number | '' {
+  return Number.isFinite(value) ? Math.round((percent ? value * 100 : value) * 1000) / 1000 : '';
+}
+
+export function SimulationSettingsDialog({ disabled = false }: SimulationSettingsDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<SimulationSettings>(getSimulationSettings);
+  const [dilution, setDilution] = useState<DilutionSettings>(getDilutionSettings);
+  const issues = [...getSimulationSettingsIssues(settings), ...getDilutionSettingsIssues(dilution)];
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setSettings(getSimulationSettings());
+      setDilution(getDilutionSettings());
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateField = (field: SettingField<SimulationSettings>, value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(current => ({ ...current, [field.key]: field.percent ? parsed / 100 : parsed }));
+  };
+
+  const updateDilutionField = (field: SettingField<DilutionSettings>, value: string) => {
+    const parsed = parseFloat(value);
+    setDilution(current => ({ ...current, [field.key]: field.percent ? parsed / 100 : parsed }));
+  };
+
+  const handleSave = () => {
+    saveSimulationSettings(settings);
+    saveDilutionSettings(dilution);
+    setOpen(false);
+    toast({
+      title: "Simulation Settings Saved",
+      description: 'Re-run the analysis to apply the new distributions',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Dices className="mr-2 h-4 w-4" />
+          Simulation
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Simulation</DialogTitle>
+          <DialogDescription>
+            Distributions sampled for every company. Each company's scores widen or shift them from these defaults.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`simulation-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`simulation-${field.key}`}
+                type="number"
+                step={field.step}
+                value={toInputValue(settings[field.key], field.percent)}
+                onChange={(e) => updateField(field, e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t border-border pt-3">
+          <div>
+            <div className="text-sm font-medium">Future Rounds</div>
+            <p className="text-xs text-muted-foreground">
+              Rounds between now and exit, from each company's stage, runway and burn. Dilution is the share sold in a typical round.
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {FUNDING_ROUNDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`dilution-${key}`}>{label} (%)</Label>
+                <Input
+                  id={`dilution-${key}`}
+                  type="number"
+                  step={1}
+                  value={toInputValue(dilution.roundDilution[key], true)}
+                  onChange={(e) => setDilution(current => ({
+                    ...current,
+                    roundDilution: { ...current.roundDilution, [key]: parseFloat(e.target.value) / 100 }
+                  }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {DILUTION_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`dilution-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`dilution-${field.key}`}
+                  type="number"
+                  step={field.step}
+                  value={toInputValue(dilution[field.key] as number, field.percent)}
+                  onChange={(e) => updateDilutionField(field, e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor="dilution-pro-rata">Pro-rata Participation</Label>
+              <p className="text-xs text-muted-foreground">Hold ownership by funding our share of each round, counted as follow-on capital</p>
+            </div>
+            <Switch
+              id="dilution-pro-rata"
+              checked={dilution.proRata}
+              onCheckedChange={(proRata) => setDilution(current => ({ ...current, proRata }))}
+            />
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>{issues.join('. ')}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setSettings({ ...DEFAULT_SIMULATION_SETTINGS });
+              setDilution({ ...DEFAULT_DILUTION_SETTINGS, roundDilution: { ...DEFAULT_DILUTION_SETTINGS.roundDilution } });
+            }}
+          >
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={issues.length > 0}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
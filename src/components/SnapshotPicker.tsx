@@ -0,0 +1,99 @@
+import { useRef } from 'react';
+import { FileUp, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SUPPORTED_SPREADSHEET_EXTENSIONS } from '@/utils/spreadsheetReader';
+import { AnalysisSnapshot } from '@/utils/snapshotDiff';
+import { WorkspaceHistory } from '@/utils/workspaces';
+
+interface SnapshotPickerProps {
+  title: string;
+  history: WorkspaceHistory;
+  value: string; // "run:<id>", "upload:<id>", "file" once a file was loaded, or "" for nothing
+  snapshot: AnalysisSnapshot | null;
+  onHistorySelect: (value: string) => void;
+  onFileSelect: (file: File) => void;
+  isLoading?: boolean;
+}
+
+const SOURCE_LABELS: Record<AnalysisSnapshot['source'], string> = {
+  run: 'Analysis run',
+  upload: 'Upload',
+  workbook: 'Workbook',
+  export: 'Exported results'
+};
+
+export function SnapshotPicker({ title, history, value, snapshot, onHistorySelect, onFileSelect, isLoading = false }: SnapshotPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasHistory = history.runs.length > 0 || history.uploads.length > 0;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onFileSelect(file);
+  };
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Select value={value === 'file' ? '' : value} onValueChange={onHistorySelect} disabled={isLoading || !hasHistory}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={hasHistory ? 'Choose from workspace history' : 'No saved history in this workspace'} />
+            </SelectTrigger>
+            <SelectContent>
+              {history.runs.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Analysis runs</SelectLabel>
+                  {history.runs.map(run => (
+                    <SelectItem key={run.id} value={`run:${run.id}`}>
+                      {new Date(run.completedAt).toLocaleString()} · {run.fileName} · {run.providerDescription}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              {history.uploads.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Uploads (inputs only)</SelectLabel>
+                  {history.uploads.map(upload => (
+                    <SelectItem key={upload.id} value={`upload:${upload.id}`}>
+                      {new Date(upload.uploadedAt).toLocaleString()} · {upload.fileName}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            {isLoading ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+            Load File
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={[...SUPPORTED_SPREADSHEET_EXTENSIONS, '.json'].join(',')}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {snapshot ? (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="secondary">{SOURCE_LABELS[snapshot.source]}</Badge>
+            <span className="font-medium truncate">{snapshot.label}</span>
+            <span className="text-muted-foreground">{snapshot.companies.length} companies</span>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Pick a saved run or upload, or load a workbook or exported results file (.json)
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
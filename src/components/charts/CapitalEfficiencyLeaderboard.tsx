@@ -3,7 +3,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { calculateCapitalEfficiency, EfficiencyData } from '@/utils/chartData';
 import { formatCurrency } from '@/utils/numberFormatting';
-import { AnalyzedCompanyData } from '@/pages/Dashboard';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
 
 interface CapitalEfficiencyLeaderboardProps {
   companies: AnalyzedCompanyData[];
@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { processCredibilityScores, CredibilityScoreData } from '@/utils/chartData';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { DEFAULT_SCORING_MODEL, formatScoringModelVersion, getScoringModel } from '@/utils/scoringModel';
+
+interface CredibilityScoresChartProps {
+  companies: AnalyzedCompanyData[];
+  onCompanySelect?: (company: AnalyzedCompanyData) => void;
+}
+
+interface ScoreTooltipProps {
+  active?: boolean;
+  payload?: { payload: CredibilityScoreData }[];
+}
+
+const CustomTooltip = ({ active, payload }: ScoreTooltipProps) => {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    return (
+      <div className="hud-tooltip p-3 rounded-lg font-space-grotesk">
+        <p className="font-orbitron font-bold text-accent text-xs uppercase tracking-wider">{data.name}</p>
+        <p className="text-sm text-foreground">Market Credibility: <span className="text-accent">{data.market}/100</span></p>
+        <p className="text-sm text-foreground">Capital Efficiency: <span className="text-accent">{data.capital}/100</span></p>
+        <p className="text-sm text-foreground">Execution Credibility: <span className="text-accent">{data.execution}/100</span></p>
+        <p className="text-xs text-muted-foreground">Average: {data.average}/100</p>
+        <p className="text-xs text-muted-foreground">Scoring model: {formatScoringModelVersion(data.data.scoringModelVersion)}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export function CredibilityScoresChart({ companies, onCompanySelect }: CredibilityScoresChartProps) {
+  const scoreData = useMemo(() => processCredibilityScores(companies), [companies]);
+  // Scores computed before the active scoring model was saved or activated
+  const outdatedCount = useMemo(() => {
+    const activeVersion = getScoringModel().version;
+    return scoreData.filter(entry => (entry.data.scoringModelVersion ?? DEFAULT_SCORING_MODEL.version) !== activeVersion).length;
+  }, [scoreData]);
+
+  const handleClick = (data: { payload?: CredibilityScoreData }) => {
+    if (data?.payload && onCompanySelect) {
+      onCompanySelect(data.payload.data);
+    }
+  };
+
+  return (
+    <Card className="shadow-glow relative overflow-hidden">
+      <CardHeader>
+        <CardTitle className="text-lg font-orbitron text-accent">CREDIBILITY SCORES</CardTitle>
+        <p className="text-sm text-muted-foreground font-space-grotesk">
+          Market, capital efficiency and execution scores (0-100)
+        </p>
+        {outdatedCount > 0 && (
+          <p className="text-xs text-warning font-space-grotesk">
+            {outdatedCount} {outdatedCount === 1 ? 'company was' : 'companies were'} scored with another scoring model. Re-run the analysis to rescore.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="bg-gradient-to-br from-background/50 to-background/80">
+        {scoreData.length === 0 ? (
+          <div className="flex items-center justify-center h-48 text-muted-foreground">
+            <p className="font-space-grotesk">Run analysis to generate credibility scores</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={scoreData}>
+              <CartesianGrid strokeDasharray="1 1" stroke="hsl(var(--accent) / 0.2)" />
+              <XAxis 
+                dataKey="name" 
+                tick={{ fill: 'hsl(var(--accent))', fontSize: 12 }}
+              />
+              <YAxis 
+                domain={[0, 100]}
+                tick={{ fill: 'hsl(var(--accent))', fontSize: 12 }}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <Legend />
+              <Bar dataKey="market" name="Market" fill="hsl(var(--primary))" onClick={handleClick} cursor="pointer" />
+              <Bar dataKey="capital" name="Capital" fill="hsl(var(--success))" onClick={handleClick} cursor="pointer" />
+              <Bar dataKey="execution" name="Execution" fill="hsl(var(--warning))" onClick={handleClick} cursor="pointer" />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { categorizeByMOICBins, MOICBin } from '@/utils/chartData';
-import { AnalyzedCompanyData } from '@/pages/Dashboard';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
 
 interface MOICDistributionHistogramProps {
   companies: AnalyzedCompanyData[];
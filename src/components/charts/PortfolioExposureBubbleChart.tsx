@@ -2,7 +2,8 @@ import { useMemo } from 'react';
 import { Scatter, ScatterChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { processPortfolioExposureData, ChartDataPoint } from '@/utils/chartData';
-import { AnalyzedCompanyData } from '@/pages/Dashboard';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { calculateReturnMetrics, formatIrr } from '@/utils/returnMetrics';
 
 interface PortfolioExposureBubbleChartProps {
   companies: AnalyzedCompanyData[];
@@ -15,13 +16,24 @@ export function PortfolioExposureBubbleChart({ companies, onCompanySelect }: Por
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload as ChartDataPoint;
+      const metrics = calculateReturnMetrics(data.data);
       return (
         <div className="hud-tooltip p-3 rounded-lg font-space-grotesk">
           <p className="font-orbitron font-bold text-accent text-xs uppercase tracking-wider">{data.name}</p>
           <p className="text-sm text-foreground">Risk-Adjusted MOIC: <span className="text-accent">{data.x.toFixed(2)}x</span></p>
           <p className="text-sm text-foreground">Confidence: <span className="text-accent">{data.y}/5</span></p>
           <p className="text-sm text-foreground">Capital Exposure: <span className="text-accent">${data.size.toFixed(1)}M</span></p>
+          {metrics && (
+            <p className="text-sm text-foreground">
+              Expected IRR: <span className="text-accent">{formatIrr(metrics.expectedIrr)}</span> · Risk-Adj.: <span className="text-accent">{formatIrr(metrics.annualizedRiskAdjustedReturn)}/yr</span>
+            </p>
+          )}
           <p className="text-sm text-foreground">Recommendation: <span className="text-accent">{data.data.recommendation || 'Pending'}</span></p>
+          {data.data.marketCredibilityScore !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Scores: Market {Math.round(data.data.marketCredibilityScore)} · Capital {Math.round(data.data.capitalEfficiencyScore ?? 0)} · Execution {Math.round(data.data.executionCredibilityScore ?? 0)}
+            </p>
+          )}
         </div>
       );
     }
@@ -0,0 +1,89 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { describeDistribution, SimulationHistogramBin, SimulationResult } from '@/utils/returnSimulation';
+import { describeDilutionPlan } from '@/utils/dilution';
+
+interface ReturnSimulationHistogramProps {
+  simulation: SimulationResult;
+}
+
+function binColor(bin: SimulationHistogramBin): string {
+  if (bin.max !== null && bin.max <= 1) return 'hsl(var(--destructive))';
+  if (bin.min >= 3) return 'hsl(var(--success))';
+  return 'hsl(var(--warning))';
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export function ReturnSimulationHistogram({ simulation }: ReturnSimulationHistogramProps) {
+  const data = simulation.histogram.map(bin => ({ ...bin, percent: bin.share * 100 }));
+  const stats = [
+    { label: 'P(loss)', value: formatPercent(simulation.probabilityOfLoss) },
+    { label: 'P(>3x)', value: formatPercent(simulation.probabilityAbove3x) },
+    { label: 'Mean MOIC', value: `${simulation.moic.mean.toFixed(2)}x` },
+    { label: 'Median IRR', value: formatPercent(simulation.irr.p50) }
+  ];
+  const { inputs } = simulation;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="rounded border border-border p-2 text-center">
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+            <div className="text-sm font-semibold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={180}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="1 1" stroke="hsl(var(--accent) / 0.2)" />
+          <XAxis dataKey="label" tick={{ fill: 'hsl(var(--accent))', fontSize: 10 }} />
+          <YAxis tick={{ fill: 'hsl(var(--accent))', fontSize: 10 }} tickFormatter={(value: number) => `${value}%`} />
+          <Tooltip
+            formatter={(value: number) => [`${value.toFixed(1)}% of paths`, 'Share']}
+            labelFormatter={(label: string) => `MOIC ${label}`}
+          />
+          <Bar dataKey="percent">
+            {data.map((bin, index) => (
+              <Cell key={`cell-${index}`} fill={binColor(bin)} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <table className="w-full text-xs">
+        <tbody>
+          <tr>
+            <td className="text-muted-foreground py-0.5">MOIC percentiles</td>
+            <td className="text-right">
+              P10 {simulation.moic.p10.toFixed(2)}x · P50 {simulation.moic.p50.toFixed(2)}x · P90 {simulation.moic.p90.toFixed(2)}x
+            </td>
+          </tr>
+          <tr>
+            <td className="text-muted-foreground py-0.5">IRR percentiles</td>
+            <td className="text-right">
+              P10 {formatPercent(simulation.irr.p10)} · P50 {formatPercent(simulation.irr.p50)} · P90 {formatPercent(simulation.irr.p90)}
+            </td>
+          </tr>
+          {simulation.dilution && (
+            <tr>
+              <td className="text-muted-foreground py-0.5 align-top">Future rounds</td>
+              <td className="text-right">{describeDilutionPlan(simulation.dilution)}</td>
+            </tr>
+          )}
+          {inputs.annualDilution && (
+            <tr>
+              <td className="text-muted-foreground py-0.5">Annual dilution</td>
+              <td className="text-right">{describeDistribution(inputs.annualDilution, formatPercent)}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground">
+        {simulation.iterations.toLocaleString()} simulated paths. Scenarios above average the bottom quartile, middle half and top quartile.
+        {' '}Exit multiple: {simulation.exitMultipleBasis || 'simulation settings default (industry not in the exit multiple library)'}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Badge } from '@/components/ui/badge';
+import { ScoreBreakdown } from '@/utils/scoring';
+import { FactorScore, SCORE_CATEGORIES } from '@/utils/scoringModel';
+
+interface ScoreBreakdownChartProps {
+  breakdown: ScoreBreakdown;
+}
+
+function formatInput(factor: FactorScore): string {
+  if (factor.input === null) return 'missing';
+  if (typeof factor.input === 'string') return factor.input;
+  return Number.isInteger(factor.input) ? String(factor.input) : factor.input.toFixed(2);
+}
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
+
+/**
+ * Waterfall of the points each factor adds to its credibility score. Amber bars came from defaults
+ */
+export function ScoreBreakdownChart({ breakdown }: ScoreBreakdownChartProps) {
+  return (
+    <div className="space-y-4">
+      {SCORE_CATEGORIES.map(({ key, label }) => {
+        const category = breakdown[key];
+        // Axis covers the factor weights, which the score scales to 100
+        const axis = category.factors.reduce((total, factor) => total + factor.maxPoints, 0) || 100;
+        let running = 0;
+
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="font-medium">{label}</span>
+              <span className="font-medium">
+                {Math.round(category.score)}/100
+                {(category.rescaled || category.maxPoints !== 100) && (
+                  <span className="text-muted-foreground font-normal"> ({formatPoints(category.earnedPoints)} of {formatPoints(category.maxPoints)} counted pts{category.rescaled ? ', rescaled' : ''})</span>
+                )}
+              </span>
+            </div>
+            {category.factors.map(factor => {
+              const start = running;
+              running += factor.points;
+              return (
+                <div key={factor.factorId} className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_auto] items-center gap-2 text-xs">
+                  <div className="truncate" title={`${factor.label}: ${formatInput(factor)}`}>
+                    <span>{factor.label}</span>
+                    <span className="text-muted-foreground"> · {formatInput(factor)}</span>
+                  </div>
+                  <div className="relative h-3 rounded bg-muted/40">
+                    <div
+                      className="absolute inset-y-0 rounded bg-muted"
+                      style={{ left: `${(start / axis) * 100}%`, width: `${(factor.maxPoints / axis) * 100}%` }}
+                    />
+                    {!factor.excluded && (
+                      <div
+                        className={`absolute inset-y-0 rounded ${factor.usedDefault ? 'bg-warning' : 'bg-primary'}`}
+                        style={{ left: `${(start / axis) * 100}%`, width: `${(factor.points / axis) * 100}%` }}
+                      />
+                    )}
+                  </div>
+                  <div className="flex items-center justify-end gap-1 whitespace-nowrap">
+                    {factor.excluded ? (
+                      <Badge variant="outline" className="text-[10px] px-1 py-0">excluded</Badge>
+                    ) : (
+                      <>
+                        {factor.usedDefault && <Badge variant="warning" className="text-[10px] px-1 py-0">default</Badge>}
+                        <span>+{formatPoints(factor.points)}/{formatPoints(factor.maxPoints)}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
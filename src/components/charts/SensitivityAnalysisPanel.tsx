@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { formatCurrency } from '@/utils/numberFormatting';
+import {
+  getSensitivitySettings,
+  getSensitivitySettingsIssues,
+  runSensitivityAnalysis,
+  saveSensitivitySettings,
+  SensitivityInput,
+  SensitivitySettings,
+  TornadoBar
+} from '@/utils/sensitivity';
+
+interface SensitivityAnalysisPanelProps {
+  company: AnalyzedCompanyData;
+}
+
+interface RangeField {
+  key: keyof SensitivitySettings;
+  label: string;
+  percent?: boolean; // Stored as a fraction, edited as a percentage
+  step: number;
+}
+
+interface TornadoDatum {
+  label: string;
+  downside: number;
+  upside: number;
+  bar: TornadoBar;
+}
+
+const RANGE_FIELDS: RangeField[] = [
+  { key: 'growthSwing', label: 'Growth ± pts', step: 5 },
+  { key: 'exitMultipleSwing', label: 'Multiple ± %', percent: true, step: 5 },
+  { key: 'exitTimelineSwing', label: 'Timeline ± yrs', step: 0.5 },
+  { key: 'equityStakeSwing', label: 'Stake ± %', percent: true, step: 5 },
+  { key: 'totalInvestmentSwing', label: 'Investment ± %', percent: true, step: 5 },
+  { key: 'gridSteps', label: 'Grid size', step: 1 }
+];
+
+function formatDriver(input: SensitivityInput, value: number): string {
+  switch (input) {
+    case 'growthRate': return `${value.toFixed(0)}%`;
+    case 'exitMultiple': return `${value.toFixed(1)}x`;
+    case 'exitTimeline': return `${value.toFixed(1)}y`;
+    case 'equityStake': return `${value.toFixed(1)}%`;
+    default: return formatCurrency(value);
+  }
+}
+
+function moicClass(moic: number): string {
+  if (moic < 1) return 'bg-destructive/20';
+  if (moic < 3) return 'bg-warning/20';
+  return 'bg-success/20';
+}
+
+export function SensitivityAnalysisPanel({ company }: SensitivityAnalysisPanelProps) {
+  const [settings, setSettings] = useState<SensitivitySettings>(getSensitivitySettings);
+  const issues = getSensitivitySettingsIssues(settings);
+  const isValid = issues.length === 0;
+  const analysis = useMemo(() => isValid ? runSensitivityAnalysis(company, settings) : null, [company, settings, isValid]);
+
+  const updateField = (field: RangeField, value: string) => {
+    const parsed = parseFloat(value);
+    const next = { ...settings, [field.key]: field.percent ? parsed / 100 : parsed };
+    setSettings(next);
+    if (getSensitivitySettingsIssues(next).length === 0) saveSensitivitySettings(next);
+  };
+
+  const controls = (
+    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+      {RANGE_FIELDS.map(field => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`sensitivity-${company.id}-${field.key}`} className="text-xs text-muted-foreground">{field.label}</Label>
+          <Input
+            id={`sensitivity-${company.id}-${field.key}`}
+            type="number"
+            step={field.step}
+            className="h-7 text-xs"
+            value={Number.isFinite(settings[field.key]) ? Math.round((field.percent ? settings[field.key] * 100 : settings[field.key]) * 100) / 100 : ''}
+            onChange={(e) => updateField(field, e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!analysis) {
+    return (
+      <div className="space-y-3">
+        {controls}
+        <p className="text-xs text-muted-foreground">
+          {isValid ? 'Sensitivity needs credibility scores and a non-zero investment.' : issues.join('. ')}
+        </p>
+      </div>
+    );
+  }
+
+  const baseMoic = analysis.base.expectedMoic;
+  const tornadoData: TornadoDatum[] = analysis.tornado.map(bar => ({
+    label: bar.label,
+    downside: Math.min(bar.low.expectedMoic, bar.high.expectedMoic) - baseMoic,
+    upside: Math.max(bar.low.expectedMoic, bar.high.expectedMoic) - baseMoic,
+    bar
+  }));
+  const { grid } = analysis;
+  const baseRow = grid.growthRates.findIndex(rate => Math.abs(rate - analysis.drivers.growthRate) < 1e-9);
+  const baseColumn = grid.exitMultiples.findIndex(multiple => Math.abs(multiple - analysis.drivers.exitMultiple) < 1e-9);
+
+  const TornadoTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: TornadoDatum }[] }) => {
+    if (!active || !payload?.length) return null;
+    const { bar } = payload[0].payload;
+    return (
+      <div className="hud-tooltip p-3 rounded-lg font-space-grotesk text-xs">
+        <p className="font-bold text-accent">{bar.label}</p>
+        <p>{formatDriver(bar.input, bar.lowValue)} → {bar.low.expectedMoic.toFixed(2)}x</p>
+        <p>{formatDriver(bar.input, bar.highValue)} → {bar.high.expectedMoic.toFixed(2)}x</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {controls}
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">
+          Expected MOIC swing around {baseMoic.toFixed(2)}x (one input at a time)
+        </div>
+        <ResponsiveContainer width="100%" height={40 + tornadoData.length * 32}>
+          <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 8, right: 16 }}>
+            <CartesianGrid strokeDasharray="1 1" stroke="hsl(var(--accent) / 0.2)" />
+            <XAxis
+              type="number"
+              tick={{ fill: 'hsl(var(--accent))', fontSize: 10 }}
+              tickFormatter={(value: number) => `${(baseMoic + value).toFixed(1)}x`}
+            />
+            <YAxis type="category" dataKey="label" width={110} tick={{ fill: 'hsl(var(--accent))', fontSize: 10 }} />
+            <Tooltip content={<TornadoTooltip />} />
+            <ReferenceLine x={0} stroke="hsl(var(--foreground))" />
+            <Bar dataKey="downside" stackId="swing" fill="hsl(var(--destructive))" />
+            <Bar dataKey="upside" stackId="swing" fill="hsl(var(--success))" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Expected MOIC by revenue growth (rows) × exit multiple (columns)</div>
+        <table className="w-full text-xs border border-border rounded">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="text-left p-1.5 font-medium">Growth \ Multiple</th>
+              {grid.exitMultiples.map((multiple, column) => (
+                <th key={column} className="text-right p-1.5 font-medium">{formatDriver('exitMultiple', multiple)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.cells.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-t border-border">
+                <td className="p-1.5 font-medium">{formatDriver('growthRate', grid.growthRates[rowIndex])}</td>
+                {row.map((cell, column) => (
+                  <td
+                    key={column}
+                    className={`p-1.5 text-right ${moicClass(cell.expectedMoic)} ${rowIndex === baseRow && column === baseColumn ? 'font-bold ring-1 ring-inset ring-foreground' : ''}`}
+                    title={`Base scenario exit value ${formatCurrency(cell.baseExitValue)}`}
+                  >
+                    {cell.expectedMoic.toFixed(2)}x
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each cell reruns the simulation with {analysis.iterations.toLocaleString()} paths on the same random draws. The outlined cell is the current case.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { ArrowLeftRight, ArrowRight, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { SnapshotPicker } from '@/components/SnapshotPicker';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AnalysisSnapshot,
+  CompanyDiff,
+  CompanyDiffStatus,
+  DiffFieldFormat,
+  diffSnapshots,
+  FieldDelta,
+  FieldValue,
+  formatFieldChange,
+  formatFieldValue
+} from '@/utils/snapshotDiff';
+import { loadSnapshotFromFile, snapshotFromWorkspaceRun, snapshotFromWorkspaceUpload } from '@/utils/snapshotFiles';
+import { ensureActiveWorkspace, getWorkspaceHistory, listWorkspaces, WorkspaceHistory, WorkspaceSummary } from '@/utils/workspaces';
+
+type DiffFilter = 'all' | 'recommendationChanged' | 'confidenceDropped';
+
+interface SnapshotSelection {
+  value: string;
+  snapshot: AnalysisSnapshot | null;
+}
+
+const EMPTY_SELECTION: SnapshotSelection = { value: '', snapshot: null };
+
+const STATUS_BADGES: Record<CompanyDiffStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  changed: { label: 'Changed', variant: 'default' },
+  unchanged: { label: 'Unchanged', variant: 'outline' },
+  added: { label: 'New', variant: 'secondary' },
+  removed: { label: 'Removed', variant: 'destructive' }
+};
+
+function ValueTransition({ before, after, format }: { before: FieldValue; after: FieldValue; format: DiffFieldFormat }) {
+  const beforeText = formatFieldValue(before, format);
+  const afterText = formatFieldValue(after, format);
+  if (beforeText === afterText) return <span className="text-muted-foreground">{afterText}</span>;
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className="text-muted-foreground line-through">{beforeText}</span>
+      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+      <span className="font-medium">{afterText}</span>
+    </span>
+  );
+}
+
+function DeltaList({ title, deltas }: { title: string; deltas: FieldDelta[] }) {
+  if (deltas.length === 0) return null;
+  return (
+    <div>
+      <h4 className="font-semibold text-sm text-muted-foreground mb-2">{title}</h4>
+      <div className="space-y-1">
+        {deltas.map(delta => (
+          <div key={delta.key} className="grid grid-cols-[180px_1fr_auto] gap-3 text-sm items-start">
+            <span className="text-muted-foreground">{delta.label}</span>
+            <ValueTransition before={delta.before} after={delta.after} format={delta.format} />
+            {delta.change !== null && (
+              <Badge variant="outline" className={`text-xs ${delta.change > 0 ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}`}>
+                {formatFieldChange(delta)}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function Compare() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [history, setHistory] = useState<WorkspaceHistory>({ uploads: [], runs: [] });
+  const [previous, setPrevious] = useState<SnapshotSelection>(EMPTY_SELECTION);
+  const [current, setCurrent] = useState<SnapshotSelection>(EMPTY_SELECTION);
+  const [loadingSide, setLoadingSide] = useState<'previous' | 'current' | null>(null);
+  const [filter, setFilter] = useState<DiffFilter>('all');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    ensureActiveWorkspace()
+      .then(async workspace => {
+        setWorkspaces(await listWorkspaces());
+        setWorkspaceId(workspace.id);
+      })
+      .catch(error => console.error('Failed to load workspaces:', error));
+  }, []);
+
+  // Defaults to "since last time": the two most recent runs, or uploads when fewer than two runs exist
+  useEffect(() => {
+    if (!workspaceId) return;
+    getWorkspaceHistory(workspaceId)
+      .then(loaded => {
+        setHistory(loaded);
+        const [latestRun, previousRun] = loaded.runs;
+        const [latestUpload, previousUpload] = loaded.uploads;
+        if (latestRun && previousRun) {
+          setPrevious({ value: `run:${previousRun.id}`, snapshot: snapshotFromWorkspaceRun(previousRun) });
+          setCurrent({ value: `run:${latestRun.id}`, snapshot: snapshotFromWorkspaceRun(latestRun) });
+        } else if (latestUpload && previousUpload) {
+          setPrevious({ value: `upload:${previousUpload.id}`, snapshot: snapshotFromWorkspaceUpload(previousUpload) });
+          setCurrent({ value: `upload:${latestUpload.id}`, snapshot: snapshotFromWorkspaceUpload(latestUpload) });
+        } else {
+          setPrevious(EMPTY_SELECTION);
+          setCurrent(EMPTY_SELECTION);
+        }
+      })
+      .catch(error => console.error('Failed to load workspace history:', error));
+  }, [workspaceId]);
+
+  const resolveHistorySelection = (value: string): SnapshotSelection => {
+    const [kind, id] = value.split(/:(.+)/);
+    const run = kind === 'run' ? history.runs.find(saved => saved.id === id) : undefined;
+    const upload = kind === 'upload' ? history.uploads.find(saved => saved.id === id) : undefined;
+    return {
+      value,
+      snapshot: run ? snapshotFromWorkspaceRun(run) : upload ? snapshotFromWorkspaceUpload(upload) : null
+    };
+  };
+
+  const handleFileSelect = async (side: 'previous' | 'current', file: File) => {
+    setLoadingSide(side);
+    try {
+      const snapshot = await loadSnapshotFromFile(file);
+      (side === 'previous' ? setPrevious : setCurrent)({ value: 'file', snapshot });
+    } catch (error) {
+      toast({
+        title: "Could Not Load Snapshot",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingSide(null);
+    }
+  };
+
+  const handleSwap = () => {
+    setPrevious(current);
+    setCurrent(previous);
+  };
+
+  const diff = useMemo(() => previous.snapshot && current.snapshot
+    ? diffSnapshots(previous.snapshot, current.snapshot)
+    : null, [previous.snapshot, current.snapshot]);
+
+  const visibleDiffs = useMemo(() => (diff?.companies || []).filter((companyDiff: CompanyDiff) => {
+    if (filter === 'recommendationChanged') return companyDiff.recommendationChanged;
+    if (filter === 'confidenceDropped') return companyDiff.confidenceDropped;
+    return showUnchanged || companyDiff.status !== 'unchanged';
+  }), [diff, filter, showUnchanged]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-orbitron font-bold text-accent tracking-wider">QUARTER-OVER-QUARTER</h2>
+            <p className="text-sm text-muted-foreground font-space-grotesk">
+              What changed between two snapshots of the portfolio, company by company
+            </p>
+          </div>
+          {workspaces.length > 1 && (
+            <Select value={workspaceId ?? ''} onValueChange={setWorkspaceId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map(({ workspace }) => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto_1fr] gap-4 items-center">
+          <SnapshotPicker
+            title="Previous snapshot"
+            history={history}
+            value={previous.value}
+            snapshot={previous.snapshot}
+            onHistorySelect={(value) => setPrevious(resolveHistorySelection(value))}
+            onFileSelect={(file) => handleFileSelect('previous', file)}
+            isLoading={loadingSide === 'previous'}
+          />
+          <Button variant="ghost" size="sm" onClick={handleSwap} title="Swap snapshots">
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          <SnapshotPicker
+            title="Current snapshot"
+            history={history}
+            value={current.value}
+            snapshot={current.snapshot}
+            onHistorySelect={(value) => setCurrent(resolveHistorySelection(value))}
+            onFileSelect={(file) => handleFileSelect('current', file)}
+            isLoading={loadingSide === 'current'}
+          />
+        </div>
+
+        {diff && diff.collisions.length > 0 && (
+          <Alert>
+            <AlertDescription>{diff.collisions.join('. ')}</AlertDescription>
+          </Alert>
+        )}
+
+        {diff ? (
+          <Card className="shadow-medium">
+            <CardHeader className="bg-gradient-subtle">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle className="text-xl font-semibold flex items-center gap-2">
+                  <GitCompare className="h-5 w-5 text-accent" />
+                  Changes
+                </CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant={filter === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('all')}>
+                    All ({diff.summary.changed + diff.summary.added + diff.summary.removed})
+                  </Button>
+                  <Button variant={filter === 'recommendationChanged' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('recommendationChanged')}>
+                    Recommendation changed ({diff.summary.recommendationChanged})
+                  </Button>
+                  <Button variant={filter === 'confidenceDropped' ? 'default' : 'outline'} size="sm" onClick={() => setFilter('confidenceDropped')}>
+                    Confidence dropped ({diff.summary.confidenceDropped})
+                  </Button>
+                  {filter === 'all' && (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer ml-2">
+                      <Checkbox checked={showUnchanged} onCheckedChange={(checked) => setShowUnchanged(checked === true)} />
+                      Show unchanged ({diff.summary.unchanged})
+                    </label>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {visibleDiffs.length === 0 ? (
+                <p className="p-6 text-sm text-muted-foreground">No companies match this filter</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader className="bg-muted/50">
+                      <TableRow>
+                        <TableHead className="w-8"></TableHead>
+                        <TableHead className="min-w-[200px]">Company</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Recommendation</TableHead>
+                        <TableHead>Timing</TableHead>
+                        <TableHead>Confidence</TableHead>
+                        <TableHead>MOIC</TableHead>
+                        <TableHead>Revenue Trajectory</TableHead>
+                        <TableHead>Fields Changed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleDiffs.map(companyDiff => {
+                        const { before, after } = companyDiff;
+                        const isExpanded = expandedKey === companyDiff.key;
+                        const status = STATUS_BADGES[companyDiff.status];
+                        return (
+                          <Fragment key={companyDiff.key}>
+                            <TableRow
+                              className="hover:bg-muted/30 transition-colors cursor-pointer"
+                              onClick={() => setExpandedKey(isExpanded ? null : companyDiff.key)}
+                            >
+                              <TableCell>
+                                {isExpanded
+                                  ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                                  : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                              </TableCell>
+                              <TableCell className="font-medium">{companyDiff.companyName}</TableCell>
+                              <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                              <TableCell className="text-sm">
+                                <ValueTransition
+                                  before={before?.recommendationType ?? before?.recommendation ?? null}
+                                  after={after?.recommendationType ?? after?.recommendation ?? null}
+                                  format="text"
+                                />
+                                {companyDiff.recommendationChanged && (
+                                  <Badge variant="secondary" className="text-xs ml-2">Changed</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                <ValueTransition before={before?.timingBucket ?? null} after={after?.timingBucket ?? null} format="text" />
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                <ValueTransition before={before?.confidence ?? null} after={after?.confidence ?? null} format="score" />
+                                {companyDiff.confidenceDropped && (
+                                  <Badge variant="destructive" className="text-xs ml-2">Dropped</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                <ValueTransition before={before?.moic ?? null} after={after?.moic ?? null} format="multiple" />
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                <ValueTransition before={before?.revenueTrajectoryScore ?? null} after={after?.revenueTrajectoryScore ?? null} format="score" />
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {companyDiff.status === 'changed' ? companyDiff.deltas.length : '-'}
+                              </TableCell>
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow>
+                                <TableCell colSpan={9} className="bg-muted/20 p-6">
+                                  {companyDiff.status === 'added' || companyDiff.status === 'removed' ? (
+                                    <p className="text-sm text-muted-foreground">
+                                      {companyDiff.status === 'added'
+                                        ? 'Not in the previous snapshot'
+                                        : 'No longer in the current snapshot'}
+                                    </p>
+                                  ) : companyDiff.deltas.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No field changed between the two snapshots</p>
+                                  ) : (
+                                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                                      <DeltaList title="Inputs" deltas={companyDiff.deltas.filter(delta => delta.group === 'input')} />
+                                      <DeltaList title="Analysis Outputs" deltas={companyDiff.deltas.filter(delta => delta.group === 'output')} />
+                                    </div>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-soft">
+            <CardContent className="p-6 text-sm text-muted-foreground">
+              Choose a previous and a current snapshot to see what changed
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,55 +1,234 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { FileUpload } from '@/components/FileUpload';
+import { ColumnMappingReview } from '@/components/ColumnMappingReview';
+import { ImportReportPanel } from '@/components/ImportReportPanel';
+import { SheetSelection } from '@/components/SheetSelection';
+import { FundBreakdown } from '@/components/FundBreakdown';
 import { AnalysisTable } from '@/components/AnalysisTable';
 import { CombinedApiKeyInput } from '@/components/CombinedApiKeyInput';
 import { ApiKeyStatus } from '@/components/ApiKeyStatus';
+import { AnalysisProgressPanel } from '@/components/AnalysisProgressPanel';
+import { ResumeRunBanner } from '@/components/ResumeRunBanner';
+import { PortfolioReportMenu } from '@/components/PortfolioReportMenu';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Building2, DollarSign, TrendingUp, AlertTriangle } from 'lucide-react';
-import { analyzePortfolio } from '@/utils/openaiAnalysis';
-import { parseExcelFile, RawCompanyData } from '@/utils/excelParser';
+import { Building2, DollarSign, TrendingUp, AlertTriangle, FolderOpen, Upload } from 'lucide-react';
+import { analyzePortfolio, ANALYSIS_PROMPT_VERSION, AnalysisResult, AnalyzedCompanyData, CompanyData } from '@/utils/openaiAnalysis';
+import { AnalysisQueue, QueueStatus } from '@/utils/analysisQueue';
+import { loadWorkbookPreview, buildCompaniesFromPreview, ColumnMappingDecision, WorkbookPreview } from '@/utils/excelParser';
+import { describeDelimiter } from '@/utils/spreadsheetReader';
+import { exportPortfolioToExcel } from '@/utils/excelExport';
+import { calculatePortfolioMetrics } from '@/utils/chartData';
+import { calculatePortfolioIrr, formatIrr } from '@/utils/returnMetrics';
+import { ImportReport, mergeImportReports, summarizeImportReport } from '@/utils/importReport';
 import { getPerplexityApiKey, setPerplexityApiKey } from '@/utils/externalResearch';
+import { describeProvider, getActiveProviderConfig, getProviderConfigurationIssues, LLM_PROVIDERS, LLMProviderConfig, LLMSettings, saveLLMSettings } from '@/utils/llmProviders';
+import {
+  AnalysisRun,
+  completeAnalysisRun,
+  createAnalysisRun,
+  discardInterruptedRuns,
+  getCompaniesToResume,
+  getInterruptedRun,
+  recordCompanyResult
+} from '@/utils/analysisRuns';
+import { analyzePortfolioWithRules, AnalysisMode, getAnalysisMode, saveAnalysisMode } from '@/utils/rulesAnalysis';
+import {
+  ensureActiveWorkspace,
+  getWorkspaceRun,
+  getWorkspaceUpload,
+  saveWorkspaceRun,
+  saveWorkspaceUpload,
+  Workspace,
+  WorkspaceRunStatus
+} from '@/utils/workspaces';
 import { PortfolioExposureBubbleChart } from '@/components/charts/PortfolioExposureBubbleChart';
 import { MOICDistributionHistogram } from '@/components/charts/MOICDistributionHistogram';
 import { CapitalEfficiencyLeaderboard } from '@/components/charts/CapitalEfficiencyLeaderboard';
+import { CredibilityScoresChart } from '@/components/charts/CredibilityScoresChart';
 import { enhanceCompanyWithAnalytics, computeRevenueAnalytics } from '@/utils/revenueAnalytics';
 
-// Extended interface for analyzed companies
-export interface AnalyzedCompanyData extends RawCompanyData {
-  recommendation?: string;
-  timingBucket?: string;
-  reasoning?: string;
-  confidence?: number;
-  keyRisks?: string;
-  suggestedAction?: string;
-  projectedExitValueRange?: string;
-  riskAdjustedMonetizationSummary?: string;
-  externalSources?: string;
-  insufficientData?: boolean;
-  // Fail-safe metadata
-  dataQualityWarnings?: string[];
-  canCalculateExitModeling?: boolean;
-  dataCompletenessScore?: number;
+interface PendingImport {
+  file: File;
+  workbook: WorkbookPreview;
+  selectedSheets: string[] | null; // Null while the analyst is still choosing sheets
+  reviewIndex: number; // Sheet currently shown on the mapping review screen
+  confirmedMappings: Record<string, ColumnMappingDecision[]>;
+}
+
+// Analysis inputs only: strips earlier results and upload-time metadata from the dashboard state
+function toCompanyData(company: AnalyzedCompanyData): CompanyData {
+  return {
+    id: company.id,
+    companyName: company.companyName,
+    totalInvestment: company.totalInvestment,
+    equityStake: company.equityStake,
+    moic: company.moic,
+    revenueGrowth: company.revenueGrowth,
+    projectedRevenueGrowth: company.projectedRevenueGrowth,
+    burnMultiple: company.burnMultiple,
+    runway: company.runway,
+    tam: company.tam,
+    exitActivity: company.exitActivity,
+    barrierToEntry: company.barrierToEntry,
+    additionalInvestmentRequested: company.additionalInvestmentRequested,
+    industry: company.industry || 'N/A',
+    investorInterest: company.investorInterest,
+    preMoneyValuation: company.preMoneyValuation,
+    postMoneyValuation: company.postMoneyValuation,
+    roundComplexity: company.roundComplexity,
+    exitTimeline: company.exitTimeline || 3,
+    revenue: company.revenue,
+    arr: company.arr,
+    caEquityValuation: company.caEquityValuation,
+    isExistingInvestment: company.isExistingInvestment,
+    seriesStage: company.seriesStage,
+    totalRaiseRequest: company.totalRaiseRequest || null,
+    amountRequestedFromFirm: company.amountRequestedFromFirm || null,
+    // Revenue Timeline Fields (defaulting to null if not available)
+    revenueYearMinus2: company.revenueYearMinus2 ?? null,
+    revenueYearMinus1: company.revenueYearMinus1 ?? null,
+    currentRevenue: company.currentRevenue ?? null,
+    projectedRevenueYear1: company.projectedRevenueYear1 ?? null,
+    projectedRevenueYear2: company.projectedRevenueYear2 ?? null,
+    currentARR: company.currentARR ?? null,
+    // Calculated Analytics (will be computed by analytics module)
+    yoyGrowthPercent: company.yoyGrowthPercent || null,
+    historicalCAGR2Y: company.historicalCAGR2Y || null,
+    forwardCAGR2Y: company.forwardCAGR2Y || null,
+    forwardRevenueMultiple: company.forwardRevenueMultiple || null,
+    revenueTrajectoryScore: company.revenueTrajectoryScore || null
+  };
 }
 
 export function Dashboard() {
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
   const [companies, setCompanies] = useState<AnalyzedCompanyData[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showApiInput, setShowApiInput] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [analysisStatus, setAnalysisStatus] = useState<string>('');
   const [isParsingFile, setIsParsingFile] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [selectedFund, setSelectedFund] = useState<string | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>(() => getAnalysisMode());
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const analysisQueueRef = useRef<AnalysisQueue<AnalysisResult> | null>(null);
+  const [interruptedRun, setInterruptedRun] = useState<AnalysisRun | null>(null);
   const [filteredCompanies, setFilteredCompanies] = useState<AnalyzedCompanyData[]>([]);
+  const [activeWorkspace, setActiveWorkspace] = useState<Workspace | null>(null);
+  const [currentUploadId, setCurrentUploadId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // A run left unfinished by a reload is offered for resumption
+  useEffect(() => {
+    getInterruptedRun().then(run => {
+      if (run) setInterruptedRun(run);
+    });
+    ensureActiveWorkspace()
+      .then(setActiveWorkspace)
+      .catch(error => console.error('Failed to open workspace:', error));
+  }, []);
+
+  // Datasets and runs reopened from the workspace history arrive as ?upload=<id> or ?run=<id>
+  useEffect(() => {
+    const runId = searchParams.get('run');
+    const uploadId = searchParams.get('upload');
+    if (!runId && !uploadId) return;
+    setSearchParams({}, { replace: true });
+
+    (async () => {
+      try {
+        const run = runId ? await getWorkspaceRun(runId) : undefined;
+        const upload = run
+          ? (run.uploadId ? await getWorkspaceUpload(run.uploadId) : undefined)
+          : await getWorkspaceUpload(uploadId);
+        if (!run && !upload) throw new Error('It is no longer in the workspace history');
+
+        setCompanies(run ? run.companies : upload.companies);
+        setUploadedFileName(run ? run.fileName : upload.fileName);
+        setImportReport(upload?.importReport ?? null);
+        setCurrentUploadId(upload?.id ?? null);
+        setSelectedFund(null);
+        setFilteredCompanies([]);
+        setPendingImport(null);
+        toast({
+          title: run ? "Analysis Run Opened" : "Upload Opened",
+          description: run
+            ? `${run.fileName} as analyzed ${new Date(run.completedAt).toLocaleString()} with ${run.providerDescription}`
+            : `${upload.fileName} as uploaded ${new Date(upload.uploadedAt).toLocaleString()}`,
+        });
+      } catch (error) {
+        toast({
+          title: "Could Not Open From History",
+          description: error instanceof Error ? error.message : "Failed to load workspace history",
+          variant: "destructive",
+        });
+      }
+    })();
+  }, [searchParams, setSearchParams, toast]);
+
   const handleFileUpload = useCallback(async (file: File) => {
     setIsParsingFile(true);
     try {
-      console.log('Parsing Excel file:', file.name);
-      const data = await parseExcelFile(file);
+      console.log('Parsing spreadsheet file:', file.name);
+      const workbook = await loadWorkbookPreview(file);
+      const readableSheets = workbook.sheets.filter(sheet => sheet.preview);
+      if (readableSheets.length === 0) {
+        throw new Error(workbook.sheets[0]?.reason || 'No readable sheets found in workbook');
+      }
+      
+      // Only ask which sheets to import when the workbook holds several company tables
+      const companySheets = readableSheets.filter(sheet => sheet.containsCompanyTable);
+      const defaultSheet = readableSheets.find(sheet => sheet.sheetName === workbook.defaultSheetName);
+      const selectedSheets = companySheets.length > 1
+        ? null
+        : [(companySheets[0] || defaultSheet || readableSheets[0]).sheetName];
+      
+      setPendingImport({ file, workbook, selectedSheets, reviewIndex: 0, confirmedMappings: {} });
+    } catch (error) {
+      console.error('File parsing failed:', error);
+      toast({
+        title: "File Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to parse spreadsheet file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsingFile(false);
+    }
+  }, [toast]);
+
+  const handleSheetsConfirm = (sheetNames: string[]) => {
+    setPendingImport(prev => prev && { ...prev, selectedSheets: sheetNames, reviewIndex: 0, confirmedMappings: {} });
+  };
+
+  const importSheets = useCallback((file: File, workbook: WorkbookPreview, mappingsBySheet: Record<string, ColumnMappingDecision[]>) => {
+    setIsParsingFile(true);
+    try {
+      const sheetNames = Object.keys(mappingsBySheet);
+      const results = sheetNames.map(sheetName => {
+        const preview = workbook.sheets.find(sheet => sheet.sheetName === sheetName)?.preview;
+        if (!preview) throw new Error(`Sheet "${sheetName}" could not be read`);
+        try {
+          return buildCompaniesFromPreview(preview, mappingsBySheet[sheetName]);
+        } catch (error) {
+          throw new Error(`Sheet "${sheetName}": ${error instanceof Error ? error.message : 'import failed'}`);
+        }
+      });
+      const data = results.flatMap(result => result.companies);
+      const report = mergeImportReports(results.map(result => result.report));
+      const sourceDescription = workbook.delimiter
+        ? `${workbook.format.toUpperCase()} (${describeDelimiter(workbook.delimiter)}-delimited, ${workbook.encoding})`
+        : sheetNames.length > 1
+          ? `${sheetNames.length} sheets`
+          : `${workbook.format.toUpperCase()} file`;
       
       // Enhance with revenue analytics including fail-safe logic
       const enhancedCompanies = data.map(company => {
@@ -66,26 +245,43 @@ export function Dashboard() {
       });
       
       setCompanies(enhancedCompanies);
-      setUploadedFile(file);
+      setUploadedFileName(file.name);
+      setImportReport(report);
+      setSelectedFund(null);
+      setFilteredCompanies([]);
+      setPendingImport(null);
+      setCurrentUploadId(null);
+
+      // Keep the dataset in the active workspace so it can be reopened next quarter
+      ensureActiveWorkspace()
+        .then(workspace => {
+          setActiveWorkspace(workspace);
+          return saveWorkspaceUpload(workspace.id, file.name, file, report, enhancedCompanies);
+        })
+        .then(upload => setCurrentUploadId(upload?.id ?? null))
+        .catch(error => console.error('Failed to save upload to workspace:', error));
       
       // Count data quality warnings for user feedback
       const warningCount = enhancedCompanies.reduce((count, company) => 
         count + (company.dataQualityWarnings?.length || 0), 0);
+      const { errors: importErrorCount } = summarizeImportReport(report);
       
       toast({
         title: "File Uploaded Successfully",
-        description: warningCount > 0 
-          ? `Loaded ${enhancedCompanies.length} companies with ${warningCount} data quality warnings`
-          : `Loaded ${enhancedCompanies.length} companies from your Excel file`,
+        description: importErrorCount > 0
+          ? `Loaded ${enhancedCompanies.length} companies with ${importErrorCount} import errors - see the import report`
+          : warningCount > 0 
+            ? `Loaded ${enhancedCompanies.length} companies with ${warningCount} data quality warnings`
+            : `Loaded ${enhancedCompanies.length} companies from ${sourceDescription}`,
       });
       
       console.log('Enhanced companies with analytics:', enhancedCompanies);
       
     } catch (error) {
-      console.error('File parsing failed:', error);
+      console.error('File import failed:', error);
       toast({
-        title: "File Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to parse Excel file",
+        title: "File Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import spreadsheet data",
         variant: "destructive",
       });
     } finally {
@@ -93,34 +289,80 @@ export function Dashboard() {
     }
   }, [toast]);
 
+  // Each selected sheet is reviewed in turn; the import runs once the last mapping is confirmed
+  const handleMappingConfirm = useCallback((columnMappings: ColumnMappingDecision[]) => {
+    if (!pendingImport?.selectedSheets) return;
+    const { file, workbook, selectedSheets, reviewIndex } = pendingImport;
+    const confirmedMappings = { ...pendingImport.confirmedMappings, [selectedSheets[reviewIndex]]: columnMappings };
+
+    if (reviewIndex < selectedSheets.length - 1) {
+      setPendingImport({ ...pendingImport, reviewIndex: reviewIndex + 1, confirmedMappings });
+      return;
+    }
+    importSheets(file, workbook, confirmedMappings);
+  }, [pendingImport, importSheets]);
+
   const handleAnalyze = () => {
     if (companies.length === 0) {
       toast({
         title: "No Data Available",
-        description: "Please upload an Excel file with company data first",
+        description: "Please upload a spreadsheet with company data first",
         variant: "destructive",
       });
       return;
     }
 
-    // Check for OpenAI API key
-    const storedApiKey = localStorage.getItem('openai_api_key');
-    if (!storedApiKey) {
+    // Rules-only mode runs entirely in the browser, no provider needed
+    if (analysisMode === 'rules') {
+      runAnalysis(null);
+      return;
+    }
+
+    // If the provider is ready, proceed with analysis
+    const providerConfig = getReadyProviderConfig();
+    if (providerConfig) runAnalysis(providerConfig);
+  };
+
+  // Active provider config, or null after prompting the user to finish configuring it
+  const getReadyProviderConfig = (): LLMProviderConfig | null => {
+    const providerConfig = getActiveProviderConfig();
+    const configurationIssues = getProviderConfigurationIssues(providerConfig);
+    if (configurationIssues.length > 0) {
       toast({
-        title: "API Key Required",
-        description: "Please configure your OpenAI API key first",
+        title: "Provider Not Configured",
+        description: `Please configure ${LLM_PROVIDERS[providerConfig.provider].label} first: ${configurationIssues.join(', ')}`,
         variant: "destructive",
       });
       setShowApiInput(true);
-      return;
+      return null;
     }
+    return providerConfig;
+  };
 
-    // If OpenAI key exists, proceed with analysis
-    runAnalysis(storedApiKey);
+  const handleResumeRun = () => {
+    if (!interruptedRun) return;
+    const providerConfig = getReadyProviderConfig();
+    if (!providerConfig) return;
+
+    const run = interruptedRun;
+    setInterruptedRun(null);
+    setCompanies(run.companies);
+    setUploadedFileName(run.fileName);
+    setImportReport(run.importReport);
+    setCurrentUploadId(run.workspaceUploadId ?? null);
+    setSelectedFund(null);
+    setFilteredCompanies([]);
+    setPendingImport(null);
+    runAnalysis(providerConfig, run.companies, run);
+  };
+
+  const handleDiscardRun = () => {
+    setInterruptedRun(null);
+    discardInterruptedRuns();
   };
 
-  const handleApiKeysSubmit = async (openaiKey: string, perplexityKey?: string) => {
-    localStorage.setItem('openai_api_key', openaiKey);
+  const handleApiKeysSubmit = async (llmSettings: LLMSettings, perplexityKey?: string) => {
+    saveLLMSettings(llmSettings);
     
     if (perplexityKey) {
       setPerplexityApiKey(perplexityKey);
@@ -133,77 +375,128 @@ export function Dashboard() {
     
     setShowApiInput(false);
     
+    const providerLabel = LLM_PROVIDERS[llmSettings.activeProvider].label;
     toast({
       title: "API Keys Configured",
       description: perplexityKey 
-        ? "OpenAI and Perplexity API keys have been saved successfully"
-        : "OpenAI API key has been saved successfully",
+        ? `${providerLabel} and Perplexity settings have been saved successfully`
+        : `${providerLabel} settings have been saved successfully`,
     });
   };
 
-  const runAnalysis = async (apiKey: string) => {
+  // Back to the upload screen; the current dataset stays in the workspace history
+  const handleNewUpload = () => {
+    setCompanies([]);
+    setUploadedFileName(null);
+    setImportReport(null);
+    setCurrentUploadId(null);
+    setSelectedFund(null);
+    setFilteredCompanies([]);
+  };
+
+  // Finished runs are filed in the active workspace with the model and prompt version that produced them
+  const saveRunToWorkspace = async (
+    fileName: string,
+    runCompanies: AnalyzedCompanyData[],
+    providerConfig: LLMProviderConfig | null,
+    uploadId: string | null,
+    startedAt: string,
+    status: WorkspaceRunStatus
+  ) => {
+    try {
+      const workspace = await ensureActiveWorkspace();
+      setActiveWorkspace(workspace);
+      await saveWorkspaceRun({
+        workspaceId: workspace.id,
+        uploadId,
+        fileName,
+        mode: providerConfig ? 'llm' : 'rules',
+        providerDescription: providerConfig ? describeProvider(providerConfig) : 'Rules engine',
+        model: providerConfig?.model ?? null,
+        promptVersion: providerConfig ? ANALYSIS_PROMPT_VERSION : null,
+        status,
+        companies: runCompanies,
+        startedAt,
+        completedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Failed to save run to workspace:', error);
+    }
+  };
+
+  const handleAnalysisModeChange = (mode: AnalysisMode) => {
+    saveAnalysisMode(mode);
+    setAnalysisMode(mode);
+  };
+
+  // A null provider runs the offline rules-only engine; LLM runs are persisted so a reload can resume them
+  const runAnalysis = async (
+    providerConfig: LLMProviderConfig | null,
+    sourceCompanies: AnalyzedCompanyData[] = companies,
+    resumeRun: AnalysisRun | null = null
+  ) => {
     setIsAnalyzing(true);
     setAnalysisProgress(0);
-    setAnalysisStatus('Preparing analysis...');
+    setAnalysisStatus(resumeRun ? 'Resuming analysis...' : 'Preparing analysis...');
     
+    const startedAt = new Date().toISOString();
+    const fileName = resumeRun ? resumeRun.fileName : uploadedFileName || 'Portfolio';
+    const uploadId = resumeRun ? resumeRun.workspaceUploadId ?? null : currentUploadId;
+    let run: AnalysisRun | null = null;
     try {
-      const rawCompanies = companies.map(company => ({
-        id: company.id,
-        companyName: company.companyName,
-        totalInvestment: company.totalInvestment,
-        equityStake: company.equityStake,
-        moic: company.moic,
-        revenueGrowth: company.revenueGrowth,
-        projectedRevenueGrowth: company.projectedRevenueGrowth,
-        burnMultiple: company.burnMultiple,
-        runway: company.runway,
-        tam: company.tam,
-        exitActivity: company.exitActivity,
-        barrierToEntry: company.barrierToEntry,
-        additionalInvestmentRequested: company.additionalInvestmentRequested,
-        industry: company.industry || 'N/A',
-        investorInterest: company.investorInterest,
-        preMoneyValuation: company.preMoneyValuation,
-        postMoneyValuation: company.postMoneyValuation,
-        roundComplexity: company.roundComplexity,
-        exitTimeline: company.exitTimeline || 3,
-        revenue: company.revenue,
-        arr: company.arr,
-        caEquityValuation: company.caEquityValuation,
-        isExistingInvestment: company.isExistingInvestment,
-        seriesStage: company.seriesStage,
-        totalRaiseRequest: company.totalRaiseRequest || null,
-        amountRequestedFromFirm: company.amountRequestedFromFirm || null,
-        // Revenue Timeline Fields (defaulting to null if not available)
-        revenueYearMinus2: company.revenueYearMinus2 ?? null,
-        revenueYearMinus1: company.revenueYearMinus1 ?? null,
-        currentRevenue: company.currentRevenue ?? null,
-        projectedRevenueYear1: company.projectedRevenueYear1 ?? null,
-        projectedRevenueYear2: company.projectedRevenueYear2 ?? null,
-        currentARR: company.currentARR ?? null,
-        // Calculated Analytics (will be computed by analytics module)
-        yoyGrowthPercent: company.yoyGrowthPercent || null,
-        historicalCAGR2Y: company.historicalCAGR2Y || null,
-        forwardCAGR2Y: company.forwardCAGR2Y || null,
-        forwardRevenueMultiple: company.forwardRevenueMultiple || null,
-        revenueTrajectoryScore: company.revenueTrajectoryScore || null
-      }));
+      const targetCompanies = resumeRun ? getCompaniesToResume(resumeRun) : sourceCompanies;
+      if (providerConfig) {
+        run = resumeRun ?? await createAnalysisRun(fileName, describeProvider(providerConfig), sourceCompanies, importReport, uploadId);
+      }
+
+      const rawCompanies = targetCompanies.map(toCompanyData);
       
-      const analyzedCompanies = await analyzePortfolio(
-        rawCompanies, 
-        apiKey,
-        (progress, status) => {
-          setAnalysisProgress(progress);
-          if (status) setAnalysisStatus(status);
-        }
-      );
+      const onProgress = (progress: number, status?: string) => {
+        setAnalysisProgress(progress);
+        if (status) setAnalysisStatus(status);
+      };
+      const analyzedCompanies = providerConfig
+        ? await analyzePortfolio(rawCompanies, providerConfig, onProgress, {
+            forceRefresh,
+            onQueueCreated: (queue) => { analysisQueueRef.current = queue; },
+            onStatusChange: setQueueStatus,
+            // Show each company as soon as it finishes instead of waiting for the whole run
+            onCompanyAnalyzed: (analyzed, _index, status) => {
+              setCompanies(prev => prev.map(company =>
+                company.id === analyzed.id ? { ...company, ...analyzed } : company
+              ));
+              if (run) recordCompanyResult(run, analyzed, status === 'fulfilled' ? 'completed' : 'failed');
+            }
+          })
+        : analyzePortfolioWithRules(rawCompanies, onProgress);
       
-      setCompanies(analyzedCompanies as AnalyzedCompanyData[]);
+      // Merge results back so upload-time metadata (data quality warnings) survives the run
+      const analyzedById = new Map(analyzedCompanies.map(analyzed => [analyzed.id, analyzed]));
+      const finalCompanies = sourceCompanies.map(company => analyzedById.has(company.id)
+        ? { ...company, ...analyzedById.get(company.id) }
+        : company);
+      setCompanies(finalCompanies);
+      if (run) completeAnalysisRun(run);
+
+      const finalStatus = analysisQueueRef.current?.getStatus();
+      saveRunToWorkspace(fileName, finalCompanies, providerConfig, uploadId, startedAt, finalStatus?.state === 'cancelled' ? 'cancelled' : 'completed');
+      if (finalStatus?.state === 'cancelled') {
+        toast({
+          title: "Analysis Cancelled",
+          description: `${finalStatus.completed} of ${finalStatus.total} companies analyzed before cancelling`,
+        });
+        return;
+      }
+
+      const cacheHits = analyzedCompanies.filter(company => company.cacheHit).length;
+      const cacheNote = cacheHits > 0 ? `, ${cacheHits} served from cache` : '';
       toast({
         title: "Analysis Complete",
-        description: getPerplexityApiKey() 
-          ? `Successfully analyzed ${analyzedCompanies.length} companies with external research`
-          : `Successfully analyzed ${analyzedCompanies.length} companies (internal data only)`,
+        description: !providerConfig
+          ? `Scored ${analyzedCompanies.length} companies with rules-only analysis (no network calls)`
+          : getPerplexityApiKey() 
+          ? `Successfully analyzed ${analyzedCompanies.length} companies with external research${cacheNote}`
+          : `Successfully analyzed ${analyzedCompanies.length} companies (internal data only${cacheNote})`,
       });
     } catch (error) {
       console.error('Analysis failed:', error);
@@ -213,27 +506,46 @@ export function Dashboard() {
         variant: "destructive",
       });
     } finally {
+      analysisQueueRef.current = null;
+      setQueueStatus(null);
       setIsAnalyzing(false);
       setAnalysisProgress(0);
       setAnalysisStatus('');
     }
   };
 
+  // Funds come from the sheets the companies were imported from
+  const funds = useMemo(() => [...new Set(companies.map(company => company.sourceSheet).filter(Boolean))] as string[], [companies]);
+  const visibleCompanies = useMemo(() => selectedFund
+    ? companies.filter(company => company.sourceSheet === selectedFund)
+    : companies, [companies, selectedFund]);
+
+  // Preview of the sheet currently on the mapping review screen
+  const reviewSheetName = pendingImport?.selectedSheets?.[pendingImport.reviewIndex];
+  const reviewPreview = pendingImport?.workbook.sheets.find(sheet => sheet.sheetName === reviewSheetName)?.preview || null;
+
+  const handleFundSelect = (fund: string | null) => {
+    setSelectedFund(fund);
+    setFilteredCompanies([]);
+  };
+
+  // Exports the companies in the current fund view, analyzed or not, with their results
+  const handleExport = () => {
+    try {
+      exportPortfolioToExcel(visibleCompanies, uploadedFileName || 'portfolio');
+    } catch (error) {
+      console.error('Excel export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Could not write the Excel workbook',
+        variant: "destructive",
+      });
+    }
+  };
+
   // Calculate metrics safely with memoization
-  const portfolioMetrics = useMemo(() => {
-    const totalPortfolioValue = companies.reduce((sum, company) => sum + (company.totalInvestment || 0), 0);
-    const totalRequested = companies.reduce((sum, company) => sum + (company.additionalInvestmentRequested || 0), 0);
-    const validMOICs = companies.filter(company => company.moic !== null && company.moic !== undefined);
-    const avgMOIC = validMOICs.length > 0 ? validMOICs.reduce((sum, company) => sum + company.moic!, 0) / validMOICs.length : 0;
-    const highRiskCount = companies.filter(company => company.confidence && company.confidence <= 2).length;
-    
-    return {
-      totalPortfolioValue,
-      totalRequested,
-      avgMOIC,
-      highRiskCount
-    };
-  }, [companies]);
+  const portfolioMetrics = useMemo(() => calculatePortfolioMetrics(visibleCompanies), [visibleCompanies]);
+  const portfolioIrr = useMemo(() => calculatePortfolioIrr(visibleCompanies), [visibleCompanies]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -245,7 +557,38 @@ export function Dashboard() {
           <ApiKeyStatus onConfigureClick={() => setShowApiInput(true)} />
         </div>
 
-        {!uploadedFile ? (
+        {interruptedRun && (
+          <div className="mb-6">
+            <ResumeRunBanner
+              run={interruptedRun}
+              onResume={handleResumeRun}
+              onDiscard={handleDiscardRun}
+              disabled={isAnalyzing}
+            />
+          </div>
+        )}
+
+        {!uploadedFileName && pendingImport && !pendingImport.selectedSheets ? (
+          <SheetSelection
+            workbook={pendingImport.workbook}
+            onConfirm={handleSheetsConfirm}
+            onCancel={() => setPendingImport(null)}
+          />
+        ) : !uploadedFileName && pendingImport?.selectedSheets && reviewPreview ? (
+          <ColumnMappingReview
+            key={reviewPreview.sheetName}
+            preview={reviewPreview}
+            onConfirm={handleMappingConfirm}
+            onCancel={() => setPendingImport(null)}
+            isProcessing={isParsingFile}
+            stepLabel={pendingImport.selectedSheets.length > 1
+              ? `Sheet ${pendingImport.reviewIndex + 1} of ${pendingImport.selectedSheets.length}`
+              : undefined}
+            confirmLabel={pendingImport.reviewIndex < pendingImport.selectedSheets.length - 1
+              ? 'Confirm Mapping & Next Sheet'
+              : undefined}
+          />
+        ) : !uploadedFileName ? (
           <div className="max-w-4xl mx-auto">
             <div className="text-center mb-8">
               <h2 className="text-4xl font-orbitron font-black text-foreground mb-4 tracking-wider">
@@ -259,7 +602,7 @@ export function Dashboard() {
             <FileUpload onFileSelect={handleFileUpload} />
             {isParsingFile && (
               <div className="mt-4 text-center">
-                <p className="text-muted-foreground">Parsing Excel file...</p>
+                <p className="text-muted-foreground">Parsing spreadsheet...</p>
               </div>
             )}
           </div>
@@ -268,16 +611,48 @@ export function Dashboard() {
             {/* File Info Card */}
             <Card className="shadow-glow">
               <CardContent className="p-4">
-                <div className="flex items-center justify-between">
+                <div className="flex items-center justify-between gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground font-space-grotesk">Loaded from:</p>
-                    <p className="font-medium font-orbitron text-accent">{uploadedFile.name}</p>
+                    <p className="font-medium font-orbitron text-accent">{uploadedFileName}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {activeWorkspace && (
+                      <Button asChild variant="ghost" size="sm">
+                        <Link to="/workspaces">
+                          <FolderOpen className="mr-2 h-4 w-4" />
+                          {activeWorkspace.name}
+                        </Link>
+                      </Button>
+                    )}
+                    <PortfolioReportMenu
+                      companies={visibleCompanies}
+                      sourceFileName={uploadedFileName}
+                      fundLabel={selectedFund}
+                      disabled={isAnalyzing}
+                    />
+                    <Button variant="outline" size="sm" onClick={handleNewUpload} disabled={isAnalyzing}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      New Upload
+                    </Button>
+                    <Badge variant="outline" className="border-accent text-accent">{companies.length} companies</Badge>
                   </div>
-                  <Badge variant="outline" className="border-accent text-accent">{companies.length} companies</Badge>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Import Validation Report */}
+            {importReport && <ImportReportPanel report={importReport} />}
+
+            {/* Per-fund aggregates when several sheets were imported */}
+            {funds.length > 1 && (
+              <FundBreakdown
+                companies={companies}
+                selectedFund={selectedFund}
+                onFundSelect={handleFundSelect}
+              />
+            )}
+
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <Card className="shadow-soft">
@@ -290,7 +665,7 @@ export function Dashboard() {
                     ${(portfolioMetrics.totalPortfolioValue / 1000000).toFixed(1)}M
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    {companies.length} companies
+                    {visibleCompanies.length} companies{selectedFund ? ` in ${selectedFund}` : ''}
                   </p>
                 </CardContent>
               </Card>
@@ -320,7 +695,7 @@ export function Dashboard() {
                     {portfolioMetrics.avgMOIC > 0 ? `${portfolioMetrics.avgMOIC.toFixed(1)}x` : 'N/A'}
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Portfolio multiple
+                    {portfolioIrr !== null ? `Expected portfolio IRR ${formatIrr(portfolioIrr)}` : 'Portfolio multiple'}
                   </p>
                 </CardContent>
               </Card>
@@ -340,12 +715,12 @@ export function Dashboard() {
             </div>
 
             {/* Interactive Charts Section */}
-            {companies.some(c => c.moic !== null && c.moic !== undefined) && (
+            {visibleCompanies.some(c => c.moic !== null && c.moic !== undefined) && (
               <div className="space-y-6">
                 <h3 className="text-2xl font-orbitron font-bold text-accent tracking-wider">PORTFOLIO ANALYTICS</h3>
                 <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
                   <PortfolioExposureBubbleChart 
-                    companies={companies}
+                    companies={visibleCompanies}
                     onCompanySelect={(company) => {
                       setFilteredCompanies([company]);
                       toast({
@@ -355,7 +730,7 @@ export function Dashboard() {
                     }}
                   />
                   <MOICDistributionHistogram 
-                    companies={companies}
+                    companies={visibleCompanies}
                     onBinSelect={(companiesInBin) => {
                       setFilteredCompanies(companiesInBin);
                       toast({
@@ -365,7 +740,17 @@ export function Dashboard() {
                     }}
                   />
                   <CapitalEfficiencyLeaderboard 
-                    companies={companies}
+                    companies={visibleCompanies}
+                    onCompanySelect={(company) => {
+                      setFilteredCompanies([company]);
+                      toast({
+                        title: "Company Selected",
+                        description: `Filtered view to show ${company.companyName}`,
+                      });
+                    }}
+                  />
+                  <CredibilityScoresChart 
+                    companies={visibleCompanies}
                     onCompanySelect={(company) => {
                       setFilteredCompanies([company]);
                       toast({
@@ -391,13 +776,30 @@ export function Dashboard() {
               </div>
             )}
 
+            {/* Queue progress with pause/resume/cancel while an LLM run is in flight */}
+            {isAnalyzing && queueStatus && (
+              <AnalysisProgressPanel
+                status={queueStatus}
+                progress={analysisProgress}
+                statusMessage={analysisStatus}
+                onPause={() => analysisQueueRef.current?.pause()}
+                onResume={() => analysisQueueRef.current?.resume()}
+                onCancel={() => analysisQueueRef.current?.cancel()}
+              />
+            )}
+
             {/* Analysis Table */}
             <AnalysisTable 
-              companies={filteredCompanies.length > 0 ? filteredCompanies : companies}
+              companies={filteredCompanies.length > 0 ? filteredCompanies : visibleCompanies}
               onAnalyze={handleAnalyze}
               isAnalyzing={isAnalyzing}
               analysisProgress={analysisProgress}
               analysisStatus={analysisStatus}
+              analysisMode={analysisMode}
+              onAnalysisModeChange={handleAnalysisModeChange}
+              forceRefresh={forceRefresh}
+              onForceRefreshChange={setForceRefresh}
+              onExport={handleExport}
             />
           </div>
         )}
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { Check, Plus, RotateCcw, Save, Search, Trash2, X } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  applyResearchMultipleSuggestion,
+  DEFAULT_EXIT_MULTIPLES,
+  dismissResearchMultipleSuggestion,
+  EXIT_MULTIPLE_METRICS,
+  EXIT_STAGES,
+  ExitMultipleEntry,
+  ExitMultipleMetric,
+  ExitStage,
+  getExitMultiples,
+  getExitMultiplesIssues,
+  getIndustryKey,
+  getResearchMultipleSuggestions,
+  ResearchMultipleSuggestion,
+  saveExitMultiples
+} from '@/utils/exitMultiples';
+
+const SOURCE_LABELS: Record<ExitMultipleEntry['source'], string> = {
+  default: 'Default',
+  team: 'Team',
+  research: 'Research'
+};
+
+// Industries are stored under their normalized name, so "B2B SaaS" and "SaaS" share a row
+function normalizeEntries(entries: ExitMultipleEntry[]): ExitMultipleEntry[] {
+  return entries.map(entry => ({ ...entry, industry: getIndustryKey(entry.industry) }));
+}
+
+function parseNumber(value: string): number {
+  return value === '' ? NaN : parseFloat(value);
+}
+
+export function ExitMultiples() {
+  const [saved, setSaved] = useState<ExitMultipleEntry[]>(getExitMultiples);
+  const [draft, setDraft] = useState<ExitMultipleEntry[]>(getExitMultiples);
+  const [suggestions, setSuggestions] = useState<ResearchMultipleSuggestion[]>(getResearchMultipleSuggestions);
+  const { toast } = useToast();
+  const normalized = normalizeEntries(draft);
+  const issues = getExitMultiplesIssues(normalized);
+  const isDirty = JSON.stringify(normalized) !== JSON.stringify(saved);
+
+  const updateEntry = (index: number, changes: Partial<ExitMultipleEntry>) => {
+    setDraft(current => current.map((entry, i) => i === index
+      ? { ...entry, ...changes, source: 'team', updatedAt: new Date().toISOString() }
+      : entry));
+  };
+
+  const removeEntry = (index: number) => {
+    setDraft(current => current.filter((_, i) => i !== index));
+  };
+
+  const addEntry = () => {
+    setDraft(current => [...current, { industry: '', stage: 'any', metric: 'EV/Revenue', low: 3, mid: 5, high: 8, source: 'team' }]);
+  };
+
+  const handleSave = () => {
+    try {
+      saveExitMultiples(normalized);
+      setSaved(normalized);
+      setDraft(normalized);
+      toast({
+        title: "Exit Multiples Saved",
+        description: 'Re-run the analysis to apply the new multiples to the simulations',
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Exit Multiples",
+        description: error instanceof Error ? error.message : "Settings storage is unavailable",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDismiss = (suggestion: ResearchMultipleSuggestion) => {
+    dismissResearchMultipleSuggestion(suggestion.industry);
+    setSuggestions(getResearchMultipleSuggestions());
+  };
+
+  // Applied to the draft; the table still needs saving
+  const handleApply = (suggestion: ResearchMultipleSuggestion) => {
+    setDraft(current => applyResearchMultipleSuggestion(normalizeEntries(current), suggestion));
+    handleDismiss(suggestion);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-orbitron font-bold text-accent tracking-wider">EXIT MULTIPLES</h2>
+          <p className="text-sm text-muted-foreground font-space-grotesk">
+            Low, mid and high exit multiples by industry and stage. The mid is the simulated median and low/high set the spread
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            <Card className="shadow-soft">
+              <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{saved.length} multiples</span>
+                    {isDirty && <Badge variant="secondary" className="text-xs">Unsaved changes</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Companies use their stage's row, then the industry's any-stage row, then the simulation settings
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(DEFAULT_EXIT_MULTIPLES.map(entry => ({ ...entry })))}>
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Load Defaults
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={addEntry}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Row
+                  </Button>
+                  <Button size="sm" onClick={handleSave} disabled={!isDirty || issues.length > 0}>
+                    <Save className="mr-1 h-4 w-4" />
+                    Save
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {issues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>{issues.join('. ')}</AlertDescription>
+              </Alert>
+            )}
+
+            <Card className="shadow-soft">
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Industry</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Metric</TableHead>
+                      <TableHead className="w-[90px]">Low</TableHead>
+                      <TableHead className="w-[90px]">Mid</TableHead>
+                      <TableHead className="w-[90px]">High</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draft.map((entry, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input
+                            value={entry.industry}
+                            onChange={(e) => updateEntry(index, { industry: e.target.value })}
+                            className="h-8"
+                            aria-label="Industry"
+                          />
+                          {entry.industry.trim() && normalized[index].industry !== entry.industry.trim().toLowerCase() && (
+                            <div className="text-xs text-muted-foreground mt-1">Saved as {normalized[index].industry}</div>
+                          )}
+                          {entry.note && <div className="text-xs text-muted-foreground mt-1">{entry.note}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Select value={entry.stage} onValueChange={(stage: ExitStage) => updateEntry(index, { stage })}>
+                            <SelectTrigger className="h-8 w-[150px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {EXIT_STAGES.map(({ key, label }) => (
+                                <SelectItem key={key} value={key}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select value={entry.metric} onValueChange={(metric: ExitMultipleMetric) => updateEntry(index, { metric })}>
+                            <SelectTrigger className="h-8 w-[120px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {EXIT_MULTIPLE_METRICS.map(({ key, label }) => (
+                                <SelectItem key={key} value={key}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        {(['low', 'mid', 'high'] as const).map(field => (
+                          <TableCell key={field}>
+                            <Input
+                              type="number"
+                              step={0.5}
+                              value={Number.isFinite(entry[field]) ? entry[field] : ''}
+                              onChange={(e) => updateEntry(index, { [field]: parseNumber(e.target.value) })}
+                              className="h-8"
+                              aria-label={`${field} multiple`}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Badge variant={entry.source === 'default' ? 'outline' : 'secondary'} className="text-xs">
+                            {SOURCE_LABELS[entry.source]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => removeEntry(index)} title="Remove row">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-soft h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Search className="h-5 w-5 text-accent" />
+                From Research
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Industries whose external research names at least two comps with revenue or ARR multiples appear here
+                </p>
+              ) : suggestions.map(suggestion => (
+                <div key={suggestion.industry} className="space-y-2 border-b border-border pb-3 last:border-0 last:pb-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium">{suggestion.industry}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {suggestion.metric} {suggestion.low.toFixed(1)}x / {suggestion.mid.toFixed(1)}x / {suggestion.high.toFixed(1)}x
+                        {' · '}{new Date(suggestion.researchedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="outline" size="sm" onClick={() => handleApply(suggestion)} title="Use as the any-stage row">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDismiss(suggestion)} title="Dismiss">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {suggestion.comps.map(comp => <li key={comp}>{comp}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { CheckCircle2, History, Plus, RotateCcw, Save, SlidersHorizontal } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { ScoringFactorEditor } from '@/components/ScoringFactorEditor';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  activateScoringModel,
+  DEFAULT_SCORING_MODEL,
+  describeScoringModelVersion,
+  getMaxCategoryPoints,
+  getScoringModel,
+  getScoringModelHistory,
+  getScoringModelIssues,
+  saveScoringModel,
+  SCORE_CATEGORIES,
+  ScoreCategory,
+  ScoringFactor,
+  ScoringModel
+} from '@/utils/scoringModel';
+
+type ScoringDraft = Pick<ScoringModel, 'label' | 'market' | 'capital' | 'execution'>;
+
+function toDraft(model: ScoringModel): ScoringDraft {
+  // Deep copy so edits never touch the stored versions
+  return JSON.parse(JSON.stringify({ label: '', market: model.market, capital: model.capital, execution: model.execution }));
+}
+
+export function Scoring() {
+  const [activeModel, setActiveModel] = useState<ScoringModel>(getScoringModel);
+  const [history, setHistory] = useState<ScoringModel[]>(getScoringModelHistory);
+  const [draft, setDraft] = useState<ScoringDraft>(() => toDraft(getScoringModel()));
+  const { toast } = useToast();
+  const issues = getScoringModelIssues(draft);
+  const isDirty = JSON.stringify(toDraft(activeModel)) !== JSON.stringify({ ...draft, label: '' });
+
+  const refresh = () => {
+    const model = getScoringModel();
+    setActiveModel(model);
+    setHistory(getScoringModelHistory());
+    setDraft(toDraft(model));
+  };
+
+  const updateFactor = (category: ScoreCategory, index: number, factor: ScoringFactor) => {
+    setDraft(current => ({ ...current, [category]: current[category].map((entry, i) => i === index ? factor : entry) }));
+  };
+
+  const removeFactor = (category: ScoreCategory, index: number) => {
+    setDraft(current => ({ ...current, [category]: current[category].filter((_, i) => i !== index) }));
+  };
+
+  // Removed factors can be restored from the default rubric
+  const addFactor = (category: ScoreCategory, factor: ScoringFactor) => {
+    setDraft(current => ({ ...current, [category]: [...current[category], JSON.parse(JSON.stringify(factor))] }));
+  };
+
+  const handleSave = () => {
+    try {
+      const model = saveScoringModel(draft);
+      refresh();
+      toast({
+        title: "Scoring Model Saved",
+        description: `${describeScoringModelVersion(model)} is now active. Re-run the analysis to rescore companies`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Scoring Model",
+        description: error instanceof Error ? error.message : "Settings storage is unavailable",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleActivate = (model: ScoringModel) => {
+    try {
+      activateScoringModel(model.version);
+      refresh();
+      toast({
+        title: "Scoring Model Activated",
+        description: `${describeScoringModelVersion(model)} is now active. Re-run the analysis to rescore companies`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Activate Scoring Model",
+        description: error instanceof Error ? error.message : "Settings storage is unavailable",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-orbitron font-bold text-accent tracking-wider">SCORING MODEL</h2>
+          <p className="text-sm text-muted-foreground font-space-grotesk">
+            Factors, thresholds and weights behind the market, capital efficiency and execution credibility scores
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            <Card className="shadow-soft">
+              <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <SlidersHorizontal className="h-4 w-4 text-accent" />
+                    <span className="font-medium">Active: {describeScoringModelVersion(activeModel)}</span>
+                    {isDirty && <Badge variant="secondary" className="text-xs">Unsaved changes</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Saving creates a new version. Results record the version that scored them
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={draft.label}
+                    onChange={(e) => setDraft(current => ({ ...current, label: e.target.value }))}
+                    placeholder="Version name (e.g. Partner review)"
+                    className="h-9 w-[220px]"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(DEFAULT_SCORING_MODEL))}>
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Load Defaults
+                  </Button>
+                  <Button size="sm" onClick={handleSave} disabled={!isDirty || issues.length > 0}>
+                    <Save className="mr-1 h-4 w-4" />
+                    Save Version
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {issues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>{issues.join('. ')}</AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs defaultValue="market">
+              <TabsList>
+                {SCORE_CATEGORIES.map(({ key, label }) => (
+                  <TabsTrigger key={key} value={key}>{label}</TabsTrigger>
+                ))}
+              </TabsList>
+
+              {SCORE_CATEGORIES.map(({ key, label }) => {
+                const maxPoints = getMaxCategoryPoints(draft[key]);
+                const missingDefaults = DEFAULT_SCORING_MODEL[key].filter(factor => !draft[key].some(entry => entry.id === factor.id));
+                return (
+                  <TabsContent key={key} value={key} className="space-y-3">
+                    <p className="text-sm text-muted-foreground">
+                      {label} is the share of its factor points earned, scaled to 100. Factors currently add up to {maxPoints} points.
+                    </p>
+                    {draft[key].map((factor, index) => (
+                      <ScoringFactorEditor
+                        key={factor.id}
+                        factor={factor}
+                        onChange={(updated) => updateFactor(key, index, updated)}
+                        onRemove={() => removeFactor(key, index)}
+                      />
+                    ))}
+                    {missingDefaults.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {missingDefaults.map(factor => (
+                          <Button key={factor.id} variant="outline" size="sm" onClick={() => addFactor(key, factor)}>
+                            <Plus className="mr-1 h-4 w-4" />
+                            {factor.label}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </TabsContent>
+                );
+              })}
+            </Tabs>
+          </div>
+
+          <Card className="shadow-soft h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <History className="h-5 w-5 text-accent" />
+                Versions
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...history].reverse().map(model => (
+                    <TableRow key={model.version}>
+                      <TableCell>
+                        <div className="font-medium">v{model.version}</div>
+                        <div className="text-xs text-muted-foreground">{model.label}</div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {model.version === DEFAULT_SCORING_MODEL.version ? 'Built in' : new Date(model.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {model.version === activeModel.version ? (
+                          <Badge variant="secondary" className="text-xs">
+                            <CheckCircle2 className="mr-1 h-3 w-3" />
+                            Active
+                          </Badge>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => handleActivate(model)}>
+                            Activate
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CheckCircle2, Download, FileSpreadsheet, FolderOpen, History, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
+import { classifyRecommendation } from '@/utils/rulesAnalysis';
+import { downloadFile } from '@/utils/fileDownload';
+import { exportSnapshot, snapshotFromWorkspaceRun } from '@/utils/snapshotFiles';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  deleteWorkspaceRun,
+  deleteWorkspaceUpload,
+  ensureActiveWorkspace,
+  getActiveWorkspaceId,
+  getWorkspaceHistory,
+  listWorkspaces,
+  renameWorkspace,
+  setActiveWorkspaceId,
+  WorkspaceHistory,
+  WorkspaceRun,
+  WorkspaceSummary,
+  WorkspaceUpload
+} from '@/utils/workspaces';
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+// "3 invest · 5 hold · 2 pass" style summary of a run's decisions
+function summarizeDecisions(companies: AnalyzedCompanyData[]): string {
+  const counts = { invest: 0, hold: 0, pass: 0, exit: 0 };
+  companies.forEach(company => {
+    const category = classifyRecommendation(company.recommendation, company.recommendationType);
+    if (category !== 'unknown') counts[category]++;
+  });
+  const parts = Object.entries(counts).filter(([, count]) => count > 0).map(([category, count]) => `${count} ${category}`);
+  return parts.length > 0 ? parts.join(' · ') : 'No recommendations';
+}
+
+export function Workspaces() {
+  const [summaries, setSummaries] = useState<WorkspaceSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(() => getActiveWorkspaceId());
+  const [history, setHistory] = useState<WorkspaceHistory>({ uploads: [], runs: [] });
+  const [newName, setNewName] = useState('');
+  const [renameValue, setRenameValue] = useState<string | null>(null); // Non-null while renaming
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const active = await ensureActiveWorkspace();
+      setActiveId(active.id);
+      setSummaries(await listWorkspaces());
+      setSelectedId(current => current ?? active.id);
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+  }, []);
+
+  const refreshHistory = useCallback(async (workspaceId: string | null) => {
+    if (!workspaceId) return;
+    try {
+      setHistory(await getWorkspaceHistory(workspaceId));
+    } catch (error) {
+      console.error('Failed to load workspace history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  useEffect(() => {
+    setRenameValue(null);
+    refreshHistory(selectedId);
+  }, [selectedId, refreshHistory]);
+
+  const selected = summaries.find(summary => summary.workspace.id === selectedId)?.workspace;
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Workspace storage is unavailable",
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      const workspace = await createWorkspace(newName);
+      setNewName('');
+      setSelectedId(workspace.id);
+      await refreshWorkspaces();
+      toast({
+        title: "Workspace Created",
+        description: `"${workspace.name}" is ready. Make it active to file new uploads and runs there`,
+      });
+    } catch (error) {
+      showError("Could Not Create Workspace", error);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected || renameValue === null) return;
+    try {
+      await renameWorkspace(selected.id, renameValue);
+      setRenameValue(null);
+      await refreshWorkspaces();
+    } catch (error) {
+      showError("Could Not Rename Workspace", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await deleteWorkspace(selected.id);
+      setSelectedId(null);
+      await refreshWorkspaces();
+      toast({
+        title: "Workspace Deleted",
+        description: `"${selected.name}" and its history have been removed`,
+      });
+    } catch (error) {
+      showError("Could Not Delete Workspace", error);
+    }
+  };
+
+  const handleMakeActive = () => {
+    if (!selected) return;
+    setActiveWorkspaceId(selected.id);
+    setActiveId(selected.id);
+    toast({
+      title: "Active Workspace Changed",
+      description: `New uploads and analysis runs will be saved to "${selected.name}"`,
+    });
+  };
+
+  // Opening history also makes its workspace active so follow-up runs are filed alongside it
+  const openInDashboard = (param: 'upload' | 'run', id: string) => {
+    if (!selected) return;
+    setActiveWorkspaceId(selected.id);
+    navigate(`/dashboard?${param}=${encodeURIComponent(id)}`);
+  };
+
+  const handleDownload = (upload: WorkspaceUpload) => {
+    if (upload.file) downloadFile(upload.file, upload.fileName);
+  };
+
+  // JSON snapshot that the Compare view can load in a later quarter
+  const handleExportRun = (run: WorkspaceRun) => {
+    const baseName = run.fileName.replace(/\.[^.]+$/, '');
+    downloadFile(exportSnapshot(snapshotFromWorkspaceRun(run)), `${baseName}-results-${run.completedAt.slice(0, 10)}.json`);
+  };
+
+  const handleDeleteUpload = async (upload: WorkspaceUpload) => {
+    try {
+      await deleteWorkspaceUpload(upload.id);
+      await Promise.all([refreshHistory(selectedId), refreshWorkspaces()]);
+    } catch (error) {
+      showError("Could Not Delete Upload", error);
+    }
+  };
+
+  const handleDeleteRun = async (runId: string) => {
+    try {
+      await deleteWorkspaceRun(runId);
+      await Promise.all([refreshHistory(selectedId), refreshWorkspaces()]);
+    } catch (error) {
+      showError("Could Not Delete Run", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h2 className="text-2xl font-orbitron font-bold text-accent tracking-wider">WORKSPACES</h2>
+          <p className="text-sm text-muted-foreground font-space-grotesk">
+            Saved uploads and analysis history, stored locally in this browser
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Workspace list */}
+          <Card className="shadow-soft h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FolderOpen className="h-5 w-5 text-accent" />
+                Workspaces
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {summaries.map(({ workspace, uploadCount, runCount }) => (
+                <button
+                  key={workspace.id}
+                  onClick={() => setSelectedId(workspace.id)}
+                  className={`w-full text-left rounded-md border p-3 transition-colors ${workspace.id === selectedId ? 'border-accent bg-accent/10' : 'border-border hover:bg-muted/50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{workspace.name}</span>
+                    {workspace.id === activeId && <Badge variant="secondary" className="text-xs">Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {uploadCount} {uploadCount === 1 ? 'upload' : 'uploads'} · {runCount} {runCount === 1 ? 'run' : 'runs'} · updated {formatTimestamp(workspace.updatedAt)}
+                  </p>
+                </button>
+              ))}
+
+              <div className="flex gap-2 pt-2">
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+                  placeholder="New workspace name"
+                  className="h-9"
+                />
+                <Button size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Create
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* History of the selected workspace */}
+          <div className="lg:col-span-2 space-y-6">
+            {selected ? (
+              <>
+                <Card className="shadow-soft">
+                  <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+                    {renameValue !== null ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                          className="h-9 w-[240px]"
+                          autoFocus
+                        />
+                        <Button size="sm" onClick={handleRename} disabled={!renameValue.trim()}>Save</Button>
+                        <Button size="sm" variant="ghost" onClick={() => setRenameValue(null)}>Cancel</Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="text-lg font-semibold">{selected.name}</span>
+                        <Button variant="ghost" size="sm" onClick={() => setRenameValue(selected.name)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2">
+                      {selected.id === activeId ? (
+                        <Badge variant="outline" className="border-accent text-accent">
+                          <CheckCircle2 className="mr-1 h-3 w-3" />
+                          Active workspace
+                        </Badge>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={handleMakeActive}>Make Active</Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete "{selected.name}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Its {history.uploads.length} saved uploads and {history.runs.length} analysis runs will be removed from this browser. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-soft">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <History className="h-5 w-5 text-accent" />
+                      Analysis Runs
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {history.runs.length === 0 ? (
+                      <p className="p-4 text-sm text-muted-foreground">No analysis runs saved yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader className="bg-muted/50">
+                          <TableRow>
+                            <TableHead>Completed</TableHead>
+                            <TableHead>Dataset</TableHead>
+                            <TableHead>Model</TableHead>
+                            <TableHead>Prompt</TableHead>
+                            <TableHead>Decisions</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {history.runs.map(run => (
+                            <TableRow key={run.id}>
+                              <TableCell className="text-sm whitespace-nowrap">
+                                {formatTimestamp(run.completedAt)}
+                                {run.status === 'cancelled' && (
+                                  <Badge variant="outline" className="text-xs ml-2">Cancelled</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-sm">{run.fileName}</TableCell>
+                              <TableCell className="text-sm">
+                                {run.mode === 'rules' ? <Badge variant="outline" className="text-xs">Rules</Badge> : run.providerDescription}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {run.promptVersion !== null ? `v${run.promptVersion}` : '-'}
+                              </TableCell>
+                              <TableCell className="text-xs text-muted-foreground">{summarizeDecisions(run.companies)}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                <Button variant="outline" size="sm" onClick={() => openInDashboard('run', run.id)}>Open</Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleExportRun(run)} title="Export results for comparison">
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDeleteRun(run.id)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-soft">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <FileSpreadsheet className="h-5 w-5 text-accent" />
+                      Uploads
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    {history.uploads.length === 0 ? (
+                      <p className="p-4 text-sm text-muted-foreground">No uploads saved yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader className="bg-muted/50">
+                          <TableRow>
+                            <TableHead>Uploaded</TableHead>
+                            <TableHead>File</TableHead>
+                            <TableHead>Companies</TableHead>
+                            <TableHead>Runs</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {history.uploads.map(upload => (
+                            <TableRow key={upload.id}>
+                              <TableCell className="text-sm whitespace-nowrap">{formatTimestamp(upload.uploadedAt)}</TableCell>
+                              <TableCell className="text-sm">{upload.fileName}</TableCell>
+                              <TableCell className="text-sm">{upload.companies.length}</TableCell>
+                              <TableCell className="text-sm">{history.runs.filter(run => run.uploadId === upload.id).length}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                <Button variant="outline" size="sm" onClick={() => openInDashboard('upload', upload.id)}>Open</Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDownload(upload)} disabled={!upload.file} title="Download original file">
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDeleteUpload(upload)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            ) : (
+              <Card className="shadow-soft">
+                <CardContent className="p-6 text-sm text-muted-foreground">
+                  Select a workspace to browse its uploads and analysis runs
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * Bounded-concurrency job queue with token-bucket rate limiting
+ * Retries rate-limited (429) and server (5xx) failures with exponential backoff, and can be paused, resumed or cancelled
+ */
+import { isLLMProviderError } from './llmProviders';
+
+export type QueueState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface QueueOptions {
+  concurrency: number;
+  requestsPerMinute: number; // Token refill rate shared by all workers
+  burst: number; // Bucket capacity: requests that may start back to back
+  maxRetries: number; // Retries per job after the first attempt
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 3,
+  requestsPerMinute: 60,
+  burst: 3,
+  maxRetries: 3,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60000
+};
+
+export interface QueueStatus {
+  state: QueueState;
+  total: number;
+  completed: number;
+  failed: number;
+  inFlight: number;
+  retrying: number; // Jobs waiting out a backoff delay
+  pending: number; // Jobs not yet started
+}
+
+export interface JobOutcome<R> {
+  status: 'fulfilled' | 'rejected' | 'cancelled';
+  value?: R;
+  error?: unknown;
+  attempts: number;
+}
+
+export interface QueueJobContext {
+  signal: AbortSignal;
+  attempt: number;
+}
+
+export interface QueueCallbacks<T, R> {
+  onStatusChange?: (status: QueueStatus) => void;
+  onJobSettled?: (item: T, index: number, outcome: JobOutcome<R>) => void;
+  onRetry?: (item: T, attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface AnalysisQueue<R> {
+  run: () => Promise<JobOutcome<R>[]>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  getStatus: () => QueueStatus;
+}
+
+/**
+ * Only rate limiting and server-side failures are worth retrying; bad keys or invalid output are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!isLLMProviderError(error) || error.status === null) return false;
+  return error.status === 429 || error.status >= 500;
+}
+
+export function getBackoffDelay(attempt: number, error: unknown, options: QueueOptions): number {
+  const exponential = options.baseBackoffMs * Math.pow(2, attempt - 1);
+  // Jitter keeps parallel workers from retrying in lockstep
+  const jittered = exponential * (0.5 + Math.random() * 0.5);
+  const retryAfter = isLLMProviderError(error) && error.retryAfterMs !== null ? error.retryAfterMs : 0;
+  return Math.min(options.maxBackoffMs, Math.max(jittered, retryAfter));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createAnalysisQueue<T, R>(
+  items: T[],
+  worker: (item: T, context: QueueJobContext) => Promise<R>,
+  options: Partial<QueueOptions> = {},
+  callbacks: QueueCallbacks<T, R> = {}
+): AnalysisQueue<R> {
+  const settings: QueueOptions = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  const concurrency = Math.max(1, Math.floor(settings.concurrency));
+  const refillPerMs = settings.requestsPerMinute / 60000;
+  const abortController = new AbortController();
+  const outcomes: JobOutcome<R>[] = new Array(items.length);
+
+  let state: QueueState = 'running';
+  let nextIndex = 0;
+  let tokens = Math.max(1, settings.burst);
+  let lastRefill = Date.now();
+  let resumeWaiters: (() => void)[] = [];
+  const counts = { completed: 0, failed: 0, inFlight: 0, retrying: 0 };
+
+  const getStatus = (): QueueStatus => ({
+    state,
+    total: items.length,
+    ...counts,
+    pending: Math.max(0, items.length - nextIndex)
+  });
+
+  const emit = () => callbacks.onStatusChange?.(getStatus());
+
+  const isCancelled = () => state === 'cancelled';
+
+  const waitWhilePaused = (): Promise<void> => state === 'paused'
+    ? new Promise(resolve => resumeWaiters.push(resolve))
+    : Promise.resolve();
+
+  const releaseWaiters = () => {
+    const waiters = resumeWaiters;
+    resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const acquireToken = async () => {
+    while (!isCancelled()) {
+      const now = Date.now();
+      tokens = Math.min(settings.burst, tokens + (now - lastRefill) * refillPerMs);
+      lastRefill = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - tokens) / refillPerMs), abortController.signal);
+    }
+  };
+
+  const settle = (index: number, outcome: JobOutcome<R>) => {
+    outcomes[index] = outcome;
+    if (outcome.status !== 'cancelled') callbacks.onJobSettled?.(items[index], index, outcome);
+  };
+
+  const processJob = async (index: number) => {
+    for (let attempt = 1; ; attempt++) {
+      await waitWhilePaused();
+      if (!isCancelled()) await acquireToken();
+      if (isCancelled()) {
+        settle(index, { status: 'cancelled', attempts: attempt - 1 });
+        return;
+      }
+
+      counts.inFlight++;
+      emit();
+      try {
+        const value = await worker(items[index], { signal: abortController.signal, attempt });
+        counts.inFlight--;
+        counts.completed++;
+        settle(index, { status: 'fulfilled', value, attempts: attempt });
+        emit();
+        return;
+      } catch (error) {
+        counts.inFlight--;
+        if (isCancelled()) {
+          settle(index, { status: 'cancelled', attempts: attempt });
+          emit();
+          return;
+        }
+        if (attempt > settings.maxRetries || !isRetryableError(error)) {
+          counts.failed++;
+          settle(index, { status: 'rejected', error, attempts: attempt });
+          emit();
+          return;
+        }
+
+        // A 429 means the bucket is too generous: drain it so other workers back off as well
+        if (isLLMProviderError(error) && error.status === 429) tokens = Math.min(tokens, 0);
+
+        const delay = getBackoffDelay(attempt, error, settings);
+        console.warn(`⏳ [Analysis Queue] Attempt ${attempt} failed, retrying in ${Math.round(delay / 1000)}s:`, error instanceof Error ? error.message : error);
+        callbacks.onRetry?.(items[index], attempt, delay, error);
+        counts.retrying++;
+        emit();
+        await sleep(delay, abortController.signal);
+        counts.retrying--;
+      }
+    }
+  };
+
+  const workerLoop = async () => {
+    while (true) {
+      await waitWhilePaused();
+      if (isCancelled() || nextIndex >= items.length) return;
+      await processJob(nextIndex++);
+    }
+  };
+
+  return {
+    run: async () => {
+      console.log(`🚦 [Analysis Queue] Starting ${items.length} jobs, concurrency ${concurrency}, ${settings.requestsPerMinute} requests/min`);
+      emit();
+      await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => workerLoop()));
+
+      for (let i = 0; i < items.length; i++) {
+        if (!outcomes[i]) outcomes[i] = { status: 'cancelled', attempts: 0 };
+      }
+      if (!isCancelled()) state = 'completed';
+      emit();
+      return outcomes;
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      console.log('⏸️ [Analysis Queue] Paused - in-flight requests will finish');
+      emit();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      console.log('▶️ [Analysis Queue] Resumed');
+      releaseWaiters();
+      emit();
+    },
+    cancel: () => {
+      if (state === 'cancelled' || state === 'completed') return;
+      state = 'cancelled';
+      console.log('⏹️ [Analysis Queue] Cancelled');
+      abortController.abort();
+      releaseWaiters();
+      emit();
+    },
+    getStatus
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Incremental persistence of LLM analysis runs
+ * Each finished company is written to IndexedDB so a reload can resume without re-analyzing completed companies
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { ImportReport } from './importReport';
+import { idbDelete, idbGetAll, idbPut } from './indexedDb';
+
+export type CompanyRunStatus = 'pending' | 'completed' | 'failed';
+
+export interface AnalysisRun {
+  id: string;
+  fileName: string;
+  providerDescription: string;
+  importReport: ImportReport | null;
+  workspaceUploadId: string | null; // Saved upload the companies came from, so the finished run is filed with it
+  companies: AnalyzedCompanyData[]; // Dashboard state at the start of the run, updated as results arrive
+  companyStatus: Record<string, CompanyRunStatus>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RunProgressSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
+
+const STORE = 'analysisRuns';
+
+function generateRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Persistence is best effort: a failed write must never stop the analysis itself
+async function saveRun(run: AnalysisRun): Promise<void> {
+  try {
+    await idbPut(STORE, run);
+  } catch (error) {
+    console.error('💾 [Analysis Runs] Failed to persist run:', error);
+  }
+}
+
+/**
+ * Starts a persisted run, replacing any earlier interrupted run
+ */
+export async function createAnalysisRun(
+  fileName: string,
+  providerDescription: string,
+  companies: AnalyzedCompanyData[],
+  importReport: ImportReport | null,
+  workspaceUploadId: string | null
+): Promise<AnalysisRun> {
+  await discardInterruptedRuns();
+
+  const now = new Date().toISOString();
+  const run: AnalysisRun = {
+    id: generateRunId(),
+    fileName,
+    providerDescription,
+    importReport,
+    workspaceUploadId,
+    companies,
+    companyStatus: Object.fromEntries(companies.map(company => [company.id, 'pending' as CompanyRunStatus])),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await saveRun(run);
+  console.log(`💾 [Analysis Runs] Started run ${run.id} for ${companies.length} companies`);
+  return run;
+}
+
+/**
+ * Records one company's result. Mutates the run in place; IndexedDB applies the queued writes in order,
+ * so the stored copy always ends up with every result even when companies finish concurrently
+ */
+export function recordCompanyResult(run: AnalysisRun, analyzed: AnalyzedCompanyData, status: CompanyRunStatus): Promise<void> {
+  run.companies = run.companies.map(company => company.id === analyzed.id ? { ...company, ...analyzed } : company);
+  run.companyStatus = { ...run.companyStatus, [analyzed.id]: status };
+  run.updatedAt = new Date().toISOString();
+  return saveRun({ ...run });
+}
+
+export async function completeAnalysisRun(run: AnalysisRun): Promise<void> {
+  try {
+    await idbDelete(STORE, run.id);
+    console.log(`💾 [Analysis Runs] Run ${run.id} finished`);
+  } catch (error) {
+    console.error('💾 [Analysis Runs] Failed to clear finished run:', error);
+  }
+}
+
+/**
+ * Latest run left unfinished by a reload or closed tab, if any
+ */
+export async function getInterruptedRun(): Promise<AnalysisRun | null> {
+  try {
+    const runs = await idbGetAll<AnalysisRun>(STORE);
+    if (runs.length === 0) return null;
+    return runs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+  } catch (error) {
+    console.error('💾 [Analysis Runs] Failed to load interrupted runs:', error);
+    return null;
+  }
+}
+
+export async function discardInterruptedRuns(): Promise<void> {
+  try {
+    const runs = await idbGetAll<AnalysisRun>(STORE);
+    await Promise.all(runs.map(run => idbDelete(STORE, run.id)));
+  } catch (error) {
+    console.error('💾 [Analysis Runs] Failed to discard runs:', error);
+  }
+}
+
+export function summarizeRunProgress(run: AnalysisRun): RunProgressSummary {
+  const statuses = Object.values(run.companyStatus);
+  return {
+    total: statuses.length,
+    completed: statuses.filter(status => status === 'completed').length,
+    failed: statuses.filter(status => status === 'failed').length,
+    pending: statuses.filter(status => status === 'pending').length
+  };
+}
+
+/**
+ * Companies still to analyze when resuming (failed ones are retried)
+ */
+export function getCompaniesToResume(run: AnalysisRun): AnalyzedCompanyData[] {
+  return run.companies.filter(company => run.companyStatus[company.id] !== 'completed');
+}
@@ -0,0 +1,158 @@
+/**
+ * Declared schema for the analysis JSON returned by the LLM
+ * Every field is validated; failures are reported as readable "path: message" issues
+ */
+import { z } from 'zod';
+
+export const RECOMMENDATION_TYPES = [
+  'Invest',
+  'Double Down',
+  'Pro-rata',
+  'Bridge',
+  'Monitor',
+  'Hold',
+  'Exit',
+  'Pass'
+] as const;
+
+export const TIMING_BUCKETS = [
+  'Double Down',
+  'Conditional Investment (Pending Market Validation)',
+  'Bridge Pending Validation',
+  'Wait for Better Entry',
+  'Reinvest when Efficiency Improves',
+  'Hold',
+  'Exit Opportunistically',
+  'Decline'
+] as const;
+
+export type RecommendationType = typeof RECOMMENDATION_TYPES[number];
+export type TimingBucket = typeof TIMING_BUCKETS[number];
+
+export type ValidationStatus = 'valid' | 'repaired' | 'failed';
+
+const requiredText = z.string().trim().min(1, 'must not be empty');
+
+export const llmAnalysisSchema = z.object({
+  recommendationType: z.enum(RECOMMENDATION_TYPES),
+  recommendation: requiredText,
+  timingBucket: z.enum(TIMING_BUCKETS),
+  reasoning: requiredText,
+  // Models often quote numbers; "4" is accepted, 4.5 or "high" are not
+  confidence: z.coerce.number().int('must be a whole number').min(1).max(5),
+  keyRisks: requiredText,
+  suggestedAction: requiredText,
+  projectedExitValueRange: requiredText,
+  riskAdjustedMonetizationSummary: requiredText,
+  executiveSummary: z.object({
+    valuationAssessment: requiredText,
+    capitalEfficiency: requiredText,
+    marketValidation: requiredText,
+    executionRisk: requiredText,
+    recommendedAction: requiredText
+  }),
+  externalSources: z.string(),
+  externalInsights: z.object({
+    marketContext: z.array(z.string()),
+    competitivePosition: z.array(z.string()),
+    fundingEnvironment: z.array(z.string()),
+    industryTrends: z.array(z.string())
+  }),
+  sourceAttributions: z.array(z.string())
+});
+
+// Spelled out because z.infer marks every field optional when strictNullChecks is off
+export interface LLMAnalysis {
+  recommendationType: RecommendationType;
+  recommendation: string;
+  timingBucket: TimingBucket;
+  reasoning: string;
+  confidence: number;
+  keyRisks: string;
+  suggestedAction: string;
+  projectedExitValueRange: string;
+  riskAdjustedMonetizationSummary: string;
+  executiveSummary: {
+    valuationAssessment: string;
+    capitalEfficiency: string;
+    marketValidation: string;
+    executionRisk: string;
+    recommendedAction: string;
+  };
+  externalSources: string;
+  externalInsights: {
+    marketContext: string[];
+    competitivePosition: string[];
+    fundingEnvironment: string[];
+    industryTrends: string[];
+  };
+  sourceAttributions: string[];
+}
+
+// Data is null whenever issues were found
+export interface AnalysisParseResult {
+  data: LLMAnalysis | null;
+  issues: string[];
+}
+
+// Raised when the response still fails validation after the repair round-trip
+export interface AnalysisValidationError extends Error {
+  validationIssues: string[];
+}
+
+export function createAnalysisValidationError(message: string, validationIssues: string[]): AnalysisValidationError {
+  return Object.assign(new Error(message), { validationIssues });
+}
+
+export function isAnalysisValidationError(error: unknown): error is AnalysisValidationError {
+  return error instanceof Error && 'validationIssues' in error;
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  const path = issue.path.length > 0 ? issue.path.join('.') : 'response';
+  return `${path}: ${issue.message}`;
+}
+
+function extractJson(content: string): unknown {
+  try {
+    return JSON.parse(content.trim());
+  } catch {
+    // Local models sometimes wrap the object in prose or code fences even in JSON mode
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error('no JSON object found in response');
+    return JSON.parse(jsonMatch[0]);
+  }
+}
+
+/**
+ * Parses and validates a raw completion against the analysis schema
+ */
+export function parseAnalysisResponse(content: string): AnalysisParseResult {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch (error) {
+    return { data: null, issues: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const result = llmAnalysisSchema.safeParse(json);
+  if (!result.success) {
+    return { data: null, issues: result.error.issues.map(formatIssue) };
+  }
+  return { data: result.data as LLMAnalysis, issues: [] };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous response
+ */
+export function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required JSON schema. Fix these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Allowed values:
+- recommendationType: ${RECOMMENDATION_TYPES.map(type => `"${type}"`).join(', ')}
+- timingBucket: ${TIMING_BUCKETS.map(bucket => `"${bucket}"`).join(', ')}
+- confidence: integer from 1 to 5
+
+Return the complete corrected JSON object only, with every field present and no text outside the object. Keep it concise enough to fit the token limit.`;
+}
@@ -1,4 +1,4 @@
-import { AnalyzedCompanyData } from '@/pages/Dashboard';
+import { AnalyzedCompanyData } from '@/utils/openaiAnalysis';
 
 export interface ChartDataPoint {
   name: string;
@@ -100,4 +100,93 @@ export function calculateCapitalEfficiency(companies: AnalyzedCompanyData[]): Ef
     })
     .sort((a, b) => b.efficiency - a.efficiency)
     .slice(0, 10); // Top 10 most efficient
-}
\ No newline at end of file
+}
+
+export interface CredibilityScoreData {
+  name: string;
+  market: number;
+  capital: number;
+  execution: number;
+  average: number;
+  data: AnalyzedCompanyData;
+}
+
+// Collect the three deterministic credibility scores for analyzed companies
+export function processCredibilityScores(companies: AnalyzedCompanyData[]): CredibilityScoreData[] {
+  return companies
+    .filter(company => 
+      company.marketCredibilityScore !== undefined &&
+      company.capitalEfficiencyScore !== undefined &&
+      company.executionCredibilityScore !== undefined &&
+      !company.insufficientData
+    )
+    .map(company => ({
+      name: company.companyName,
+      market: Math.round(company.marketCredibilityScore!),
+      capital: Math.round(company.capitalEfficiencyScore!),
+      execution: Math.round(company.executionCredibilityScore!),
+      average: Math.round((company.marketCredibilityScore! + company.capitalEfficiencyScore! + company.executionCredibilityScore!) / 3),
+      data: company
+    }))
+    .sort((a, b) => b.average - a.average)
+    .slice(0, 10); // Top 10 by average score
+}
+
+export interface FundSummary {
+  fund: string;
+  companyCount: number;
+  totalInvested: number;
+  totalRequested: number;
+  avgMOIC: number | null;
+  weightedMOIC: number | null; // MOIC weighted by invested capital
+  analyzedCount: number;
+}
+
+// Aggregate portfolio metrics per source sheet (one sheet per fund or vintage)
+export function aggregateByFund(companies: AnalyzedCompanyData[]): FundSummary[] {
+  const groups = new Map<string, AnalyzedCompanyData[]>();
+  companies.forEach(company => {
+    const fund = company.sourceSheet || 'Unassigned';
+    groups.set(fund, [...(groups.get(fund) || []), company]);
+  });
+
+  return [...groups.entries()].map(([fund, fundCompanies]) => {
+    const withMOIC = fundCompanies.filter(company => company.moic !== null && company.moic !== undefined);
+    const investedWithMOIC = withMOIC.reduce((sum, company) => sum + (company.totalInvestment || 0), 0);
+
+    return {
+      fund,
+      companyCount: fundCompanies.length,
+      totalInvested: fundCompanies.reduce((sum, company) => sum + (company.totalInvestment || 0), 0),
+      totalRequested: fundCompanies.reduce((sum, company) => sum + (company.additionalInvestmentRequested || 0), 0),
+      avgMOIC: withMOIC.length > 0 ? withMOIC.reduce((sum, company) => sum + company.moic!, 0) / withMOIC.length : null,
+      weightedMOIC: investedWithMOIC > 0
+        ? withMOIC.reduce((sum, company) => sum + company.moic! * (company.totalInvestment || 0), 0) / investedWithMOIC
+        : null,
+      analyzedCount: fundCompanies.filter(company => company.recommendation).length
+    };
+  });
+}
+
+export interface PortfolioMetrics {
+  totalPortfolioValue: number;
+  totalRequested: number;
+  avgMOIC: number; // 0 when no company reports a MOIC
+  highRiskCount: number; // Confidence of 2 or lower
+}
+
+// Headline figures behind the dashboard summary cards and the LP report
+export function calculatePortfolioMetrics(companies: AnalyzedCompanyData[]): PortfolioMetrics {
+  const totalPortfolioValue = companies.reduce((sum, company) => sum + (company.totalInvestment || 0), 0);
+  const totalRequested = companies.reduce((sum, company) => sum + (company.additionalInvestmentRequested || 0), 0);
+  const validMOICs = companies.filter(company => company.moic !== null && company.moic !== undefined);
+  const avgMOIC = validMOICs.length > 0 ? validMOICs.reduce((sum, company) => sum + company.moic!, 0) / validMOICs.length : 0;
+  const highRiskCount = companies.filter(company => company.confidence && company.confidence <= 2).length;
+
+  return {
+    totalPortfolioValue,
+    totalRequested,
+    avgMOIC,
+    highRiskCount
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Future financing rounds between now and exit. From the company's stage, runway and burn, projects when
+ * the next rounds land and how much each dilutes, optionally with pro-rata participation that holds our
+ * ownership at the cost of follow-on capital
+ */
+import { CompanyData } from './openaiAnalysis';
+import { loadSettings, saveSettings } from './settingsStorage';
+
+export type FundingRound = 'seed' | 'seriesA' | 'seriesB' | 'seriesC' | 'seriesD' | 'late';
+
+export interface DilutionSettings {
+  roundDilution: Record<FundingRound, number>; // Share of the company sold in a typical round
+  monthsBetweenRounds: number;
+  defaultRunwayMonths: number; // Until the next round when the sheet has no runway
+  dilutionVariance: number; // Simulated paths scale each round's dilution within ± this fraction
+  proRata: boolean; // Buy our share of every round to hold ownership
+}
+
+export interface ProjectedRound {
+  round: FundingRound;
+  label: string;
+  monthsFromNow: number;
+  dilution: number; // Typical dilution for the round, before the simulated scale
+  size: number | null; // Estimated raise; null when neither burn (reported or estimated) nor valuation is known
+}
+
+export interface DilutionPlan {
+  currentRound: FundingRound | null; // Null when the stage was not recognized
+  rounds: ProjectedRound[]; // Up to the latest simulated exit
+  proRata: boolean;
+}
+
+const DILUTION_SETTINGS_STORAGE_KEY = 'dilution_settings';
+
+export const FUNDING_ROUNDS: { key: FundingRound; label: string }[] = [
+  { key: 'seed', label: 'Seed' },
+  { key: 'seriesA', label: 'Series A' },
+  { key: 'seriesB', label: 'Series B' },
+  { key: 'seriesC', label: 'Series C' },
+  { key: 'seriesD', label: 'Series D' },
+  { key: 'late', label: 'Series E+' }
+];
+
+export const DEFAULT_DILUTION_SETTINGS: DilutionSettings = {
+  roundDilution: { seed: 0.2, seriesA: 0.2, seriesB: 0.15, seriesC: 0.12, seriesD: 0.1, late: 0.08 },
+  monthsBetweenRounds: 24,
+  defaultRunwayMonths: 18,
+  dilutionVariance: 0.3,
+  proRata: false
+};
+
+// Rounds saved before one was added keep its default dilution
+export function getDilutionSettings(): DilutionSettings {
+  return loadSettings(
+    DILUTION_SETTINGS_STORAGE_KEY,
+    () => ({ ...DEFAULT_DILUTION_SETTINGS, roundDilution: { ...DEFAULT_DILUTION_SETTINGS.roundDilution } }),
+    (defaults, stored) => ({ ...defaults, ...stored, roundDilution: { ...defaults.roundDilution, ...stored.roundDilution } })
+  );
+}
+
+export function saveDilutionSettings(settings: DilutionSettings): void {
+  saveSettings(DILUTION_SETTINGS_STORAGE_KEY, settings);
+  console.log(`🪙 [Dilution] Saved settings: rounds every ${settings.monthsBetweenRounds} months, pro-rata ${settings.proRata ? 'on' : 'off'}`);
+}
+
+/**
+ * A round cannot sell all of the company, and rounds closer than six months apart would stack dilution
+ * faster than any real financing cadence
+ */
+export function getDilutionSettingsIssues(settings: DilutionSettings): string[] {
+  const issues: string[] = [];
+  if (!Object.values(settings.roundDilution).every(dilution => dilution >= 0 && dilution < 1)) {
+    issues.push('Round dilution must be between 0% and 100%');
+  }
+  if (!(settings.monthsBetweenRounds >= 6)) issues.push('Rounds must be at least 6 months apart');
+  if (!(settings.defaultRunwayMonths > 0)) issues.push('Default runway must be above zero');
+  if (!(settings.dilutionVariance >= 0) || !(settings.dilutionVariance < 1)) {
+    issues.push('Dilution variance must be between 0% and 100%');
+  }
+  return issues;
+}
+
+/**
+ * Last round the company has raised, from the sheet's Series/Stage
+ */
+export function getCurrentRound(seriesStage: string | null | undefined): FundingRound | null {
+  const stage = (seriesStage || '').toLowerCase().trim();
+  if (/seed|angel/.test(stage)) return 'seed';
+  const letter = stage.match(/series\s*([a-z])\b/)?.[1] || stage.match(/^([a-z])\d?$/)?.[1];
+  if (letter) {
+    const index = letter.charCodeAt(0) - 'a'.charCodeAt(0) + 1;
+    return FUNDING_ROUNDS[Math.min(index, FUNDING_ROUNDS.length - 1)].key;
+  }
+  if (/growth|late|pre-?ipo|mezzanine/.test(stage)) return 'late';
+  return null;
+}
+
+/**
+ * Monthly net burn. Spreadsheets rarely carry it, so without one it is backed out of the burn multiple
+ * (net burn / net new revenue) and the last year's revenue added; null when neither is known
+ */
+export function estimateMonthlyBurn(company: CompanyData): number | null {
+  if (company.monthlyBurn > 0) return company.monthlyBurn;
+  if (!(company.burnMultiple > 0)) return null;
+
+  const current = company.currentARR || company.arr || company.currentRevenue || company.revenue || 0;
+  const growth = company.revenueGrowth ?? company.yoyGrowthPercent;
+  const netNewRevenue = company.revenueYearMinus1 > 0
+    ? current - company.revenueYearMinus1
+    : growth > 0 ? current * growth / (100 + growth) : 0;
+  return netNewRevenue > 0 ? company.burnMultiple * netNewRevenue / 12 : null;
+}
+
+/**
+ * Rounds expected within the horizon. The first lands when the runway runs out and the rest follow at the
+ * configured interval; an unrecognized stage is treated as seed. Round sizes come from burn over the
+ * interval, or failing that from dilution at today's valuation
+ */
+export function projectFundingRounds(
+  company: CompanyData,
+  horizonYears: number,
+  settings: DilutionSettings = getDilutionSettings()
+): DilutionPlan {
+  const currentRound = getCurrentRound(company.seriesStage);
+  const startIndex = FUNDING_ROUNDS.findIndex(round => round.key === (currentRound || 'seed'));
+  const valuation = company.postMoneyValuation || company.currentValuation || company.preMoneyValuation || 0;
+  const monthlyBurn = estimateMonthlyBurn(company);
+  const rounds: ProjectedRound[] = [];
+
+  let month = company.runway > 0 ? company.runway : settings.defaultRunwayMonths;
+  for (let index = startIndex + 1; month <= horizonYears * 12; index++, month += settings.monthsBetweenRounds) {
+    const { key, label } = FUNDING_ROUNDS[Math.min(index, FUNDING_ROUNDS.length - 1)];
+    const dilution = settings.roundDilution[key];
+    const size = monthlyBurn !== null
+      ? monthlyBurn * settings.monthsBetweenRounds
+      : valuation > 0 && dilution < 1 ? valuation * dilution / (1 - dilution) : null;
+    rounds.push({ round: key, label, monthsFromNow: month, dilution, size });
+  }
+
+  return { currentRound, rounds, proRata: settings.proRata };
+}
+
+// "Series B at 18 mo (15%) → Series C at 42 mo (12%), pro-rata"
+export function describeDilutionPlan(plan: DilutionPlan): string {
+  if (plan.rounds.length === 0) return 'No further rounds projected before exit';
+  const rounds = plan.rounds.map(round => `${round.label} at ${Math.round(round.monthsFromNow)} mo (${(round.dilution * 100).toFixed(0)}%)`);
+  if (!plan.proRata) return rounds.join(' → ');
+
+  // Unsized rounds dilute as if pro-rata were off
+  const unsized = plan.rounds.filter(round => round.size === null).map(round => round.label);
+  const proRata = unsized.length === 0
+    ? 'pro-rata'
+    : unsized.length === plan.rounds.length
+      ? 'pro-rata not applied: round sizes unknown without burn, burn multiple or valuation'
+      : `pro-rata except ${unsized.join(', ')} (size unknown)`;
+  return `${rounds.join(' → ')}, ${proRata}`;
+}
@@ -0,0 +1,236 @@
+/**
+ * Writes the analyzed portfolio back to an Excel workbook: the imported input columns followed by the
+ * analysis results, with number formats and the same good / caution / risk coloring as the analysis table.
+ * A second sheet itemizes the points behind each credibility score
+ */
+import * as XLSX from 'xlsx';
+import { CURRENCY_FIELDS, MAPPABLE_FIELDS, MappableField } from './excelParser';
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { classifyRecommendation } from './rulesAnalysis';
+import { calculateReturnMetrics } from './returnMetrics';
+import { formatScoringModelVersion, SCORE_CATEGORIES } from './scoringModel';
+import { listDefaultedFactors } from './scoring';
+import { downloadFile } from './fileDownload';
+
+type CellValue = string | number | null;
+type Tone = 'good' | 'caution' | 'risk' | null;
+
+interface ExportColumn {
+  header: string;
+  width: number; // Characters
+  format: string | null; // Excel number format; null for plain text
+  value: (company: AnalyzedCompanyData) => CellValue;
+  tone?: (company: AnalyzedCompanyData) => Tone;
+}
+
+// SheetJS community edition does not write fills or fonts, so coloring uses number format color codes
+// (Excel palette: 10 is dark green, 46 is orange), chosen per cell from the same thresholds as the UI badges
+const TONE_COLORS: Record<Exclude<Tone, null>, string> = {
+  good: '[Color10]',
+  caution: '[Color46]',
+  risk: '[Red]'
+};
+
+const FORMATS = {
+  currency: '"$"#,##0',
+  percent: '0.0"%"', // Percentages are stored as whole numbers (25 = 25%)
+  probability: '0%', // Scenario probabilities are stored as fractions
+  rate: '0.0%', // IRRs are stored as fractions
+  multiple: '0.00"x"',
+  rating: '0"/5"',
+  score: '0"/100"',
+  number: '0.0',
+  text: '@'
+};
+
+const INPUT_FORMATS: Partial<Record<MappableField, string>> = {
+  equityStake: FORMATS.percent,
+  revenueGrowth: FORMATS.percent,
+  projectedRevenueGrowth: FORMATS.percent,
+  moic: FORMATS.multiple,
+  burnMultiple: FORMATS.multiple,
+  tam: FORMATS.rating,
+  barrierToEntry: FORMATS.rating,
+  investorInterest: FORMATS.rating,
+  roundComplexity: FORMATS.rating,
+  runway: FORMATS.number,
+  exitTimeline: FORMATS.number
+};
+
+// Same thresholds as the badges in AnalysisTable
+const INPUT_TONES: Partial<Record<MappableField, (company: AnalyzedCompanyData) => Tone>> = {
+  projectedRevenueGrowth: ({ projectedRevenueGrowth: growth }) =>
+    growth === null || growth === undefined ? null : growth >= 100 ? 'good' : growth >= 50 ? 'caution' : growth < 25 ? 'risk' : null,
+  investorInterest: ({ investorInterest: interest }) =>
+    !interest ? null : interest >= 4 ? 'good' : interest >= 3 ? 'caution' : 'risk',
+  roundComplexity: ({ roundComplexity: complexity }) =>
+    !complexity ? null : complexity <= 2 ? 'risk' : complexity === 3 ? 'caution' : 'good'
+};
+
+function confidenceTone({ confidence }: AnalyzedCompanyData): Tone {
+  if (!confidence) return null;
+  return confidence >= 4 ? 'good' : confidence >= 2 ? 'caution' : 'risk';
+}
+
+function recommendationTone({ recommendation, recommendationType }: AnalyzedCompanyData): Tone {
+  switch (classifyRecommendation(recommendation, recommendationType)) {
+    case 'invest': return 'good';
+    case 'hold': return 'caution';
+    case 'pass':
+    case 'exit': return 'risk';
+    default: return null;
+  }
+}
+
+function irrTone(company: AnalyzedCompanyData): Tone {
+  const irr = calculateReturnMetrics(company)?.expectedIrr;
+  if (irr === null || irr === undefined) return null;
+  return irr >= 0.25 ? 'good' : irr >= 0 ? 'caution' : 'risk';
+}
+
+function trajectoryTone({ revenueTrajectoryScore: score }: AnalyzedCompanyData): Tone {
+  if (score === null || score === undefined) return null;
+  return score >= 4 ? 'good' : score >= 3 ? 'caution' : score < 2 ? 'risk' : null;
+}
+
+function toCellValue(value: unknown): CellValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+function joinList(values: string[] | undefined): string | null {
+  return values && values.length > 0 ? values.join('; ') : null;
+}
+
+function buildInputColumns(companies: AnalyzedCompanyData[]): ExportColumn[] {
+  // Only fields the workbook actually supplied, so the sheet mirrors the uploaded columns
+  const columns: ExportColumn[] = MAPPABLE_FIELDS
+    .filter(({ field }) => field === 'companyName' || companies.some(company => toCellValue(company[field]) !== null))
+    .map(({ field, label }) => ({
+      header: label,
+      width: field === 'companyName' ? 28 : Math.max(12, label.length + 2),
+      format: CURRENCY_FIELDS.includes(field) ? FORMATS.currency : INPUT_FORMATS[field] || null,
+      value: company => toCellValue(company[field]),
+      tone: INPUT_TONES[field]
+    }));
+
+  if (companies.some(company => company.sourceSheet)) {
+    columns.splice(1, 0, { header: 'Fund / Sheet', width: 16, format: null, value: company => toCellValue(company.sourceSheet) });
+  }
+  columns.push(
+    { header: 'Existing Investment', width: 12, format: null, value: company => toCellValue(company.isExistingInvestment) },
+    { header: 'Revenue Trajectory (0-5)', width: 14, format: '0.0"/5"', value: company => toCellValue(company.revenueTrajectoryScore), tone: trajectoryTone }
+  );
+  return columns;
+}
+
+const SCENARIO_KEYS = ['bear', 'base', 'bull'] as const;
+
+const RESULT_COLUMNS: ExportColumn[] = [
+  { header: 'Recommendation', width: 40, format: FORMATS.text, value: company => toCellValue(company.recommendation), tone: recommendationTone },
+  { header: 'Recommendation Type', width: 18, format: null, value: company => toCellValue(company.recommendationType) },
+  { header: 'Timing Bucket', width: 24, format: null, value: company => toCellValue(company.timingBucket) },
+  { header: 'Confidence (1-5)', width: 12, format: FORMATS.rating, value: company => toCellValue(company.confidence), tone: confidenceTone },
+  { header: 'Market Credibility', width: 12, format: FORMATS.score, value: company => toCellValue(company.marketCredibilityScore) },
+  { header: 'Capital Efficiency', width: 12, format: FORMATS.score, value: company => toCellValue(company.capitalEfficiencyScore) },
+  { header: 'Execution Credibility', width: 12, format: FORMATS.score, value: company => toCellValue(company.executionCredibilityScore) },
+  { header: 'Scoring Model', width: 22, format: null, value: company => company.recommendation ? formatScoringModelVersion(company.scoringModelVersion) : null },
+  { header: 'Scored on Defaults', width: 30, format: null, value: company => company.scoreBreakdown ? joinList(listDefaultedFactors(company.scoreBreakdown)) : null },
+  ...SCENARIO_KEYS.flatMap((key): ExportColumn[] => {
+    const label = `${key[0].toUpperCase()}${key.slice(1)}`;
+    return [
+      { header: `${label} MOIC`, width: 10, format: FORMATS.multiple, value: company => toCellValue(company.scenarios?.[key].moic) },
+      { header: `${label} Probability`, width: 10, format: FORMATS.probability, value: company => toCellValue(company.scenarios?.[key].probability) },
+      { header: `${label} IRR`, width: 10, format: FORMATS.rate, value: company => toCellValue(calculateReturnMetrics(company)?.scenarios[key].irr) }
+    ];
+  }),
+  { header: 'Current TVPI', width: 10, format: FORMATS.multiple, value: company => toCellValue(calculateReturnMetrics(company)?.currentTvpi) },
+  { header: 'Current DPI', width: 10, format: FORMATS.multiple, value: company => toCellValue(calculateReturnMetrics(company)?.currentDpi) },
+  { header: 'Expected MOIC', width: 10, format: FORMATS.multiple, value: company => toCellValue(calculateReturnMetrics(company)?.expectedMoic) },
+  { header: 'Expected IRR', width: 10, format: FORMATS.rate, value: company => toCellValue(calculateReturnMetrics(company)?.expectedIrr), tone: irrTone },
+  { header: 'Risk-Adj. Annual Return', width: 12, format: FORMATS.rate, value: company => toCellValue(calculateReturnMetrics(company)?.annualizedRiskAdjustedReturn) },
+  { header: 'Data Quality Warnings', width: 40, format: null, value: company => joinList(company.dataQualityWarnings) },
+  { header: 'External Sources', width: 40, format: null, value: company => toCellValue(company.externalSources) },
+  { header: 'Source Attributions', width: 40, format: null, value: company => joinList(company.sourceAttributions) }
+];
+
+function cellFormat(column: ExportColumn, company: AnalyzedCompanyData): string | null {
+  const tone = column.tone?.(company);
+  if (!tone) return column.format;
+  return `${TONE_COLORS[tone]}${column.format || FORMATS.text}`;
+}
+
+// One row per company, score and factor
+function buildScoreBreakdownSheet(companies: AnalyzedCompanyData[]): XLSX.WorkSheet {
+  const rows: CellValue[][] = [['Company', 'Score', 'Factor', 'Input', 'Points', 'Max Points', 'Basis']];
+  companies.filter(company => company.scoreBreakdown).forEach(company => {
+    SCORE_CATEGORIES.forEach(({ key, label }) => {
+      company.scoreBreakdown[key].factors.forEach(factor => {
+        rows.push([
+          company.companyName,
+          label,
+          factor.label,
+          toCellValue(factor.input),
+          factor.excluded ? null : factor.points,
+          factor.maxPoints,
+          factor.excluded ? 'Excluded (missing)' : factor.usedDefault ? 'Default' : 'Reported'
+        ]);
+      });
+    });
+  });
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  rows.slice(1).forEach((_, index) => {
+    [4, 5].forEach(column => {
+      const cell = sheet[XLSX.utils.encode_cell({ r: index + 1, c: column })];
+      if (cell) cell.z = FORMATS.number;
+    });
+  });
+  sheet['!cols'] = [30, 22, 24, 18, 8, 10, 18].map(wch => ({ wch }));
+  sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: 6 } }) };
+  return sheet;
+}
+
+export function buildPortfolioWorkbook(companies: AnalyzedCompanyData[]): XLSX.WorkBook {
+  const columns = [...buildInputColumns(companies), ...RESULT_COLUMNS];
+  const rows: CellValue[][] = [
+    columns.map(column => column.header),
+    ...companies.map(company => columns.map(column => column.value(company)))
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+
+  companies.forEach((company, rowIndex) => {
+    columns.forEach((column, columnIndex) => {
+      const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex })];
+      const format = cellFormat(column, company);
+      if (cell && format) cell.z = format;
+    });
+  });
+
+  sheet['!cols'] = columns.map(column => ({ wch: column.width }));
+  sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: companies.length, c: columns.length - 1 } }) };
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Portfolio Analysis');
+  if (companies.some(company => company.scoreBreakdown)) {
+    XLSX.utils.book_append_sheet(workbook, buildScoreBreakdownSheet(companies), 'Score Breakdown');
+  }
+  return workbook;
+}
+
+/**
+ * Downloads the portfolio as <upload name>-analysis.xlsx
+ */
+export function exportPortfolioToExcel(companies: AnalyzedCompanyData[], sourceFileName: string) {
+  const workbook = buildPortfolioWorkbook(companies);
+  const data: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const baseName = sourceFileName.replace(/\.[^.]+$/, '') || 'portfolio';
+
+  downloadFile(
+    new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${baseName}-analysis.xlsx`
+  );
+  console.log(`📤 [Excel Export] Wrote ${companies.length} companies to ${baseName}-analysis.xlsx`);
+}
@@ -1,6 +1,10 @@
 
 import * as XLSX from 'xlsx';
 import { enhanceCompanyWithAnalytics } from './revenueAnalytics';
+import { findMatchingProfile, MappingProfile, normalizeHeader } from './mappingProfiles';
+import { readSpreadsheetFile, SpreadsheetFormat } from './spreadsheetReader';
+import { detectValueUnit, UNIT_MULTIPLIERS, ValueUnit, validateRevenueAmount } from './numberFormatting';
+import { findDuplicateCompanyIssues, ImportIssue, ImportReport } from './importReport';
 
 export interface RawCompanyData {
   id: string;
@@ -42,6 +46,7 @@ export interface RawCompanyData {
   forwardCAGR2Y: number | null;
   forwardRevenueMultiple: number | null;
   revenueTrajectoryScore: number | null; // 0-5 scale
+  sourceSheet?: string; // Workbook sheet (fund or vintage) the row was imported from
 }
 
 // Updated column mapping with exact headers from Excel
@@ -214,8 +219,92 @@ const KEYWORD_MAPPINGS: { [key: string]: string[] } = {
   'amountRequestedFromFirm': ['amount', 'requested', 'firm', 'portion', 'investment', 'our']
 };
 
+// Target fields a spreadsheet column can be mapped to, with labels for the mapping review screen
+export const MAPPABLE_FIELDS = [
+  { field: 'companyName', label: 'Company Name' },
+  { field: 'totalInvestment', label: 'Total Investment' },
+  { field: 'equityStake', label: 'Equity Stake %' },
+  { field: 'moic', label: 'MOIC' },
+  { field: 'revenueGrowth', label: 'TTM Revenue Growth' },
+  { field: 'projectedRevenueGrowth', label: 'Projected Revenue Growth' },
+  { field: 'burnMultiple', label: 'Burn Multiple' },
+  { field: 'runway', label: 'Runway (Months)' },
+  { field: 'tam', label: 'TAM Rating (1-5)' },
+  { field: 'exitActivity', label: 'Exit Activity in Sector' },
+  { field: 'barrierToEntry', label: 'Barrier to Entry (1-5)' },
+  { field: 'additionalInvestmentRequested', label: 'Additional Investment Requested' },
+  { field: 'industry', label: 'Industry' },
+  { field: 'investorInterest', label: 'Investor Interest (1-5)' },
+  { field: 'preMoneyValuation', label: 'Pre-Money Valuation' },
+  { field: 'postMoneyValuation', label: 'Post-Money Valuation' },
+  { field: 'roundComplexity', label: 'Round Complexity (1-5)' },
+  { field: 'exitTimeline', label: 'Exit Timeline (Years)' },
+  { field: 'revenue', label: 'Revenue' },
+  { field: 'arr', label: 'ARR' },
+  { field: 'caEquityValuation', label: 'CA Equity Valuation' },
+  { field: 'seriesStage', label: 'Series/Stage' },
+  { field: 'totalRaiseRequest', label: 'Total Raise Request' },
+  { field: 'amountRequestedFromFirm', label: 'Amount Requested from Firm' },
+  { field: 'revenueYearMinus2', label: 'Revenue Year -2' },
+  { field: 'revenueYearMinus1', label: 'Revenue Year -1' },
+  { field: 'currentRevenue', label: 'Current Revenue' },
+  { field: 'projectedRevenueYear1', label: 'Projected Revenue Year +1' },
+  { field: 'projectedRevenueYear2', label: 'Projected Revenue Year +2' },
+  { field: 'currentARR', label: 'Current ARR' }
+] as const;
+
+export type MappableField = typeof MAPPABLE_FIELDS[number]['field'];
+
+export const ESSENTIAL_FIELDS: MappableField[] = ['companyName', 'totalInvestment', 'equityStake'];
+
+// How a column ended up mapped to its field
+export type MatchType = 'exact' | 'keyword' | 'profile' | 'manual' | 'unmapped' | 'ignored';
+
+// Where a currency column's unit came from
+export type UnitSource = 'detected' | 'default' | 'profile' | 'manual';
+
+export interface ColumnMappingDecision {
+  columnIndex: number;
+  header: string;
+  field: MappableField | null;
+  matchType: MatchType;
+  confidence: number; // 0-1
+  warnings: string[];
+  unit: ValueUnit | null; // Only set for currency fields; values are rescaled to dollars on import
+  unitConfidence: number; // 0-1
+  unitSource: UnitSource | null;
+}
+
+// Fields holding dollar amounts that go through unit detection
+export const CURRENCY_FIELDS: MappableField[] = [
+  'totalInvestment', 'additionalInvestmentRequested', 'preMoneyValuation', 'postMoneyValuation',
+  'revenue', 'arr', 'caEquityValuation', 'totalRaiseRequest', 'amountRequestedFromFirm',
+  'revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2', 'currentARR'
+];
+
+// Template convention when neither the header nor the values reveal the unit
+const DEFAULT_FIELD_UNITS: Partial<Record<MappableField, ValueUnit>> = {
+  totalInvestment: 'thousands',
+  caEquityValuation: 'thousands'
+};
+
+// A detected unit is applied automatically only above this confidence. Header evidence clears it; value-range
+// guesses do not, since small numbers are as likely thousands as millions
+const MIN_UNIT_CONFIDENCE = 0.7;
+
+interface FieldMatch {
+  header: string;
+  matchType: MatchType;
+  confidence: number;
+}
+
+export function getFieldLabel(field: MappableField | null): string {
+  if (!field) return 'Not mapped';
+  return MAPPABLE_FIELDS.find(option => option.field === field)?.label || field;
+}
+
 // Improved fuzzy matching function
-function findBestMatch(target: string, options: string[]): string | null {
+function findBestMatch(target: string, options: string[]): FieldMatch | null {
   const normalize = (str: string) => {
     if (!str || typeof str !== 'string') return '';
     return str.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -228,7 +317,7 @@ function findBestMatch(target: string, options: string[]): string | null {
     if (!option || typeof option !== 'string') continue;
     if (normalize(option) === normalizedTarget) {
       console.log(`Exact match found: "${option}" for "${target}"`);
-      return option;
+      return { header: option, matchType: 'exact', confidence: 0.95 };
     }
   }
   
@@ -238,7 +327,7 @@ function findBestMatch(target: string, options: string[]): string | null {
       if (!option || typeof option !== 'string') continue;
       if (normalize(option) === 'company') {
         console.log(`Direct company match found: "${option}" for "${target}"`);
-        return option;
+        return { header: option, matchType: 'exact', confidence: 0.95 };
       }
     }
   }
@@ -262,7 +351,9 @@ function findBestMatch(target: string, options: string[]): string | null {
       
       if (keywordMatches.length >= Math.min(2, keywords.length)) {
         console.log(`Keyword match found: "${option}" for "${target}" (matched: ${keywordMatches.join(', ')})`);
-        return option;
+        // Confidence reflects how much of the keyword set the header covers
+        const confidence = Math.min(0.9, 0.3 + (keywordMatches.length / keywords.length) * 0.6);
+        return { header: option, matchType: 'keyword', confidence: Math.round(confidence * 100) / 100 };
       }
     }
   }
@@ -271,9 +362,46 @@ function findBestMatch(target: string, options: string[]): string | null {
   return null;
 }
 
+/**
+ * Flags headers whose year offset disagrees with the revenue timeline field they are mapped to
+ */
+export function getMappingWarnings(header: string, field: MappableField | null): string[] {
+  const revenueTimelineFields: MappableField[] = ['revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2'];
+  if (!field || !revenueTimelineFields.includes(field)) return [];
+  
+  if ((header.includes('-2') && field !== 'revenueYearMinus2') ||
+      (header.includes('+2') && field !== 'projectedRevenueYear2') ||
+      (header.includes('-1') && field !== 'revenueYearMinus1') ||
+      (header.includes('+1') && field !== 'projectedRevenueYear1')) {
+    console.log(`🚨 POTENTIAL CROSS-MAPPING ISSUE: Header "${header}" mapped to field "${field}"`);
+    return [`Potential cross-mapping: header year offset does not match ${getFieldLabel(field)}`];
+  }
+  return [];
+}
+
+/**
+ * Fields mapped from more than one column (the last column wins when parsing)
+ */
+export function findDuplicateFieldAssignments(decisions: ColumnMappingDecision[]): MappableField[] {
+  const counts = new Map<MappableField, number>();
+  decisions.forEach(decision => {
+    if (decision.field && decision.matchType !== 'ignored') {
+      counts.set(decision.field, (counts.get(decision.field) || 0) + 1);
+    }
+  });
+  return [...counts.entries()].filter(([, count]) => count > 1).map(([field]) => field);
+}
+
+export function findMissingEssentialFields(decisions: ColumnMappingDecision[]): MappableField[] {
+  return ESSENTIAL_FIELDS.filter(field => 
+    !decisions.some(decision => decision.field === field && decision.matchType !== 'ignored')
+  );
+}
+
 // Create column mapping
-function createColumnMapping(headers: string[]): { [key: string]: string } {
-  const mapping: { [key: string]: string } = {};
+export function createColumnMapping(headers: string[]): ColumnMappingDecision[] {
+  const mapping: { [key: string]: MappableField } = {};
+  const matches: { [key: string]: FieldMatch } = {};
   
   const validHeaders = headers.filter(header => header && typeof header === 'string');
   console.log('Available headers:', validHeaders);
@@ -285,7 +413,8 @@ function createColumnMapping(headers: string[]): { [key: string]: string } {
     );
     
     if (exactMatch) {
-      mapping[exactMatch] = COLUMN_MAPPINGS[expectedColumn as keyof typeof COLUMN_MAPPINGS];
+      mapping[exactMatch] = COLUMN_MAPPINGS[expectedColumn as keyof typeof COLUMN_MAPPINGS] as MappableField;
+      matches[exactMatch] = { header: exactMatch, matchType: 'exact', confidence: 1 };
       console.log(`Exact mapping: "${exactMatch}" → "${COLUMN_MAPPINGS[expectedColumn as keyof typeof COLUMN_MAPPINGS]}"`);
       return;
     }
@@ -293,20 +422,124 @@ function createColumnMapping(headers: string[]): { [key: string]: string } {
   
   // Then try fuzzy matching for unmapped fields
   const mappedFields = Object.values(mapping);
-  const fieldsToMap = ['companyName', 'totalInvestment', 'equityStake', 'moic', 'revenueGrowth', 'projectedRevenueGrowth', 'burnMultiple', 'runway', 'tam', 'exitActivity', 'barrierToEntry', 'additionalInvestmentRequested', 'industry', 'investorInterest', 'preMoneyValuation', 'postMoneyValuation', 'roundComplexity', 'exitTimeline', 'revenue', 'arr', 'caEquityValuation', 'seriesStage', 'totalRaiseRequest', 'amountRequestedFromFirm', 'revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2', 'currentARR'];
+  const fieldsToMap = MAPPABLE_FIELDS.map(option => option.field);
   
   fieldsToMap.forEach(fieldName => {
     if (!mappedFields.includes(fieldName)) {
       const fuzzyMatch = findBestMatch(fieldName, validHeaders);
       if (fuzzyMatch) {
-        mapping[fuzzyMatch] = fieldName;
-        console.log(`Fuzzy mapping: "${fuzzyMatch}" → "${fieldName}"`);
+        mapping[fuzzyMatch.header] = fieldName;
+        matches[fuzzyMatch.header] = fuzzyMatch;
+        console.log(`Fuzzy mapping: "${fuzzyMatch.header}" → "${fieldName}"`);
       }
     }
   });
   
   console.log('Final column mapping:', mapping);
-  return mapping;
+  
+  // One decision per column so the analyst can review every detected header
+  const decisions: ColumnMappingDecision[] = [];
+  headers.forEach((header, columnIndex) => {
+    if (!header || typeof header !== 'string') return;
+    const field = mapping[header] || null;
+    decisions.push({
+      columnIndex,
+      header,
+      field,
+      matchType: field ? matches[header].matchType : 'unmapped',
+      confidence: field ? matches[header].confidence : 0,
+      warnings: getMappingWarnings(header, field),
+      unit: null,
+      unitConfidence: 0,
+      unitSource: null
+    });
+  });
+  
+  return decisions;
+}
+
+/**
+ * Maps columns with a saved profile, falling back to automatic matching for headers the profile has not seen
+ */
+export function applyMappingProfile(profile: MappingProfile, headers: string[]): ColumnMappingDecision[] {
+  const validFields = MAPPABLE_FIELDS.map(option => option.field) as MappableField[];
+  const automatic = createColumnMapping(headers);
+  
+  return automatic.map(decision => {
+    const key = normalizeHeader(decision.header);
+    if (!(key in profile.fieldMappings)) return decision;
+    
+    const field = profile.fieldMappings[key];
+    if (field === null) {
+      return { ...decision, field: null, matchType: 'ignored', confidence: 0, warnings: [] };
+    }
+    if (!validFields.includes(field)) {
+      console.log(`📋 [Mapping Profiles] Profile "${profile.name}" maps "${decision.header}" to unknown field "${field}", using automatic match`);
+      return decision;
+    }
+    const profileUnit = profile.columnUnits?.[key];
+    return {
+      ...decision,
+      field,
+      matchType: 'profile',
+      confidence: 1,
+      warnings: getMappingWarnings(decision.header, field),
+      ...(profileUnit && CURRENCY_FIELDS.includes(field)
+        ? { unit: profileUnit, unitConfidence: 1, unitSource: 'profile' as UnitSource }
+        : {})
+    };
+  });
+}
+
+function parseNumericCell(value: unknown): number | null {
+  if (value === undefined || value === null) return null;
+  const cleanValue = String(value).replace(/[$,\s%]/g, '');
+  if (cleanValue === '' || cleanValue === '-' || cleanValue === 'N/A') return null;
+  const parsedValue = parseFloat(cleanValue);
+  return isNaN(parsedValue) ? null : parsedValue;
+}
+
+/**
+ * Detects the unit of a currency column from its header text and value range
+ * Low-confidence detections fall back to the field's template default, otherwise raw dollars
+ */
+export function detectColumnUnit(
+  preview: Pick<SpreadsheetPreview, 'rows' | 'headerRowIndex'>,
+  decision: ColumnMappingDecision
+): Pick<ColumnMappingDecision, 'unit' | 'unitConfidence' | 'unitSource'> {
+  if (!decision.field || decision.matchType === 'ignored' || !CURRENCY_FIELDS.includes(decision.field)) {
+    return { unit: null, unitConfidence: 0, unitSource: null };
+  }
+  
+  const values: number[] = [];
+  for (let i = preview.headerRowIndex + 1; i < preview.rows.length; i++) {
+    const parsedValue = parseNumericCell(preview.rows[i]?.[decision.columnIndex]);
+    if (parsedValue !== null) values.push(parsedValue);
+  }
+  
+  const detection = detectValueUnit(values, decision.header);
+  if (detection.confidence > MIN_UNIT_CONFIDENCE) {
+    console.log(`💱 [Unit Detection] "${decision.header}" → ${detection.unit} (${Math.round(detection.confidence * 100)}%)`);
+    return { unit: detection.unit, unitConfidence: detection.confidence, unitSource: 'detected' };
+  }
+  
+  const fallbackUnit = DEFAULT_FIELD_UNITS[decision.field] || 'dollars';
+  console.log(`💱 [Unit Detection] "${decision.header}" inconclusive (${detection.unit}, ${Math.round(detection.confidence * 100)}%), using ${fallbackUnit}`);
+  return { unit: fallbackUnit, unitConfidence: detection.confidence, unitSource: 'default' };
+}
+
+/**
+ * Runs unit detection on every currency column, keeping units set by a profile or the analyst
+ */
+export function assignColumnUnits(
+  preview: Pick<SpreadsheetPreview, 'rows' | 'headerRowIndex'>,
+  decisions: ColumnMappingDecision[]
+): ColumnMappingDecision[] {
+  return decisions.map(decision => {
+    const keepUnit = (decision.unitSource === 'profile' || decision.unitSource === 'manual')
+      && decision.field && CURRENCY_FIELDS.includes(decision.field);
+    return keepUnit ? decision : { ...decision, ...detectColumnUnit(preview, decision) };
+  });
 }
 
 // Investment status detection function
@@ -319,320 +552,549 @@ function detectInvestmentStatus(totalInvestment: number, equityStake: number, ca
   return !isNewInvestment; // Return true for existing investments
 }
 
-export function parseExcelFile(file: File): Promise<RawCompanyData[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export interface SpreadsheetPreview {
+  fileName: string;
+  sheetName: string;
+  sheetIndex: number; // Position in the workbook; unlike the name, unique once slugged into ids
+  format: SpreadsheetFormat;
+  delimiter: string | null;
+  encoding: string | null;
+  headers: string[];
+  rows: unknown[][]; // Every row of the sheet, including the header row
+  headerRowIndex: number;
+  columnMappings: ColumnMappingDecision[];
+  mappingProfile: { id: string; name: string } | null; // Saved profile applied automatically, if any
+}
+
+export interface SpreadsheetImportResult {
+  companies: RawCompanyData[];
+  report: ImportReport;
+}
+
+export interface SpreadsheetParseResult extends SpreadsheetImportResult {
+  sheetName: string;
+  format: SpreadsheetFormat;
+  delimiter: string | null;
+  encoding: string | null;
+}
+
+/**
+ * Reads a spreadsheet and proposes a column mapping without converting any rows yet
+ */
+export async function loadSpreadsheetPreview(file: File): Promise<SpreadsheetPreview> {
+  const { workbook, format, delimiter, encoding } = await readSpreadsheetFile(file);
+  return {
+    fileName: file.name,
+    format,
+    delimiter,
+    encoding,
+    ...createSheetPreview(workbook)
+  };
+}
+
+export interface SheetCandidate {
+  sheetName: string;
+  preview: SpreadsheetPreview | null; // Null when the sheet has no usable header and data rows
+  containsCompanyTable: boolean; // Every essential field could be mapped automatically
+  dataRowCount: number;
+  reason: string;
+}
+
+export interface WorkbookPreview {
+  fileName: string;
+  format: SpreadsheetFormat;
+  delimiter: string | null;
+  encoding: string | null;
+  defaultSheetName: string;
+  sheets: SheetCandidate[];
+}
+
+/**
+ * Reads every sheet of a workbook and detects which ones hold a company table (one sheet per fund or vintage)
+ */
+export async function loadWorkbookPreview(file: File): Promise<WorkbookPreview> {
+  const { workbook, format, delimiter, encoding } = await readSpreadsheetFile(file);
+  
+  const sheets = workbook.SheetNames.map((sheetName): SheetCandidate => {
+    try {
+      const preview: SpreadsheetPreview = {
+        fileName: file.name,
+        format,
+        delimiter,
+        encoding,
+        ...createSheetPreviewForSheet(workbook, sheetName)
+      };
+      const dataRowCount = preview.rows
+        .slice(preview.headerRowIndex + 1)
+        .filter(row => row && row.some(cell => cell !== undefined && cell !== null && String(cell).trim() !== ''))
+        .length;
+      const missingEssentials = findMissingEssentialFields(preview.columnMappings);
+      const containsCompanyTable = missingEssentials.length === 0 && dataRowCount > 0;
+      
+      return {
+        sheetName,
+        preview,
+        containsCompanyTable,
+        dataRowCount,
+        reason: containsCompanyTable
+          ? `${dataRowCount} rows with company, investment and equity columns`
+          : `Missing columns: ${missingEssentials.map(getFieldLabel).join(', ')}`
+      };
+    } catch (error) {
+      return {
+        sheetName,
+        preview: null,
+        containsCompanyTable: false,
+        dataRowCount: 0,
+        reason: error instanceof Error ? error.message : 'Sheet could not be read'
+      };
+    }
+  });
+  
+  console.log(`📑 [Workbook] ${file.name}: ${sheets.filter(sheet => sheet.containsCompanyTable).length} of ${sheets.length} sheets contain company tables`);
+  
+  return {
+    fileName: file.name,
+    format,
+    delimiter,
+    encoding,
+    defaultSheetName: findDefaultSheetName(workbook),
+    sheets
+  };
+}
+
+/**
+ * Parses any supported spreadsheet (xlsx, xls, ods, csv, tsv) into company data using the automatic mapping
+ */
+export async function parseSpreadsheetFile(file: File): Promise<SpreadsheetParseResult> {
+  const preview = await loadSpreadsheetPreview(file);
+  const { companies, report } = buildCompaniesFromPreview(preview, preview.columnMappings);
+  const { sheetName, format, delimiter, encoding } = preview;
+  return { companies, report, sheetName, format, delimiter, encoding };
+}
+
+/**
+ * Parses a spreadsheet file into company data (kept for callers that only need the rows)
+ */
+export async function parseExcelFile(file: File): Promise<RawCompanyData[]> {
+  const { companies } = await parseSpreadsheetFile(file);
+  return companies;
+}
+
+/**
+ * First few non-empty values of a column, shown next to each header on the mapping review screen
+ */
+export function getColumnSamples(preview: SpreadsheetPreview, columnIndex: number, count: number = 3): string[] {
+  const samples: string[] = [];
+  for (let i = preview.headerRowIndex + 1; i < preview.rows.length && samples.length < count; i++) {
+    const value = preview.rows[i]?.[columnIndex];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      samples.push(String(value));
+    }
+  }
+  return samples;
+}
+
+type SheetPreviewFields = Pick<SpreadsheetPreview, 'sheetName' | 'sheetIndex' | 'headers' | 'rows' | 'headerRowIndex' | 'columnMappings' | 'mappingProfile'>;
+
+// Locates the portfolio sheet and header row of a workbook and proposes a column mapping
+function createSheetPreview(workbook: XLSX.WorkBook): SheetPreviewFields {
+  console.log('Starting spreadsheet parsing...');
+  console.log('🔍 REVENUE TIMELINE DEBUG: Enhanced column mapping validation enabled');
+  return createSheetPreviewForSheet(workbook, findDefaultSheetName(workbook));
+}
+
+// The "Main Page" sheet of the standard template, otherwise the first sheet
+function findDefaultSheetName(workbook: XLSX.WorkBook): string {
+  // Look for "Main Page" sheet first, fallback to first sheet
+  let sheetName = 'Main Page';
+  if (!workbook.SheetNames.includes(sheetName)) {
+    // Also try "Main Page " with trailing space
+    const mainPageWithSpace = workbook.SheetNames.find(name => name.trim() === 'Main Page');
+    if (mainPageWithSpace) {
+      sheetName = mainPageWithSpace;
+      console.log(`Using "${sheetName}" sheet (with trailing space)`);
+    } else {
+      sheetName = workbook.SheetNames[0];
+      console.log(`"Main Page" sheet not found, using "${sheetName}" instead`);
+    }
+  }
+  return sheetName;
+}
+
+// Finds the header row of one sheet and proposes a column mapping for it
+function createSheetPreviewForSheet(workbook: XLSX.WorkBook, sheetName: string): SheetPreviewFields {
+  const worksheet = workbook.Sheets[sheetName];
+  const jsonData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1 });
+  
+  if (jsonData.length < 2) {
+    throw new Error(`Sheet "${sheetName}" must contain at least a header row and one data row`);
+  }
+  
+  // Find the header row
+  let headerRowIndex = 0;
+  let maxFilledCells = 0;
+  
+  for (let i = 0; i < Math.min(5, jsonData.length); i++) {
+    const row = jsonData[i];
+    const filledCells = row.filter(cell => cell && typeof cell === 'string' && cell.trim().length > 0).length;
+    if (filledCells > maxFilledCells) {
+      maxFilledCells = filledCells;
+      headerRowIndex = i;
+    }
+  }
+  
+  console.log(`Using row ${headerRowIndex + 1} as header row`);
+  
+  const headers = jsonData[headerRowIndex] as string[];
+  console.log('Headers found:', headers);
+  
+  // Saved profiles take precedence over the built-in header mappings
+  const profileMatch = findMatchingProfile(headers);
+  const columnMappings = profileMatch ? applyMappingProfile(profileMatch.profile, headers) : createColumnMapping(headers);
+  
+  return {
+    sheetName,
+    sheetIndex: workbook.SheetNames.indexOf(sheetName),
+    headers,
+    rows: jsonData,
+    headerRowIndex,
+    columnMappings: assignColumnUnits({ rows: jsonData, headerRowIndex }, columnMappings),
+    mappingProfile: profileMatch ? { id: profileMatch.profile.id, name: profileMatch.profile.name } : null
+  };
+}
+
+// Revenue-like fields checked with validateRevenueAmount after unit scaling
+const REVENUE_VALIDATION_FIELDS: MappableField[] = ['revenue', 'arr', 'currentARR', 'currentRevenue', 'revenueYearMinus2', 'revenueYearMinus1', 'projectedRevenueYear1', 'projectedRevenueYear2'];
+
+// Dollar amounts that can never be negative
+const NON_NEGATIVE_FIELDS: MappableField[] = ['totalInvestment', 'additionalInvestmentRequested', 'preMoneyValuation', 'postMoneyValuation', 'caEquityValuation', 'totalRaiseRequest', 'amountRequestedFromFirm'];
+
+// Flags converted values that are technically valid numbers but unlikely to be right
+function findSuspiciousValues(company: Partial<RawCompanyData>, headerForField: (field: MappableField) => string | null): Omit<ImportIssue, 'rowNumber' | 'companyName'>[] {
+  const issues: Omit<ImportIssue, 'rowNumber' | 'companyName'>[] = [];
+  const numericValue = (field: MappableField) => {
+    const value = company[field as keyof RawCompanyData];
+    return typeof value === 'number' && !isNaN(value) ? value : null;
+  };
+  const addIssue = (field: MappableField, severity: ImportIssue['severity'], message: string) => {
+    issues.push({ columnHeader: headerForField(field), field, rawValue: String(company[field as keyof RawCompanyData]), severity, kind: 'suspicious', message });
+  };
+  
+  REVENUE_VALIDATION_FIELDS.forEach(field => {
+    const amount = numericValue(field);
+    if (amount === null) return;
+    const { isValid, warning } = validateRevenueAmount(amount, getFieldLabel(field));
+    if (warning) addIssue(field, isValid ? 'warning' : 'error', warning);
+  });
+  
+  NON_NEGATIVE_FIELDS.forEach(field => {
+    const amount = numericValue(field);
+    if (amount !== null && amount < 0) addIssue(field, 'error', `${getFieldLabel(field)} cannot be negative`);
+  });
+  
+  const equityStake = numericValue('equityStake');
+  if (equityStake !== null && (equityStake < 0 || equityStake > 100)) {
+    addIssue('equityStake', 'error', `Equity stake of ${equityStake}% is outside 0-100%`);
+  }
+  
+  const preMoney = numericValue('preMoneyValuation');
+  const postMoney = numericValue('postMoneyValuation');
+  if (preMoney !== null && postMoney !== null && postMoney < preMoney) {
+    addIssue('postMoneyValuation', 'warning', 'Post-money valuation is lower than pre-money valuation');
+  }
+  
+  const amountRequested = numericValue('amountRequestedFromFirm');
+  const totalRaise = numericValue('totalRaiseRequest');
+  if (amountRequested && totalRaise && amountRequested > totalRaise) {
+    addIssue('amountRequestedFromFirm', 'warning', 'Amount requested from the firm exceeds the total raise');
+  }
+  
+  return issues;
+}
+
+/**
+ * Converts the data rows of a previewed sheet into company data using the reviewed column mapping
+ * Every cell that fails conversion or looks suspicious is recorded in the returned import report
+ */
+export function buildCompaniesFromPreview(preview: SpreadsheetPreview, columnMappings: ColumnMappingDecision[]): SpreadsheetImportResult {
+  const { headers, rows: jsonData, headerRowIndex } = preview;
+  const activeMappings = columnMappings.filter(decision => decision.field && decision.matchType !== 'ignored');
+  
+  // Enhanced revenue timeline validation
+  console.log('🔍 REVENUE TIMELINE COLUMN MAPPING VALIDATION:');
+  const revenueTimelineFields = ['revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2'];
+  revenueTimelineFields.forEach(field => {
+    const mapped = activeMappings.find(decision => decision.field === field);
+    if (mapped) {
+      console.log(`✅ ${field} mapped to header: "${mapped.header}"`);
+      console.log(`   Header index: ${mapped.columnIndex}`);
+    } else {
+      console.log(`❌ ${field} NOT MAPPED to any header`);
+    }
+  });
+  
+  // Check for essential columns
+  const missingEssentials = findMissingEssentialFields(columnMappings);
+  if (missingEssentials.length > 0) {
+    throw new Error(`Could not find essential columns for: ${missingEssentials.join(', ')}. Available headers: ${headers.join(', ')}`);
+  }
+  
+  // Parse data rows
+  const companies: RawCompanyData[] = [];
+  const issues: ImportIssue[] = [];
+  const importedRows: { companyName: string; rowNumber: number }[] = [];
+  const headerForField = (field: MappableField) => activeMappings.find(decision => decision.field === field)?.header || null;
+  let dataRowCount = 0;
+  // Keeps company ids unique when several sheets are imported together. The index separates sheet names
+  // that slug alike ("Fund I" and "Fund-I"); the slug keeps ids readable
+  const sheetIdSlug = preview.sheetName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sheet';
+  
+  for (let i = headerRowIndex + 1; i < jsonData.length; i++) {
+    const row = jsonData[i] as any[];
     
-    reader.onload = (e) => {
-      try {
-        console.log('Starting Excel file parsing...');
-        console.log('🔍 REVENUE TIMELINE DEBUG: Enhanced column mapping validation enabled');
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Look for "Main Page" sheet first, fallback to first sheet
-        let sheetName = 'Main Page';
-        if (!workbook.SheetNames.includes(sheetName)) {
-          // Also try "Main Page " with trailing space
-          const mainPageWithSpace = workbook.SheetNames.find(name => name.trim() === 'Main Page');
-          if (mainPageWithSpace) {
-            sheetName = mainPageWithSpace;
-            console.log(`Using "${sheetName}" sheet (with trailing space)`);
-          } else {
-            sheetName = workbook.SheetNames[0];
-            console.log(`"Main Page" sheet not found, using "${sheetName}" instead`);
-          }
-        }
-        
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        if (jsonData.length < 2) {
-          throw new Error('Excel file must contain at least a header row and one data row');
-        }
-        
-        // Find the header row
-        let headerRowIndex = 0;
-        let maxFilledCells = 0;
-        
-        for (let i = 0; i < Math.min(5, jsonData.length); i++) {
-          const row = jsonData[i] as any[];
-          const filledCells = row.filter(cell => cell && typeof cell === 'string' && cell.trim().length > 0).length;
-          if (filledCells > maxFilledCells) {
-            maxFilledCells = filledCells;
-            headerRowIndex = i;
-          }
-        }
-        
-        console.log(`Using row ${headerRowIndex + 1} as header row`);
-        
-        const headers = jsonData[headerRowIndex] as string[];
-        console.log('Headers found:', headers);
-        
-        // Create column mapping
-        const columnMapping = createColumnMapping(headers);
-        
-        // Enhanced revenue timeline validation
-        console.log('🔍 REVENUE TIMELINE COLUMN MAPPING VALIDATION:');
-        const revenueTimelineFields = ['revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2'];
-        revenueTimelineFields.forEach(field => {
-          const mappedHeader = Object.keys(columnMapping).find(header => columnMapping[header] === field);
-          if (mappedHeader) {
-            console.log(`✅ ${field} mapped to header: "${mappedHeader}"`);
-            const headerIndex = headers.indexOf(mappedHeader);
-            console.log(`   Header index: ${headerIndex}`);
-          } else {
-            console.log(`❌ ${field} NOT MAPPED to any header`);
-          }
-        });
-        
-        // Validate for potential cross-mapping issues
-        const mappedHeaders = Object.keys(columnMapping);
-        mappedHeaders.forEach(header => {
-          const field = columnMapping[header];
-          if (revenueTimelineFields.includes(field)) {
-            if ((header.includes('-2') && field !== 'revenueYearMinus2') ||
-                (header.includes('+2') && field !== 'projectedRevenueYear2') ||
-                (header.includes('-1') && field !== 'revenueYearMinus1') ||
-                (header.includes('+1') && field !== 'projectedRevenueYear1')) {
-              console.log(`🚨 POTENTIAL CROSS-MAPPING ISSUE: Header "${header}" mapped to field "${field}"`);
-            }
-          }
-        });
-        
-        // Check for essential columns
-        const essentialFields = ['companyName', 'totalInvestment', 'equityStake'];
-        const foundEssentials = essentialFields.filter(field => 
-          Object.values(columnMapping).includes(field)
-        );
-        
-        if (foundEssentials.length < essentialFields.length) {
-          const missingEssentials = essentialFields.filter(field => 
-            !Object.values(columnMapping).includes(field)
-          );
-          throw new Error(`Could not find essential columns for: ${missingEssentials.join(', ')}. Available headers: ${headers.join(', ')}`);
-        }
+    // Skip empty rows
+    if (!row || row.every(cell => !cell)) continue;
+    dataRowCount++;
+    
+    const company: any = {
+      id: `excel-${preview.sheetIndex}-${sheetIdSlug}-${i}`,
+      sourceSheet: preview.sheetName,
+    };
+    
+    // Company name may sit in a later column, so row issues are attributed once the row is parsed
+    const rowIssues: Omit<ImportIssue, 'rowNumber' | 'companyName'>[] = [];
+    const addCellIssue = (fieldName: MappableField, header: string, rawValue: unknown, severity: ImportIssue['severity'], kind: ImportIssue['kind'], message: string) => {
+      rowIssues.push({ columnHeader: header, field: fieldName, rawValue: String(rawValue), severity, kind, message });
+    };
+    
+    // Map each column to our data structure
+    activeMappings.forEach(({ field: fieldName, header, columnIndex: index, unit }) => {
+      if (fieldName && row[index] !== undefined && row[index] !== null) {
+        let value = row[index];
         
-        // Parse data rows
-        const companies: RawCompanyData[] = [];
+        console.log(`Processing ${fieldName} from column "${header}":`, value);
         
-        for (let i = headerRowIndex + 1; i < jsonData.length; i++) {
-          const row = jsonData[i] as any[];
+        // Type conversions based on field
+        if (['totalInvestment', 'equityStake', 'moic', 'revenueGrowth', 'projectedRevenueGrowth', 'burnMultiple', 'runway', 'additionalInvestmentRequested', 'preMoneyValuation', 'postMoneyValuation', 'roundComplexity', 'exitTimeline', 'revenue', 'arr', 'caEquityValuation', 'totalRaiseRequest', 'amountRequestedFromFirm', 'revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2', 'currentARR'].includes(fieldName)) {
+          // Clean the value for number parsing
+          let cleanValue = String(value).replace(/[$,\s%]/g, '');
+          console.log(`Cleaned value for ${fieldName}:`, cleanValue);
           
-          // Skip empty rows
-          if (!row || row.every(cell => !cell)) continue;
-          
-          const company: any = {
-            id: `excel-${i}`,
-          };
-          
-          // Map each column to our data structure
-          headers.forEach((header, index) => {
-            const fieldName = columnMapping[header];
-            if (fieldName && row[index] !== undefined && row[index] !== null) {
-              let value = row[index];
-              
-              console.log(`Processing ${fieldName} from column "${header}":`, value);
-              
-              // Type conversions based on field
-              if (['totalInvestment', 'equityStake', 'moic', 'revenueGrowth', 'projectedRevenueGrowth', 'burnMultiple', 'runway', 'additionalInvestmentRequested', 'preMoneyValuation', 'postMoneyValuation', 'roundComplexity', 'exitTimeline', 'revenue', 'arr', 'caEquityValuation', 'totalRaiseRequest', 'amountRequestedFromFirm', 'revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2', 'currentARR'].includes(fieldName)) {
-                // Clean the value for number parsing
-                let cleanValue = String(value).replace(/[$,\s%]/g, '');
-                console.log(`Cleaned value for ${fieldName}:`, cleanValue);
+          // Handle empty strings or non-numeric values
+          if (cleanValue === '' || cleanValue === '-' || cleanValue === 'N/A') {
+            if (cleanValue !== '') {
+              addCellIssue(fieldName, header, row[index], 'info', 'placeholder', `"${String(row[index]).trim()}" treated as missing`);
+            }
+            value = null;
+          } else {
+            const parsedValue = parseFloat(cleanValue);
+            if (isNaN(parsedValue)) {
+              addCellIssue(fieldName, header, row[index], 'error', 'conversion', `Could not convert "${row[index]}" to a number; value left empty`);
+              value = null;
+            } else {
+              if (isNaN(Number(cleanValue))) {
+                addCellIssue(fieldName, header, row[index], 'warning', 'conversion', `Only the leading number of "${row[index]}" was used (${parsedValue})`);
+              }
+              value = parsedValue;
+              // Rescale currency columns to dollars using the column's detected or overridden unit
+              if (CURRENCY_FIELDS.includes(fieldName)) {
+                const multiplier = UNIT_MULTIPLIERS[unit || 'dollars'];
+                value = parsedValue * multiplier;
+                if (multiplier !== 1) {
+                  console.log(`Scaled ${fieldName} from ${parsedValue} (${unit}) to ${value}`);
+                }
                 
-                // Handle empty strings or non-numeric values
-                if (cleanValue === '' || cleanValue === '-' || cleanValue === 'N/A') {
-                  value = null;
-                } else {
-                  const parsedValue = parseFloat(cleanValue);
-                  if (isNaN(parsedValue)) {
-                    value = null;
-                  } else {
+                // Enhanced debugging for projectedRevenueYear2 specifically
+                if (fieldName === 'projectedRevenueYear2') {
+                  console.log(`🔍 DEBUGGING projectedRevenueYear2 for ${company.companyName}:`);
+                  console.log(`  - Original Excel cell value:`, row[index]);
+                  console.log(`  - Original string value:`, String(row[index]));
+                  console.log(`  - After cleaning (removed $,%,spaces):`, cleanValue);
+                  console.log(`  - parseFloat result:`, parsedValue);
+                  console.log(`  - Column unit:`, unit);
+                  console.log(`  - Final stored value:`, value);
+                  console.log(`  - Scientific notation check:`, Number(cleanValue).toExponential());
+                  console.log(`  - Type of original:`, typeof row[index]);
+                }
+              }
+              // Convert equity stake from decimal to percentage if needed
+              else if (fieldName === 'equityStake' && parsedValue < 1) {
+                value = parsedValue * 100;
+                console.log(`Converted equity stake from ${parsedValue} to ${value}%`);
+              }
+                // Convert revenue growth - detect if Excel stored percentage as decimal
+                else if (fieldName === 'revenueGrowth' || fieldName === 'projectedRevenueGrowth') {
+                  const originalString = String(row[index]);
+                  
+                  console.log(`🔍 Processing ${fieldName}: original="${originalString}", parsed=${parsedValue}`);
+                  
+                  // Strategy: If value looks like it could be a percentage stored as decimal in Excel, convert it
+                  // Excel often stores 2200% as 22, 1000% as 10, 100% as 1, etc.
+                  
+                  // If original string contained %, the numeric value is already cleaned percentage
+                  if (originalString.includes('%')) {
                     value = parsedValue;
-                    // Scale only totalInvestment from thousands to actual dollars
-                    if (fieldName === 'totalInvestment') {
-                      value = parsedValue * 1000;
-                      console.log(`Scaled ${fieldName} from ${parsedValue}k to ${value}`);
-                    }
-                    // Scale CA Equity Valuation from thousands to actual dollars
-                    else if (fieldName === 'caEquityValuation') {
-                      value = parsedValue * 1000;
-                      console.log(`Scaled ${fieldName} from ${parsedValue}k to ${value}`);
-                    }
-                     // Revenue and valuation fields - keep raw values, no auto-scaling
-                     else if (['preMoneyValuation', 'postMoneyValuation', 'revenue', 'arr', 'revenueYearMinus2', 'revenueYearMinus1', 'currentRevenue', 'projectedRevenueYear1', 'projectedRevenueYear2', 'currentARR'].includes(fieldName)) {
-                       // Store raw values - let the UI handle formatting
-                       value = parsedValue;
-                       
-                       // Enhanced debugging for projectedRevenueYear2 specifically
-                       if (fieldName === 'projectedRevenueYear2') {
-                         console.log(`🔍 DEBUGGING projectedRevenueYear2 for ${company.companyName}:`);
-                         console.log(`  - Original Excel cell value:`, row[index]);
-                         console.log(`  - Original string value:`, String(row[index]));
-                         console.log(`  - After cleaning (removed $,%,spaces):`, cleanValue);
-                         console.log(`  - parseFloat result:`, parsedValue);
-                         console.log(`  - Final stored value:`, value);
-                         console.log(`  - Scientific notation check:`, Number(cleanValue).toExponential());
-                         console.log(`  - Type of original:`, typeof row[index]);
-                         console.log(`  - Excel cell formatted as millions?`, String(row[index]).toLowerCase().includes('m'));
-                       }
-                       
-                       console.log(`Set ${fieldName} to raw value: ${value}`);
-                     }
-                    // Convert equity stake from decimal to percentage if needed
-                    else if (fieldName === 'equityStake' && parsedValue < 1) {
-                      value = parsedValue * 100;
-                      console.log(`Converted equity stake from ${parsedValue} to ${value}%`);
-                    }
-                      // Convert revenue growth - detect if Excel stored percentage as decimal
-                      else if (fieldName === 'revenueGrowth' || fieldName === 'projectedRevenueGrowth') {
-                        const originalString = String(row[index]);
-                        
-                        console.log(`🔍 Processing ${fieldName}: original="${originalString}", parsed=${parsedValue}`);
-                        
-                        // Strategy: If value looks like it could be a percentage stored as decimal in Excel, convert it
-                        // Excel often stores 2200% as 22, 1000% as 10, 100% as 1, etc.
-                        
-                        // If original string contained %, the numeric value is already cleaned percentage
-                        if (originalString.includes('%')) {
-                          value = parsedValue;
-                          console.log(`✅ Kept ${fieldName} as percentage from % input: ${value}%`);
-                        }
-                        // If the value is very small and likely to be Excel's decimal representation
-                        else if (parsedValue > 0 && parsedValue < 1) {
-                          // Values like 0.22 are definitely decimals (22%)
-                          value = parsedValue * 100;
-                          console.log(`✅ Converted ${fieldName} from decimal ${parsedValue} to ${value}%`);
-                        }
-                        // Critical fix: For moderate values that could be Excel decimals
-                        // These could be Excel storing percentages as decimals: 22 (2200%), 10 (1000%), 5 (500%), 1 (100%)
-                        else if (parsedValue >= 1 && parsedValue <= 100) {
-                          // Apply heuristic: if this seems unusually low for a growth rate, it's likely an Excel decimal
-                          // Most high-growth companies don't have 1-100% growth, they have 100-2000%+ growth
-                          // So values like 22, 10, 5, 1 are likely Excel decimals that should be multiplied by 100
-                          value = parsedValue * 100;
-                          console.log(`🔧 FIXED: Converted ${fieldName} from Excel decimal ${parsedValue} to ${value}% (assuming Excel stored percentage as decimal)`);
-                        }
-                        // For larger values, assume they're already correct percentages
-                        else {
-                          value = parsedValue;
-                          console.log(`✅ Kept ${fieldName} as percentage (large value): ${value}%`);
-                        }
-                      }
-                    // Handle round complexity (validate 1-5 scale)
-                    else if (fieldName === 'roundComplexity') {
-                      if (parsedValue >= 1 && parsedValue <= 5) {
-                        value = Math.round(parsedValue); // Ensure integer
-                      } else {
-                        console.warn(`Invalid round complexity value for ${company.companyName}: ${parsedValue}. Must be 1-5.`);
-                        value = 3; // Default to neutral
-                      }
-                    }
-                    // Handle exit timeline (validate positive numbers, default to 3)
-                    else if (fieldName === 'exitTimeline') {
-                      if (parsedValue > 0 && parsedValue <= 20) {
-                        value = Math.round(parsedValue); // Ensure integer years
-                      } else {
-                        console.warn(`Invalid exit timeline value for ${company.companyName}: ${parsedValue}. Must be positive and ≤20 years.`);
-                        value = 3; // Default to 3 years
-                      }
-                    }
+                    console.log(`✅ Kept ${fieldName} as percentage from % input: ${value}%`);
                   }
-                }
-              } else if (['tam', 'barrierToEntry', 'investorInterest', 'roundComplexity'].includes(fieldName)) {
-                let cleanValue = String(value).replace(/[^0-9]/g, '');
-                if (fieldName === 'investorInterest') {
-                  const parsedValue = parseInt(cleanValue);
-                  value = (parsedValue >= 1 && parsedValue <= 5) ? parsedValue : null;
-                } else if (fieldName === 'roundComplexity') {
-                  const parsedValue = parseInt(cleanValue);
-                  if (parsedValue >= 1 && parsedValue <= 5) {
+                  // If the value is very small and likely to be Excel's decimal representation
+                  else if (parsedValue > 0 && parsedValue < 1) {
+                    // Values like 0.22 are definitely decimals (22%)
+                    value = parsedValue * 100;
+                    console.log(`✅ Converted ${fieldName} from decimal ${parsedValue} to ${value}%`);
+                  }
+                  // Critical fix: For moderate values that could be Excel decimals
+                  // These could be Excel storing percentages as decimals: 22 (2200%), 10 (1000%), 5 (500%), 1 (100%)
+                  else if (parsedValue >= 1 && parsedValue <= 100) {
+                    // Apply heuristic: if this seems unusually low for a growth rate, it's likely an Excel decimal
+                    // Most high-growth companies don't have 1-100% growth, they have 100-2000%+ growth
+                    // So values like 22, 10, 5, 1 are likely Excel decimals that should be multiplied by 100
+                    value = parsedValue * 100;
+                    console.log(`🔧 FIXED: Converted ${fieldName} from Excel decimal ${parsedValue} to ${value}% (assuming Excel stored percentage as decimal)`);
+                  }
+                  // For larger values, assume they're already correct percentages
+                  else {
                     value = parsedValue;
-                  } else {
-                    console.warn(`Invalid round complexity value: ${parsedValue}. Defaulting to 3.`);
-                    value = 3; // Default to neutral
+                    console.log(`✅ Kept ${fieldName} as percentage (large value): ${value}%`);
                   }
+                }
+              // Handle round complexity (validate 1-5 scale)
+              else if (fieldName === 'roundComplexity') {
+                if (parsedValue >= 1 && parsedValue <= 5) {
+                  value = Math.round(parsedValue); // Ensure integer
                 } else {
-                  value = parseInt(cleanValue) || 1;
+                  console.warn(`Invalid round complexity value for ${company.companyName}: ${parsedValue}. Must be 1-5.`);
+                  addCellIssue(fieldName, header, row[index], 'warning', 'defaulted', `Round complexity ${parsedValue} is outside 1-5; defaulted to 3`);
+                  value = 3; // Default to neutral
                 }
-              } else if (fieldName === 'seriesStage') {
-                // Handle Series/Stage field - normalize common variations
-                let stageValue = String(value).trim();
-                
-                // Normalize common variations
-                const normalizedStage = stageValue.toLowerCase();
-                if (normalizedStage === 'seed' || normalizedStage === 'pre-seed') {
-                  value = 'Seed';
-                } else if (normalizedStage.includes('series a') || normalizedStage === 'a') {
-                  value = 'Series A';
-                } else if (normalizedStage.includes('series b') || normalizedStage === 'b') {
-                  value = 'Series B';
-                } else if (normalizedStage.includes('series c') || normalizedStage === 'c') {
-                  value = 'Series C';
-                } else if (normalizedStage === 'growth' || normalizedStage === 'late stage') {
-                  value = 'Growth';
-                } else if (stageValue === '' || stageValue === '-' || stageValue === 'N/A' || stageValue === 'TBD') {
-                  value = null; // Fail-safe for missing data
+              }
+              // Handle exit timeline (validate positive numbers, default to 3)
+              else if (fieldName === 'exitTimeline') {
+                if (parsedValue > 0 && parsedValue <= 20) {
+                  value = Math.round(parsedValue); // Ensure integer years
                 } else {
-                  // Keep original value for other valid stages
-                  value = stageValue;
+                  console.warn(`Invalid exit timeline value for ${company.companyName}: ${parsedValue}. Must be positive and ≤20 years.`);
+                  addCellIssue(fieldName, header, row[index], 'warning', 'defaulted', `Exit timeline ${parsedValue} is outside 1-20 years; defaulted to 3`);
+                  value = 3; // Default to 3 years
                 }
-                console.log(`Normalized series/stage from "${row[index]}" to "${value}"`);
-              } else if (typeof value !== 'string') {
-                value = String(value);
               }
-              
-              company[fieldName] = value;
-              console.log(`Set ${fieldName} =`, value);
             }
-          });
-          
-          // Set default exit timeline if not provided
-          if (!company.exitTimeline) {
-            company.exitTimeline = 3; // Default to 3 years
-            console.log(`Setting default exit timeline of 3 years for ${company.companyName}`);
           }
-
-          // Validate required fields
-          if (company.companyName) {
-            // Ensure numeric fields have defaults for investment status detection
-            const totalInvestment = company.totalInvestment || 0;
-            const equityStake = company.equityStake || 0;
-            const caEquityValuation = company.caEquityValuation || null;
-            
-            // Detect investment status
-            company.isExistingInvestment = detectInvestmentStatus(totalInvestment, equityStake, caEquityValuation);
-            
-            // Validate fundraising data consistency
-            if (company.amountRequestedFromFirm && company.totalRaiseRequest && 
-                company.amountRequestedFromFirm > company.totalRaiseRequest) {
-              console.warn(`Data inconsistency for ${company.companyName}: Amount requested (${company.amountRequestedFromFirm}) exceeds total raise (${company.totalRaiseRequest})`);
+        } else if (['tam', 'barrierToEntry', 'investorInterest', 'roundComplexity'].includes(fieldName)) {
+          let cleanValue = String(value).replace(/[^0-9]/g, '');
+          if (fieldName === 'investorInterest') {
+            const parsedValue = parseInt(cleanValue);
+            value = (parsedValue >= 1 && parsedValue <= 5) ? parsedValue : null;
+            if (value === null && String(row[index]).trim() !== '') {
+              addCellIssue(fieldName, header, row[index], 'error', 'conversion', `"${row[index]}" is not a 1-5 rating; value left empty`);
+            }
+          } else if (fieldName === 'roundComplexity') {
+            const parsedValue = parseInt(cleanValue);
+            if (parsedValue >= 1 && parsedValue <= 5) {
+              value = parsedValue;
+            } else {
+              console.warn(`Invalid round complexity value: ${parsedValue}. Defaulting to 3.`);
+              value = 3; // Default to neutral
+            }
+          } else {
+            const parsedValue = parseInt(cleanValue);
+            if (!parsedValue && String(row[index]).trim() !== '') {
+              addCellIssue(fieldName, header, row[index], 'warning', 'defaulted', `"${row[index]}" is not a 1-5 rating; defaulted to 1`);
             }
-            
-            // Apply revenue analytics calculations
-            const enhancedCompany = enhanceCompanyWithAnalytics(company);
-            companies.push(enhancedCompany);
+            value = parsedValue || 1;
           }
+        } else if (fieldName === 'seriesStage') {
+          // Handle Series/Stage field - normalize common variations
+          let stageValue = String(value).trim();
+          
+          // Normalize common variations
+          const normalizedStage = stageValue.toLowerCase();
+          if (normalizedStage === 'seed' || normalizedStage === 'pre-seed') {
+            value = 'Seed';
+          } else if (normalizedStage.includes('series a') || normalizedStage === 'a') {
+            value = 'Series A';
+          } else if (normalizedStage.includes('series b') || normalizedStage === 'b') {
+            value = 'Series B';
+          } else if (normalizedStage.includes('series c') || normalizedStage === 'c') {
+            value = 'Series C';
+          } else if (normalizedStage === 'growth' || normalizedStage === 'late stage') {
+            value = 'Growth';
+          } else if (stageValue === '' || stageValue === '-' || stageValue === 'N/A' || stageValue === 'TBD') {
+            value = null; // Fail-safe for missing data
+          } else {
+            // Keep original value for other valid stages
+            value = stageValue;
+          }
+          console.log(`Normalized series/stage from "${row[index]}" to "${value}"`);
+        } else if (typeof value !== 'string') {
+          value = String(value);
         }
         
-        if (companies.length === 0) {
-          throw new Error('No valid company data found in Excel file');
-        }
-        
-        console.log(`Successfully parsed ${companies.length} companies`);
-        console.log('Sample company data:', companies[0]);
-        resolve(companies);
-        
-      } catch (error) {
-        console.error('Excel parsing error:', error);
-        reject(error);
+        company[fieldName] = value;
+        console.log(`Set ${fieldName} =`, value);
       }
-    };
+    });
     
-    reader.onerror = () => {
-      reject(new Error('Failed to read Excel file'));
-    };
+    // Set default exit timeline if not provided
+    if (!company.exitTimeline) {
+      company.exitTimeline = 3; // Default to 3 years
+      console.log(`Setting default exit timeline of 3 years for ${company.companyName}`);
+    }
+
+    // Validate required fields
+    if (company.companyName) {
+      // Ensure numeric fields have defaults for investment status detection
+      const totalInvestment = company.totalInvestment || 0;
+      const equityStake = company.equityStake || 0;
+      const caEquityValuation = company.caEquityValuation || null;
+      
+      // Detect investment status
+      company.isExistingInvestment = detectInvestmentStatus(totalInvestment, equityStake, caEquityValuation);
+      
+      // Validate fundraising data consistency
+      if (company.amountRequestedFromFirm && company.totalRaiseRequest && 
+          company.amountRequestedFromFirm > company.totalRaiseRequest) {
+        console.warn(`Data inconsistency for ${company.companyName}: Amount requested (${company.amountRequestedFromFirm}) exceeds total raise (${company.totalRaiseRequest})`);
+      }
+      
+      rowIssues.push(...findSuspiciousValues(company, headerForField));
+      importedRows.push({ companyName: String(company.companyName), rowNumber: i + 1 });
+      
+      // Apply revenue analytics calculations
+      const enhancedCompany = enhanceCompanyWithAnalytics(company);
+      companies.push(enhancedCompany);
+    } else {
+      rowIssues.push({
+        columnHeader: headerForField('companyName'),
+        field: 'companyName',
+        rawValue: null,
+        severity: 'warning',
+        kind: 'skipped-row',
+        message: 'Row has data but no company name; row was not imported'
+      });
+    }
     
-    reader.readAsArrayBuffer(file);
-  });
+    issues.push(...rowIssues.map(issue => ({ ...issue, rowNumber: i + 1, companyName: company.companyName ? String(company.companyName) : null })));
+  }
+  
+  if (companies.length === 0) {
+    throw new Error('No valid company data found in spreadsheet');
+  }
+  
+  issues.push(...findDuplicateCompanyIssues(importedRows).map(issue => ({ ...issue, columnHeader: headerForField('companyName') })));
+  issues.sort((a, b) => (a.rowNumber ?? 0) - (b.rowNumber ?? 0));
+  
+  const report: ImportReport = {
+    fileName: preview.fileName,
+    sheetName: preview.sheetName,
+    generatedAt: new Date().toISOString(),
+    dataRowCount,
+    importedCompanyCount: companies.length,
+    issues
+  };
+  
+  console.log(`Successfully parsed ${companies.length} companies`);
+  console.log(`📝 [Import Report] ${issues.length} issues across ${dataRowCount} data rows`);
+  console.log('Sample company data:', companies[0]);
+  return { companies, report };
 }
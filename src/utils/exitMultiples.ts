@@ -0,0 +1,249 @@
+/**
+ * Exit multiple library: low/mid/high multiples per industry and stage that centre the simulated exit
+ * multiple. Industries are keyed by normalizeIndustry so the table and external research agree on names.
+ * Only revenue and ARR multiples are supported because the sheet carries no GMV or EBITDA to apply others to
+ */
+import { CompanyData } from './openaiAnalysis';
+import { normalizeIndustry } from './externalResearch';
+import { loadSettings, saveSettings } from './settingsStorage';
+
+export type ExitMultipleMetric = 'EV/Revenue' | 'EV/ARR';
+
+export type ExitStage = 'any' | 'seed' | 'early' | 'growth';
+
+export type ExitMultipleSource = 'default' | 'team' | 'research';
+
+export interface ExitMultipleEntry {
+  industry: string; // Normalized primary industry, lower case
+  stage: ExitStage; // 'any' covers stages without their own row
+  metric: ExitMultipleMetric;
+  low: number;
+  mid: number; // Median of the simulated exit multiple
+  high: number;
+  source: ExitMultipleSource;
+  updatedAt?: string;
+  note?: string;
+}
+
+// Research comps summarized per industry, waiting for the team to apply them to the table
+export interface ResearchMultipleSuggestion {
+  industry: string;
+  metric: ExitMultipleMetric;
+  low: number;
+  mid: number;
+  high: number;
+  comps: string[]; // "Company → Acquirer (12x ARR)"
+  researchedAt: string;
+}
+
+// Subset of the research result's named comps used here
+export interface NamedComp {
+  company: string;
+  acquirer: string;
+  multiple: string;
+  notes: string;
+}
+
+const EXIT_MULTIPLES_STORAGE_KEY = 'exit_multiples';
+const RESEARCH_MULTIPLES_STORAGE_KEY = 'exit_multiple_research';
+
+// A single comp says too little about a range
+const MIN_RESEARCH_COMPS = 2;
+
+// low and high are read as the 10th and 90th percentiles of a lognormal
+const P90_Z = 1.2816;
+
+export const EXIT_MULTIPLE_METRICS: { key: ExitMultipleMetric; label: string }[] = [
+  { key: 'EV/Revenue', label: 'EV / Revenue' },
+  { key: 'EV/ARR', label: 'EV / ARR' }
+];
+
+export const EXIT_STAGES: { key: ExitStage; label: string }[] = [
+  { key: 'any', label: 'Any stage' },
+  { key: 'seed', label: 'Pre-seed / Seed' },
+  { key: 'early', label: 'Series A-B' },
+  { key: 'growth', label: 'Series C+ / Growth' }
+];
+
+export const DEFAULT_EXIT_MULTIPLES: ExitMultipleEntry[] = [
+  { industry: 'software as a service', stage: 'any', metric: 'EV/ARR', low: 5, mid: 8, high: 12, source: 'default' },
+  { industry: 'software as a service', stage: 'seed', metric: 'EV/ARR', low: 3, mid: 6, high: 10, source: 'default' },
+  { industry: 'software as a service', stage: 'growth', metric: 'EV/ARR', low: 6, mid: 10, high: 16, source: 'default' },
+  { industry: 'artificial intelligence', stage: 'any', metric: 'EV/ARR', low: 8, mid: 14, high: 25, source: 'default' },
+  { industry: 'artificial intelligence', stage: 'growth', metric: 'EV/ARR', low: 10, mid: 18, high: 30, source: 'default' },
+  { industry: 'cybersecurity', stage: 'any', metric: 'EV/ARR', low: 6, mid: 10, high: 15, source: 'default' },
+  { industry: 'fintech', stage: 'any', metric: 'EV/Revenue', low: 3, mid: 6, high: 10, source: 'default' },
+  { industry: 'digital health', stage: 'any', metric: 'EV/Revenue', low: 3, mid: 5, high: 8, source: 'default' },
+  { industry: 'biotechnology', stage: 'any', metric: 'EV/Revenue', low: 4, mid: 8, high: 14, source: 'default' },
+  { industry: 'education technology', stage: 'any', metric: 'EV/Revenue', low: 2, mid: 4, high: 6, source: 'default' },
+  { industry: 'ecommerce', stage: 'any', metric: 'EV/Revenue', low: 1, mid: 2.5, high: 4, source: 'default' },
+  { industry: 'marketplace', stage: 'any', metric: 'EV/Revenue', low: 2, mid: 4, high: 7, source: 'default', note: 'Net revenue, not GMV' }
+];
+
+/**
+ * Table key for a sheet or research industry, e.g. "B2B SaaS" → "software as a service"
+ */
+export function getIndustryKey(industry: string | null | undefined): string {
+  const trimmed = (industry || '').trim();
+  return trimmed ? normalizeIndustry(trimmed).primary.toLowerCase().trim() : '';
+}
+
+export function normalizeStage(seriesStage: string | null | undefined): ExitStage {
+  const stage = (seriesStage || '').toLowerCase().trim();
+  if (/seed|angel/.test(stage)) return 'seed';
+  // Sheets often give the bare round letter ("A", "C2")
+  if (/series\s*[ab]\b|^[ab]\d?$|early/.test(stage)) return 'early';
+  if (/series\s*[c-z]\b|^[c-z]\d?$|growth|late|pre-?ipo|mezzanine/.test(stage)) return 'growth';
+  return 'any';
+}
+
+// A saved table replaces the defaults outright, so deleted rows stay deleted
+export function getExitMultiples(): ExitMultipleEntry[] {
+  return loadSettings(EXIT_MULTIPLES_STORAGE_KEY, () => DEFAULT_EXIT_MULTIPLES.map(entry => ({ ...entry })), (_defaults, stored) => stored);
+}
+
+export function saveExitMultiples(entries: ExitMultipleEntry[]): void {
+  saveSettings(EXIT_MULTIPLES_STORAGE_KEY, entries);
+  console.log(`📈 [Exit Multiples] Saved ${entries.length} exit multiples`);
+}
+
+/**
+ * Each industry and stage may appear once, or the lookup would depend on row order, and every row needs
+ * 0 < low ≤ mid ≤ high
+ */
+export function getExitMultiplesIssues(entries: ExitMultipleEntry[]): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  entries.forEach(entry => {
+    const name = entry.industry || 'Unnamed industry';
+    if (!entry.industry.trim()) issues.push('Every row needs an industry');
+    if (!(entry.low > 0) || !(entry.low <= entry.mid) || !(entry.mid <= entry.high)) {
+      issues.push(`${name}: multiples must satisfy 0 < low ≤ mid ≤ high`);
+    }
+    const key = `${entry.industry}|${entry.stage}`;
+    if (seen.has(key)) issues.push(`${name} has more than one ${describeExitStage(entry.stage)} row`);
+    seen.add(key);
+  });
+  return issues;
+}
+
+export function describeExitStage(stage: ExitStage): string {
+  return EXIT_STAGES.find(entry => entry.key === stage)?.label || stage;
+}
+
+/**
+ * Row for the company's industry and stage, falling back to the industry's any-stage row.
+ * Null when the industry is not in the table
+ */
+export function findExitMultiple(
+  company: Pick<CompanyData, 'industry' | 'seriesStage'>,
+  entries: ExitMultipleEntry[] = getExitMultiples()
+): ExitMultipleEntry | null {
+  const industry = getIndustryKey(company.industry);
+  if (!industry) return null;
+  const stage = normalizeStage(company.seriesStage);
+  const rows = entries.filter(entry => entry.industry === industry);
+  return rows.find(entry => entry.stage === stage) || rows.find(entry => entry.stage === 'any') || null;
+}
+
+/**
+ * Lognormal σ that puts low and high at the 10th and 90th percentiles
+ */
+export function getExitMultipleSigma(entry: ExitMultipleEntry): number {
+  return entry.high > entry.low ? Math.log(entry.high / entry.low) / (2 * P90_Z) : 0;
+}
+
+/**
+ * Figure the multiple applies to: ARR for EV/ARR, otherwise revenue, each falling back to the other
+ */
+export function getExitMetricValue(company: CompanyData, metric: ExitMultipleMetric = 'EV/Revenue'): number {
+  const revenue = company.currentRevenue || company.revenue;
+  const arr = company.currentARR || company.arr;
+  return (metric === 'EV/ARR' ? arr || revenue : revenue || arr) || 0;
+}
+
+// "software as a service · Series C+ / Growth · EV/ARR 6.0-16.0x (mid 10.0x)"
+export function describeExitMultiple(entry: ExitMultipleEntry): string {
+  return `${entry.industry} · ${describeExitStage(entry.stage)} · ${entry.metric} ${entry.low.toFixed(1)}-${entry.high.toFixed(1)}x (mid ${entry.mid.toFixed(1)}x)`;
+}
+
+function parseComp(comp: NamedComp): { multiple: number; metric: ExitMultipleMetric } | null {
+  const match = `${comp.notes} ${comp.multiple}`.match(/(\d+(?:\.\d+)?)\s*x\s*(ARR|Revenue|GMV)?/i);
+  const multiple = match ? parseFloat(match[1]) : NaN;
+  if (!(multiple > 0) || /GMV/i.test(match[2] || '')) return null;
+  return { multiple, metric: /ARR/i.test(match[2] || '') ? 'EV/ARR' : 'EV/Revenue' };
+}
+
+/**
+ * Low/mid/high from the comps that quote a revenue or ARR multiple, using whichever metric most of them
+ * quote. Null when fewer than two comps qualify
+ */
+export function summarizeResearchComps(industry: string, comps: NamedComp[]): ResearchMultipleSuggestion | null {
+  const parsed = comps
+    .map(comp => ({ comp, parsed: parseComp(comp) }))
+    .filter(entry => entry.parsed !== null);
+  const arrCount = parsed.filter(entry => entry.parsed.metric === 'EV/ARR').length;
+  const metric: ExitMultipleMetric = arrCount > parsed.length / 2 ? 'EV/ARR' : 'EV/Revenue';
+  const matching = parsed.filter(entry => entry.parsed.metric === metric);
+  if (!getIndustryKey(industry) || matching.length < MIN_RESEARCH_COMPS) return null;
+
+  const multiples = matching.map(entry => entry.parsed.multiple).sort((a, b) => a - b);
+  const middle = Math.floor(multiples.length / 2);
+  return {
+    industry: getIndustryKey(industry),
+    metric,
+    low: multiples[0],
+    mid: multiples.length % 2 ? multiples[middle] : (multiples[middle - 1] + multiples[middle]) / 2,
+    high: multiples[multiples.length - 1],
+    comps: matching.map(({ comp }) => `${comp.company} → ${comp.acquirer} (${comp.notes})`),
+    researchedAt: new Date().toISOString()
+  };
+}
+
+export function getResearchMultipleSuggestions(): ResearchMultipleSuggestion[] {
+  return loadSettings<ResearchMultipleSuggestion[]>(RESEARCH_MULTIPLES_STORAGE_KEY, () => [], (_defaults, stored) => stored);
+}
+
+/**
+ * Keeps the latest research comps for an industry as a suggestion. The table only changes when the
+ * team applies it, so research never moves the simulation on its own
+ */
+export function recordResearchComps(industry: string, comps: NamedComp[]): ResearchMultipleSuggestion | null {
+  const suggestion = summarizeResearchComps(industry, comps);
+  if (!suggestion) return null;
+  try {
+    const others = getResearchMultipleSuggestions().filter(entry => entry.industry !== suggestion.industry);
+    saveSettings(RESEARCH_MULTIPLES_STORAGE_KEY, [...others, suggestion]);
+    console.log(`📈 [Exit Multiples] Research suggests ${suggestion.metric} ${suggestion.low}-${suggestion.high}x for ${suggestion.industry}`);
+  } catch (error) {
+    console.error('📈 [Exit Multiples] Failed to store research suggestion:', error);
+  }
+  return suggestion;
+}
+
+export function dismissResearchMultipleSuggestion(industry: string): void {
+  const remaining = getResearchMultipleSuggestions().filter(entry => entry.industry !== industry);
+  saveSettings(RESEARCH_MULTIPLES_STORAGE_KEY, remaining);
+}
+
+/**
+ * Replaces the industry's any-stage row with the research range, keeping stage-specific rows
+ */
+export function applyResearchMultipleSuggestion(
+  entries: ExitMultipleEntry[],
+  suggestion: ResearchMultipleSuggestion
+): ExitMultipleEntry[] {
+  const row: ExitMultipleEntry = {
+    industry: suggestion.industry,
+    stage: 'any',
+    metric: suggestion.metric,
+    low: suggestion.low,
+    mid: suggestion.mid,
+    high: suggestion.high,
+    source: 'research',
+    updatedAt: suggestion.researchedAt,
+    note: `${suggestion.comps.length} research comps`
+  };
+  const index = entries.findIndex(entry => entry.industry === suggestion.industry && entry.stage === 'any');
+  return index >= 0 ? entries.map((entry, i) => i === index ? row : entry) : [...entries, row];
+}
@@ -1,7 +1,13 @@
 
 // Source restrictions removed - full web access enabled
+import { getCachedResponse, hashCacheKey, isResponseCacheAvailable, putCachedResponse } from './responseCache';
 
-interface CompanyResearchData {
+const RESEARCH_MODEL = 'sonar-reasoning';
+
+// Part of every research cache key: bump when the system prompt or request parameters change
+const RESEARCH_PROMPT_VERSION = 1;
+
+export interface CompanyResearchData {
   companyName: string;
   totalInvestment: number;
   equityStake: number;
@@ -33,8 +39,8 @@ function shouldTriggerResearch(company: CompanyResearchData): ResearchTriggers {
   };
 }
 
-// Enhanced industry mapping for broader search terms
-function normalizeIndustry(industry: string): { primary: string; keywords: string[] } {
+// Enhanced industry mapping for broader search terms; also keys the exit multiple library
+export function normalizeIndustry(industry: string): { primary: string; keywords: string[] } {
   const normalized = industry.toLowerCase().trim();
   
   // Industry keyword mapping for better search results
@@ -50,9 +56,9 @@ function normalizeIndustry(industry: string): { primary: string; keywords: strin
     'cybersecurity': { primary: 'cybersecurity', keywords: ['information security', 'data protection', 'security software'] }
   };
   
-  // Check for exact matches first
+  // Check for exact matches first. Whole words only, so "retail" does not match "ai"
   for (const [key, value] of Object.entries(industryMap)) {
-    if (normalized.includes(key)) {
+    if (new RegExp(`(^|[^a-z])${key}($|[^a-z])`).test(normalized)) {
       return value;
     }
   }
@@ -81,11 +87,27 @@ interface ExternalResearchResult {
     multipleType: string;
   };
   researchQuality: 'comprehensive' | 'limited' | 'minimal' | 'unavailable';
+  cachedAt?: string; // Set when the result was served from the response cache
+}
+
+export interface ResearchOptions {
+  forceRefresh?: boolean; // Skip the cache read; the fresh result still replaces the cached one
+}
+
+/**
+ * Queries that would be sent for a company, or none when research would be skipped.
+ * Research results are cached by these queries, so companies in the same industry share them
+ */
+export function getResearchQueries(company: CompanyResearchData): string[] {
+  const triggers = shouldTriggerResearch(company);
+  if (!triggers.hasIndustry && !Object.values(triggers).some(Boolean)) return [];
+  return constructResearchQueries(company, triggers);
 }
 
 export async function conductExternalResearch(
   company: CompanyResearchData,
-  apiKey: string
+  apiKey: string,
+  options: ResearchOptions = {}
 ): Promise<ExternalResearchResult> {
   console.log('🔍 [Perplexity Research] Starting external research for:', company.companyName);
   console.log('🔑 [Perplexity Research] API Key present:', apiKey ? `${apiKey.substring(0, 8)}...` : 'NO KEY');
@@ -97,15 +119,6 @@ export async function conductExternalResearch(
     throw new Error('Perplexity API key is required for external research');
   }
   
-  // Quick API connectivity test
-  console.log('🧪 [Perplexity Research] Testing API connectivity...');
-  const testResult = await testPerplexityApiKey(apiKey);
-  if (!testResult.success) {
-    console.error('❌ [Perplexity Research] API key test failed:', testResult.error);
-    throw new Error(`Perplexity API key validation failed: ${testResult.error}`);
-  }
-  console.log('✅ [Perplexity Research] API key validated successfully');
-
   // Evaluate research triggers
   const triggers = shouldTriggerResearch(company);
   console.log('🎯 [Perplexity Research] Research triggers:', triggers);
@@ -138,8 +151,29 @@ export async function conductExternalResearch(
 
   console.log('📝 [Perplexity Research] Prepared queries:', queries);
 
+  const cacheKey = isResponseCacheAvailable()
+    ? await hashCacheKey({ version: RESEARCH_PROMPT_VERSION, model: RESEARCH_MODEL, queries })
+    : null;
+  if (cacheKey && !options.forceRefresh) {
+    const cached = await getCachedResponse<ExternalResearchResult>('research', cacheKey);
+    if (cached) {
+      console.log(`🗄️ [Perplexity Research] Using cached research from ${cached.createdAt} for:`, company.companyName);
+      return { ...cached.value, companyName: company.companyName, cachedAt: cached.createdAt };
+    }
+  }
+
+  // Quick API connectivity test, only once the cache could not answer
+  console.log('🧪 [Perplexity Research] Testing API connectivity...');
+  const testResult = await testPerplexityApiKey(apiKey);
+  if (!testResult.success) {
+    console.error('❌ [Perplexity Research] API key test failed:', testResult.error);
+    throw new Error(`Perplexity API key validation failed: ${testResult.error}`);
+  }
+  console.log('✅ [Perplexity Research] API key validated successfully');
+
   const results: string[] = [];
   const allSources: string[] = [];
+  let failedQueries = 0;
 
   for (let i = 0; i < queries.length; i++) {
     const query = queries[i];
@@ -147,7 +181,7 @@ export async function conductExternalResearch(
     
     try {
       const requestBody = {
-        model: 'sonar-reasoning',
+        model: RESEARCH_MODEL,
         messages: [
           {
             role: 'system',
@@ -240,6 +274,7 @@ Always cite specific sources for claims and include publication dates when avail
           statusText: response.statusText,
           body: errorText
         });
+        failedQueries++;
         results.push(`External research failed: ${response.status} ${response.statusText}`);
       }
       
@@ -253,6 +288,7 @@ Always cite specific sources for claims and include publication dates when avail
         message: error.message,
         stack: error.stack
       });
+      failedQueries++;
       results.push(`Research query failed: ${error.message}`);
     }
   }
@@ -260,7 +296,7 @@ Always cite specific sources for claims and include publication dates when avail
   // Parse structured insights from results
   const structuredInsights = parseStructuredInsights(results, allSources);
   
-  const finalResult = {
+  const finalResult: ExternalResearchResult = {
     companyName: company.companyName,
     marketIntelligence: results[0] || 'Market analysis unavailable',
     competitiveLandscape: results[1] || 'Competitive data unavailable', 
@@ -272,6 +308,11 @@ Always cite specific sources for claims and include publication dates when avail
   };
 
   console.log('🏁 [Perplexity Research] Final research result:', finalResult);
+
+  // Partial failures are not cached so the next run retries the missing queries
+  if (cacheKey && failedQueries === 0) {
+    await putCachedResponse('research', cacheKey, finalResult);
+  }
   return finalResult;
 }
 
@@ -480,7 +521,7 @@ export async function testPerplexityApiKey(apiKey: string): Promise<{ success: b
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'sonar-reasoning',
+        model: RESEARCH_MODEL,
         messages: [
           {
             role: 'user',
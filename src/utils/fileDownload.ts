@@ -0,0 +1,26 @@
+/**
+ * Triggers a browser download for generated content (JSON exports, reports)
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string = 'application/json') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a user-selected text file (e.g. an imported JSON export)
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(String(e.target?.result ?? ''));
+    reader.onerror = () => reject(new Error(`Failed to read file ${file.name}`));
+    reader.readAsText(file);
+  });
+}
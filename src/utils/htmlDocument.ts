@@ -0,0 +1,27 @@
+/**
+ * Helpers for the standalone HTML documents the app generates (IC memos, LP reports)
+ */
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Opens a document in a new window and starts the browser print dialog, where it can be saved as PDF
+ */
+export function printHtmlDocument(html: string) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Allow pop-ups for this site to save as PDF');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new document a tick to lay out before printing
+  setTimeout(() => printWindow.print(), 250);
+}
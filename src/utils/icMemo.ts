@@ -0,0 +1,394 @@
+/**
+ * Investment committee memo for a single analyzed company, built once as a structured document and
+ * rendered to Markdown, standalone HTML, or a print-ready page the browser can save as PDF
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { agreesWithRulesBaseline } from './rulesAnalysis';
+import { calculateReturnMetrics, formatIrr } from './returnMetrics';
+import { formatScoringModelVersion, SCORE_CATEGORIES } from './scoringModel';
+import { formatCurrency } from './numberFormatting';
+import { downloadFile } from './fileDownload';
+import { escapeHtml, printHtmlDocument } from './htmlDocument';
+
+export type MemoFormat = 'markdown' | 'html' | 'pdf';
+
+interface MemoRow {
+  label: string;
+  value: string;
+}
+
+interface RevenuePoint {
+  label: string;
+  value: number | null;
+  projected: boolean;
+}
+
+interface ScenarioRow {
+  scenario: string;
+  exitValue: string;
+  ownership: string;
+  moic: string;
+  irr: string;
+  probability: string;
+}
+
+interface ScoreFactorRow {
+  score: string;
+  factor: string;
+  input: string;
+  points: string; // "12/25", or "excluded"
+  basis: string;
+}
+
+interface MemoSection {
+  title: string;
+  body: string; // Analysis text; may carry **bold** markup and line breaks from the model
+}
+
+export interface ICMemo {
+  companyName: string;
+  subtitle: string;
+  generatedAt: string;
+  summary: MemoRow[];
+  metrics: MemoRow[];
+  revenueTimeline: RevenuePoint[];
+  scoreBreakdown: ScoreFactorRow[];
+  scenarios: ScenarioRow[];
+  expectedMoic: string | null;
+  expectedIrr: string | null;
+  narrative: MemoSection[];
+  sources: string[];
+  caveats: string[];
+}
+
+const CONFIDENCE_LABELS: Record<number, string> = {
+  1: 'Very Low',
+  2: 'Low',
+  3: 'Medium',
+  4: 'High',
+  5: 'Very High'
+};
+
+function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined || isNaN(value) ? 'N/A' : `${value.toFixed(1)}%`;
+}
+
+function formatMultiple(value: number | null | undefined): string {
+  return value === null || value === undefined || isNaN(value) ? 'N/A' : `${value.toFixed(2)}x`;
+}
+
+function formatRating(value: number | null | undefined, scale: number): string {
+  return value === null || value === undefined || isNaN(value) ? 'N/A' : `${Math.round(value * 10) / 10}/${scale}`;
+}
+
+export function hasMemoContent(company: AnalyzedCompanyData): boolean {
+  return Boolean(company.recommendation);
+}
+
+export function buildICMemo(company: AnalyzedCompanyData): ICMemo {
+  const subtitle = [
+    company.industry,
+    company.seriesStage,
+    company.isExistingInvestment ? 'Existing portfolio company' : 'New investment opportunity',
+    company.sourceSheet
+  ].filter(Boolean).join(' · ');
+
+  const summary: MemoRow[] = [
+    { label: 'Recommendation', value: company.recommendation || 'Pending analysis' },
+    { label: 'Timing', value: company.timingBucket || 'N/A' },
+    { label: 'Confidence', value: company.confidence ? `${CONFIDENCE_LABELS[company.confidence] || company.confidence} (${company.confidence}/5)` : 'N/A' },
+    { label: 'Suggested Action', value: company.suggestedAction || 'N/A' },
+    ...(company.executiveSummary ? [
+      { label: 'Valuation', value: company.executiveSummary.valuationAssessment },
+      { label: 'Capital Efficiency', value: company.executiveSummary.capitalEfficiency },
+      { label: 'Market Validation', value: company.executiveSummary.marketValidation },
+      { label: 'Execution Risk', value: company.executiveSummary.executionRisk }
+    ] : [])
+  ];
+
+  const returnMetrics = calculateReturnMetrics(company);
+  const metrics: MemoRow[] = [
+    { label: 'Total Investment', value: formatCurrency(company.totalInvestment) },
+    { label: 'Equity Stake', value: formatPercent(company.equityStake) },
+    { label: 'Current MOIC', value: formatMultiple(company.moic) },
+    { label: 'Current Revenue', value: formatCurrency(company.currentRevenue ?? company.revenue) },
+    { label: 'ARR', value: formatCurrency(company.currentARR ?? company.arr) },
+    { label: 'TTM Revenue Growth', value: formatPercent(company.revenueGrowth) },
+    { label: 'Projected Revenue Growth', value: formatPercent(company.projectedRevenueGrowth) },
+    { label: 'Burn Multiple', value: formatMultiple(company.burnMultiple) },
+    { label: 'Runway', value: company.runway ? `${company.runway} months` : 'N/A' },
+    { label: 'TAM', value: formatRating(company.tam, 5) },
+    { label: 'Barrier to Entry', value: formatRating(company.barrierToEntry, 5) },
+    { label: 'Investor Interest', value: formatRating(company.investorInterest, 5) },
+    { label: 'Round Complexity', value: formatRating(company.roundComplexity, 5) },
+    { label: 'Pre-Money Valuation', value: formatCurrency(company.preMoneyValuation) },
+    { label: 'Post-Money Valuation', value: formatCurrency(company.postMoneyValuation) },
+    { label: 'Additional Investment Requested', value: formatCurrency(company.additionalInvestmentRequested) },
+    { label: 'Exit Timeline', value: company.exitTimeline ? `${company.exitTimeline} years` : '3 years (default)' },
+    ...(returnMetrics ? [
+      { label: 'Current TVPI / DPI', value: `${formatMultiple(returnMetrics.currentTvpi)} / ${formatMultiple(returnMetrics.currentDpi)}` },
+      { label: 'Expected IRR', value: formatIrr(returnMetrics.expectedIrr) },
+      { label: 'Annualized Risk-Adjusted Return', value: formatIrr(returnMetrics.annualizedRiskAdjustedReturn) }
+    ] : []),
+    { label: 'Market Credibility', value: formatRating(company.marketCredibilityScore, 100) },
+    { label: 'Capital Efficiency Score', value: formatRating(company.capitalEfficiencyScore, 100) },
+    { label: 'Execution Credibility', value: formatRating(company.executionCredibilityScore, 100) },
+    { label: 'Scoring Model', value: formatScoringModelVersion(company.scoringModelVersion) }
+  ];
+
+  const scoreBreakdown: ScoreFactorRow[] = company.scoreBreakdown && !company.insufficientData
+    ? SCORE_CATEGORIES.flatMap(({ key, label }) => company.scoreBreakdown[key].factors.map(factor => ({
+      score: label,
+      factor: factor.label,
+      input: factor.input === null ? 'Missing' : typeof factor.input === 'number' ? String(Math.round(factor.input * 100) / 100) : factor.input,
+      points: factor.excluded ? 'excluded' : `${Math.round(factor.points * 10) / 10}/${factor.maxPoints}`,
+      basis: factor.excluded ? 'Excluded' : factor.usedDefault ? 'Default' : 'Reported'
+    })))
+    : [];
+
+  const revenueTimeline: RevenuePoint[] = [
+    { label: 'Year -2', value: company.revenueYearMinus2, projected: false },
+    { label: 'Year -1', value: company.revenueYearMinus1, projected: false },
+    { label: 'Current', value: company.currentRevenue, projected: false },
+    { label: 'Year +1', value: company.projectedRevenueYear1, projected: true },
+    { label: 'Year +2', value: company.projectedRevenueYear2, projected: true }
+  ].map(point => ({ ...point, value: point.value ?? null }));
+
+  const scenarios: ScenarioRow[] = company.scenarios
+    ? (['bear', 'base', 'bull'] as const).map(key => ({
+      scenario: `${key[0].toUpperCase()}${key.slice(1)}`,
+      exitValue: formatCurrency(company.scenarios[key].exitValue),
+      ownership: formatPercent(company.scenarios[key].ownership),
+      moic: formatMultiple(company.scenarios[key].moic),
+      irr: formatIrr(returnMetrics?.scenarios[key].irr),
+      probability: `${(company.scenarios[key].probability * 100).toFixed(0)}%`
+    }))
+    : [];
+  const expectedMoic = company.scenarios
+    ? formatMultiple((['bear', 'base', 'bull'] as const)
+      .reduce((total, key) => total + company.scenarios[key].moic * company.scenarios[key].probability, 0))
+    : null;
+  const expectedIrr = returnMetrics ? formatIrr(returnMetrics.expectedIrr) : null;
+
+  const narrative: MemoSection[] = [
+    { title: 'Investment Reasoning', body: company.reasoning },
+    { title: 'Projected Exit Value Range', body: company.projectedExitValueRange },
+    { title: 'Risk-Adjusted Monetization', body: company.riskAdjustedMonetizationSummary },
+    { title: 'Key Risks', body: company.keyRisks }
+  ].filter(section => section.body && section.body.trim());
+
+  const sources = [
+    ...(company.externalSources ? [company.externalSources] : []),
+    ...(company.sourceAttributions || [])
+  ];
+
+  const caveats = [
+    ...(company.insufficientData ? ['Insufficient data: recommendation is provisional until the revenue timeline is complete'] : []),
+    ...(company.dataQualityWarnings || []),
+    ...(company.validationStatus === 'failed' ? ['The model response failed schema validation; results are placeholders'] : []),
+    ...(company.validationStatus === 'repaired' ? ['The model response was repaired after failing schema validation'] : []),
+    ...(company.analysisSource === 'rules' ? ['Rules-only analysis: no language model or external research was used'] : []),
+    ...(agreesWithRulesBaseline(company) === false ? [`The rules baseline disagrees: ${company.rulesBaseline.recommendation}`] : []),
+    ...(company.researchQuality && company.researchQuality !== 'comprehensive' ? [`External research quality: ${company.researchQuality}`] : []),
+    ...(company.cacheHit && company.cachedAt ? [`Analysis reused from ${new Date(company.cachedAt).toLocaleDateString()}`] : [])
+  ];
+
+  return {
+    companyName: company.companyName,
+    subtitle,
+    generatedAt: new Date().toISOString(),
+    summary,
+    metrics,
+    revenueTimeline,
+    scoreBreakdown,
+    scenarios,
+    expectedMoic,
+    expectedIrr,
+    narrative,
+    sources,
+    caveats
+  };
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+export function renderMemoMarkdown(memo: ICMemo): string {
+  const lines: string[] = [
+    `# Investment Committee Memo: ${memo.companyName}`,
+    '',
+    ...(memo.subtitle ? [`_${memo.subtitle}_`, ''] : []),
+    `Prepared ${new Date(memo.generatedAt).toLocaleDateString()}`,
+    '',
+    '## Executive Summary',
+    '',
+    ...memo.summary.map(row => `- **${row.label}:** ${row.value}`),
+    '',
+    '## Key Metrics',
+    '',
+    '| Metric | Value |',
+    '| --- | ---: |',
+    ...memo.metrics.map(row => `| ${markdownCell(row.label)} | ${markdownCell(row.value)} |`),
+    '',
+    ...(memo.scoreBreakdown.length > 0 ? [
+      '## Score Breakdown',
+      '',
+      '| Score | Factor | Input | Points | Basis |',
+      '| --- | --- | ---: | ---: | --- |',
+      ...memo.scoreBreakdown.map(row => `| ${row.score} | ${markdownCell(row.factor)} | ${markdownCell(row.input)} | ${row.points} | ${row.basis} |`),
+      ''
+    ] : []),
+    '## Revenue Timeline',
+    ''
+  ];
+
+  const maxRevenue = Math.max(0, ...memo.revenueTimeline.map(point => point.value ?? 0));
+  if (maxRevenue > 0) {
+    lines.push('| Period | Revenue | |', '| --- | ---: | --- |');
+    memo.revenueTimeline.forEach(point => {
+      const bar = point.value && point.value > 0 ? '█'.repeat(Math.max(1, Math.round((point.value / maxRevenue) * 20))) : '';
+      lines.push(`| ${point.label}${point.projected ? ' (projected)' : ''} | ${formatCurrency(point.value)} | ${bar} |`);
+    });
+  } else {
+    lines.push('No revenue timeline was provided.');
+  }
+  lines.push('');
+
+  if (memo.scenarios.length > 0) {
+    lines.push(
+      '## Exit Scenarios',
+      '',
+      '| Scenario | Exit Value | Ownership | MOIC | IRR | Probability |',
+      '| --- | ---: | ---: | ---: | ---: | ---: |',
+      ...memo.scenarios.map(row => `| ${row.scenario} | ${row.exitValue} | ${row.ownership} | ${row.moic} | ${row.irr} | ${row.probability} |`),
+      '',
+      `**Probability-weighted MOIC:** ${memo.expectedMoic}${memo.expectedIrr ? ` (expected IRR ${memo.expectedIrr})` : ''}`,
+      ''
+    );
+  }
+
+  memo.narrative.forEach(section => lines.push(`## ${section.title}`, '', section.body.trim(), ''));
+
+  lines.push('## Sources', '');
+  lines.push(...(memo.sources.length > 0 ? memo.sources.map(source => `- ${source}`) : ['Internal portfolio data only.']), '');
+
+  if (memo.caveats.length > 0) {
+    lines.push('## Data-Quality Caveats', '', ...memo.caveats.map(caveat => `- ${caveat}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+// Model text uses **bold** and newlines; everything else is escaped
+function renderRichText(text: string): string {
+  return escapeHtml(text.trim())
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\n/g, '<br>');
+}
+
+function renderRevenueChart(points: RevenuePoint[]): string {
+  const maxRevenue = Math.max(0, ...points.map(point => point.value ?? 0));
+  if (maxRevenue <= 0) return '<p class="muted">No revenue timeline was provided.</p>';
+
+  const width = 520;
+  const height = 200;
+  const chartHeight = 150;
+  const slot = width / points.length;
+  const barWidth = slot * 0.55;
+
+  const bars = points.map((point, index) => {
+    const x = index * slot + (slot - barWidth) / 2;
+    const barHeight = point.value && point.value > 0 ? (point.value / maxRevenue) * chartHeight : 0;
+    const y = 20 + chartHeight - barHeight;
+    const fill = point.projected ? '#93c5fd' : '#2563eb';
+    return [
+      barHeight > 0 ? `<rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" fill="${fill}" rx="2" />` : '',
+      `<text x="${x + barWidth / 2}" y="${y - 4}" text-anchor="middle" font-size="10">${escapeHtml(formatCurrency(point.value))}</text>`,
+      `<text x="${x + barWidth / 2}" y="${height - 12}" text-anchor="middle" font-size="10" fill="#555">${point.label}</text>`
+    ].join('');
+  }).join('');
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Revenue timeline">${bars}</svg>
+<p class="muted">Dark bars are reported revenue, light bars are projections.</p>`;
+}
+
+function renderRows(rows: MemoRow[]): string {
+  return rows.map(row => `<tr><th>${escapeHtml(row.label)}</th><td>${renderRichText(row.value)}</td></tr>`).join('');
+}
+
+export function renderMemoHtml(memo: ICMemo): string {
+  const scenarios = memo.scenarios.length > 0 ? `
+<h2>Exit Scenarios</h2>
+<table class="grid">
+  <thead><tr><th>Scenario</th><th>Exit Value</th><th>Ownership</th><th>MOIC</th><th>IRR</th><th>Probability</th></tr></thead>
+  <tbody>${memo.scenarios.map(row => `<tr><td>${row.scenario}</td><td>${escapeHtml(row.exitValue)}</td><td>${row.ownership}</td><td>${row.moic}</td><td>${row.irr}</td><td>${row.probability}</td></tr>`).join('')}</tbody>
+</table>
+<p><strong>Probability-weighted MOIC:</strong> ${memo.expectedMoic}${memo.expectedIrr ? ` (expected IRR ${memo.expectedIrr})` : ''}</p>` : '';
+
+  const scoreBreakdown = memo.scoreBreakdown.length > 0 ? `
+<h2>Score Breakdown</h2>
+<table class="grid">
+  <thead><tr><th>Score</th><th>Factor</th><th>Input</th><th>Points</th><th>Basis</th></tr></thead>
+  <tbody>${memo.scoreBreakdown.map(row => `<tr><td>${row.score}</td><td>${escapeHtml(row.factor)}</td><td>${escapeHtml(row.input)}</td><td>${row.points}</td><td>${row.basis}</td></tr>`).join('')}</tbody>
+</table>
+<p class="muted">Default rows were scored without the company's figures, from the scoring model's missing-data or fallback points.</p>` : '';
+
+  const caveats = memo.caveats.length > 0 ? `
+<h2>Data-Quality Caveats</h2>
+<ul class="caveats">${memo.caveats.map(caveat => `<li>${escapeHtml(caveat)}</li>`).join('')}</ul>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>IC Memo - ${escapeHtml(memo.companyName)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 780px; margin: 32px auto; padding: 0 24px; line-height: 1.5; font-size: 13px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 15px; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 24px; page-break-after: avoid; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 8px; border-bottom: 1px solid #eee; }
+  table.metrics th { width: 45%; font-weight: normal; color: #555; }
+  table.grid th { background: #f3f4f6; }
+  table.grid td:not(:first-child), table.grid th:not(:first-child) { text-align: right; }
+  .muted { color: #666; font-size: 11px; }
+  .caveats li { color: #92400e; }
+  section, table, svg { page-break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } @page { margin: 18mm; } }
+</style>
+</head>
+<body>
+<h1>Investment Committee Memo: ${escapeHtml(memo.companyName)}</h1>
+<p class="muted">${escapeHtml(memo.subtitle)}${memo.subtitle ? ' · ' : ''}Prepared ${new Date(memo.generatedAt).toLocaleDateString()}</p>
+<h2>Executive Summary</h2>
+<table class="metrics"><tbody>${renderRows(memo.summary)}</tbody></table>
+<h2>Key Metrics</h2>
+<table class="metrics"><tbody>${renderRows(memo.metrics)}</tbody></table>
+${scoreBreakdown}
+<h2>Revenue Timeline</h2>
+${renderRevenueChart(memo.revenueTimeline)}
+${scenarios}
+${memo.narrative.map(section => `<section><h2>${escapeHtml(section.title)}</h2><p>${renderRichText(section.body)}</p></section>`).join('\n')}
+<h2>Sources</h2>
+${memo.sources.length > 0 ? `<ul>${memo.sources.map(source => `<li>${escapeHtml(source)}</li>`).join('')}</ul>` : '<p>Internal portfolio data only.</p>'}
+${caveats}
+</body>
+</html>`;
+}
+
+export function exportICMemo(company: AnalyzedCompanyData, format: MemoFormat) {
+  const memo = buildICMemo(company);
+  const baseName = `ic-memo-${company.companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'company'}`;
+
+  if (format === 'markdown') {
+    downloadFile(renderMemoMarkdown(memo), `${baseName}.md`, 'text/markdown');
+  } else if (format === 'html') {
+    downloadFile(renderMemoHtml(memo), `${baseName}.html`, 'text/html');
+  } else {
+    printHtmlDocument(renderMemoHtml(memo));
+    console.log(`📝 [IC Memo] Opened print view for ${company.companyName}`);
+    return;
+  }
+  console.log(`📝 [IC Memo] Exported ${format} memo for ${company.companyName}`);
+}
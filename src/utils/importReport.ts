@@ -0,0 +1,122 @@
+/**
+ * Structured import validation report
+ * Collects every cell that failed conversion, suspicious values and duplicate companies found while importing a spreadsheet
+ */
+
+export type ImportIssueSeverity = 'error' | 'warning' | 'info';
+
+export type ImportIssueKind =
+  | 'conversion' // Cell could not be converted and was set to null
+  | 'placeholder' // Cell held a placeholder such as "N/A" or "-" and was treated as missing
+  | 'defaulted' // Cell was out of range and replaced with a default
+  | 'suspicious' // Value converted but looks wrong (negative revenue, equity stake > 100%)
+  | 'duplicate' // Company name appears on more than one row
+  | 'skipped-row'; // Row has data but no company name
+
+export interface ImportIssue {
+  sheetName?: string; // Set when the issue comes from a multi-sheet import
+  rowNumber: number | null; // 1-based spreadsheet row, null for sheet-level issues
+  companyName: string | null;
+  columnHeader: string | null;
+  field: string | null;
+  rawValue: string | null;
+  severity: ImportIssueSeverity;
+  kind: ImportIssueKind;
+  message: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  sheetName: string;
+  generatedAt: string;
+  dataRowCount: number;
+  importedCompanyCount: number;
+  issues: ImportIssue[];
+}
+
+export interface ImportReportSummary {
+  errors: number;
+  warnings: number;
+  info: number;
+  affectedRows: number;
+}
+
+/**
+ * Combines the reports of several sheets imported from the same workbook
+ */
+export function mergeImportReports(reports: ImportReport[]): ImportReport {
+  if (reports.length === 1) return reports[0];
+  return {
+    fileName: reports[0]?.fileName || '',
+    sheetName: reports.map(report => report.sheetName).join(', '),
+    generatedAt: new Date().toISOString(),
+    dataRowCount: reports.reduce((sum, report) => sum + report.dataRowCount, 0),
+    importedCompanyCount: reports.reduce((sum, report) => sum + report.importedCompanyCount, 0),
+    issues: reports.flatMap(report => report.issues.map(issue => ({ ...issue, sheetName: report.sheetName })))
+  };
+}
+
+export function summarizeImportReport(report: ImportReport): ImportReportSummary {
+  return {
+    errors: report.issues.filter(issue => issue.severity === 'error').length,
+    warnings: report.issues.filter(issue => issue.severity === 'warning').length,
+    info: report.issues.filter(issue => issue.severity === 'info').length,
+    affectedRows: new Set(report.issues.filter(issue => issue.rowNumber !== null).map(issue => `${issue.sheetName || ''}:${issue.rowNumber}`)).size
+  };
+}
+
+/**
+ * Flags company names that appear on more than one row (case and whitespace insensitive)
+ */
+export function findDuplicateCompanyIssues(companies: { companyName: string; rowNumber: number }[]): ImportIssue[] {
+  const rowsByName = new Map<string, { companyName: string; rowNumber: number }[]>();
+  companies.forEach(company => {
+    const key = company.companyName.trim().toLowerCase().replace(/\s+/g, ' ');
+    rowsByName.set(key, [...(rowsByName.get(key) || []), company]);
+  });
+
+  const issues: ImportIssue[] = [];
+  rowsByName.forEach(entries => {
+    if (entries.length < 2) return;
+    const rowList = entries.map(entry => entry.rowNumber).join(', ');
+    entries.forEach(entry => {
+      issues.push({
+        rowNumber: entry.rowNumber,
+        companyName: entry.companyName,
+        columnHeader: null,
+        field: 'companyName',
+        rawValue: entry.companyName,
+        severity: 'warning',
+        kind: 'duplicate',
+        message: `Company appears on ${entries.length} rows (${rowList}); each row is imported separately`
+      });
+    });
+  });
+  return issues;
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function importReportToCsv(report: ImportReport): string {
+  const header = ['Sheet', 'Row', 'Company', 'Column', 'Field', 'Value', 'Severity', 'Type', 'Message'];
+  const lines = report.issues.map(issue => [
+    issue.sheetName || report.sheetName,
+    issue.rowNumber,
+    issue.companyName,
+    issue.columnHeader,
+    issue.field,
+    issue.rawValue,
+    issue.severity,
+    issue.kind,
+    issue.message
+  ].map(escapeCsvValue).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
+
+export function importReportToJson(report: ImportReport): string {
+  return JSON.stringify({ ...report, summary: summarizeImportReport(report) }, null, 2);
+}
@@ -0,0 +1,99 @@
+/**
+ * Promise wrapper around the app's IndexedDB database
+ * Used for data too large or too long-lived for localStorage (analysis runs, cached responses, workspace history)
+ */
+
+const DB_NAME = 'venture-decision-engine';
+const DB_VERSION = 3;
+
+// Every store is keyed by its records' "id" field. Add new stores here and bump DB_VERSION
+const STORE_NAMES = ['analysisRuns', 'responseCache', 'workspaces', 'workspaceUploads', 'workspaceRuns'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      let isBlocked = false;
+      request.onsuccess = () => {
+        const database = request.result;
+        // Already rejected as blocked; the next call opens a fresh connection
+        if (isBlocked) {
+          database.close();
+          return;
+        }
+        // Let another tab upgrade the schema instead of leaving its open request hanging on us
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        resolve(database);
+      };
+      // Another tab still holds an older version open, and the upgrade would wait until it closes
+      request.onblocked = () => {
+        isBlocked = true;
+        databasePromise = null;
+        reject(new Error('The database upgrade is blocked by another open tab of this app; close it and try again'));
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error || new Error('Failed to open IndexedDB'));
+      };
+    });
+  }
+
+  return databasePromise;
+}
+
+// Resolves once the transaction commits so callers know the write is durable
+async function runTransaction<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || new Error(`IndexedDB ${mode} on ${storeName} failed`));
+    transaction.onabort = () => reject(transaction.error || new Error(`IndexedDB ${mode} on ${storeName} was aborted`));
+  });
+}
+
+export function idbGet<T>(storeName: StoreName, id: string): Promise<T | undefined> {
+  return runTransaction<T | undefined>(storeName, 'readonly', store => store.get(id));
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return runTransaction<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+export async function idbPut<T extends { id: string }>(storeName: StoreName, value: T): Promise<void> {
+  await runTransaction(storeName, 'readwrite', store => store.put(value));
+}
+
+export async function idbDelete(storeName: StoreName, id: string): Promise<void> {
+  await runTransaction(storeName, 'readwrite', store => store.delete(id));
+}
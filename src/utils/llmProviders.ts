@@ -0,0 +1,366 @@
+/**
+ * Pluggable LLM provider layer
+ * Runs the same prompt pipeline on OpenAI, Anthropic, Azure OpenAI or any OpenAI-compatible endpoint (Ollama, llama.cpp)
+ */
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure-openai' | 'openai-compatible';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  apiKey: string;
+  model: string; // Deployment name for Azure OpenAI
+  temperature: number;
+  maxTokens: number;
+  baseUrl: string; // API root, or the resource endpoint for Azure OpenAI
+  apiVersion?: string; // Azure OpenAI only
+  concurrency: number; // Companies analyzed in parallel
+  requestsPerMinute: number; // Rate limit applied across all parallel requests
+}
+
+export interface LLMSettings {
+  activeProvider: LLMProviderId;
+  providers: Record<LLMProviderId, LLMProviderConfig>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  jsonMode?: boolean; // Ask the provider to return a single JSON object where supported
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  truncated: boolean; // Generation stopped at the token limit
+  provider: LLMProviderId;
+  model: string;
+}
+
+// Errors raised by a provider carry the HTTP status so callers can decide whether to retry
+export interface LLMProviderError extends Error {
+  provider: LLMProviderId;
+  status: number | null;
+  retryAfterMs: number | null; // From the Retry-After header on 429/503 responses
+}
+
+interface ProviderDefinition {
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  defaults: LLMProviderConfig;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, ProviderDefinition> = {
+  'openai': {
+    label: 'OpenAI',
+    description: 'OpenAI Chat Completions API',
+    requiresApiKey: true,
+    defaults: {
+      provider: 'openai',
+      apiKey: '',
+      model: 'gpt-4.1-2025-04-14',
+      temperature: 0.3,
+      maxTokens: 2500,
+      baseUrl: 'https://api.openai.com/v1',
+      concurrency: 4,
+      requestsPerMinute: 60
+    }
+  },
+  'anthropic': {
+    label: 'Anthropic',
+    description: 'Anthropic Messages API',
+    requiresApiKey: true,
+    defaults: {
+      provider: 'anthropic',
+      apiKey: '',
+      model: 'claude-sonnet-4-20250514',
+      temperature: 0.3,
+      maxTokens: 4000,
+      baseUrl: 'https://api.anthropic.com/v1',
+      concurrency: 3,
+      requestsPerMinute: 50
+    }
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    description: 'OpenAI models deployed in your Azure tenant',
+    requiresApiKey: true,
+    defaults: {
+      provider: 'azure-openai',
+      apiKey: '',
+      model: '',
+      temperature: 0.3,
+      maxTokens: 2500,
+      baseUrl: '',
+      apiVersion: '2024-10-21',
+      concurrency: 3,
+      requestsPerMinute: 60
+    }
+  },
+  'openai-compatible': {
+    label: 'OpenAI-Compatible (Local)',
+    description: 'Ollama, llama.cpp, vLLM or any server exposing /v1/chat/completions',
+    requiresApiKey: false,
+    defaults: {
+      provider: 'openai-compatible',
+      apiKey: '',
+      model: 'llama3.1',
+      temperature: 0.3,
+      maxTokens: 2500,
+      baseUrl: 'http://localhost:11434/v1',
+      concurrency: 1,
+      requestsPerMinute: 600
+    }
+  }
+};
+
+const SETTINGS_STORAGE_KEY = 'llm_provider_settings';
+const LEGACY_OPENAI_KEY = 'openai_api_key';
+
+function createDefaultSettings(): LLMSettings {
+  return {
+    activeProvider: 'openai',
+    providers: {
+      'openai': { ...LLM_PROVIDERS['openai'].defaults },
+      'anthropic': { ...LLM_PROVIDERS['anthropic'].defaults },
+      'azure-openai': { ...LLM_PROVIDERS['azure-openai'].defaults },
+      'openai-compatible': { ...LLM_PROVIDERS['openai-compatible'].defaults }
+    }
+  };
+}
+
+/**
+ * Loads provider settings, filling gaps with defaults and the key saved by earlier versions under "openai_api_key"
+ */
+export function getLLMSettings(): LLMSettings {
+  const settings = createDefaultSettings();
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<LLMSettings>;
+      if (parsed.activeProvider && parsed.activeProvider in LLM_PROVIDERS) {
+        settings.activeProvider = parsed.activeProvider;
+      }
+      (Object.keys(LLM_PROVIDERS) as LLMProviderId[]).forEach(id => {
+        settings.providers[id] = { ...settings.providers[id], ...parsed.providers?.[id], provider: id };
+      });
+    }
+  } catch (error) {
+    console.error('🧠 [LLM Providers] Failed to load provider settings:', error);
+  }
+
+  if (!settings.providers.openai.apiKey) {
+    settings.providers.openai.apiKey = localStorage.getItem(LEGACY_OPENAI_KEY) || '';
+  }
+
+  return settings;
+}
+
+export function saveLLMSettings(settings: LLMSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  // Keep the legacy key in sync for older builds sharing this browser profile
+  if (settings.providers.openai.apiKey) {
+    localStorage.setItem(LEGACY_OPENAI_KEY, settings.providers.openai.apiKey);
+  }
+  console.log(`💾 [LLM Providers] Saved settings, active provider: ${LLM_PROVIDERS[settings.activeProvider].label}`);
+}
+
+export function getActiveProviderConfig(settings: LLMSettings = getLLMSettings()): LLMProviderConfig {
+  return settings.providers[settings.activeProvider];
+}
+
+/**
+ * Lists what is missing before a provider can be called (empty when ready)
+ */
+export function getProviderConfigurationIssues(config: LLMProviderConfig): string[] {
+  const issues: string[] = [];
+  const definition = LLM_PROVIDERS[config.provider];
+
+  if (definition.requiresApiKey && !config.apiKey.trim()) issues.push('API key is required');
+  if (!config.baseUrl.trim()) issues.push(config.provider === 'azure-openai' ? 'Endpoint is required' : 'Base URL is required');
+  if (!config.model.trim()) issues.push(config.provider === 'azure-openai' ? 'Deployment name is required' : 'Model is required');
+  if (config.provider === 'azure-openai' && !config.apiVersion?.trim()) issues.push('API version is required');
+  if (!(config.maxTokens > 0)) issues.push('Max tokens must be positive');
+  if (!(config.temperature >= 0 && config.temperature <= 2)) issues.push('Temperature must be between 0 and 2');
+  if (!(Number.isInteger(config.concurrency) && config.concurrency >= 1)) issues.push('Concurrency must be a whole number of at least 1');
+  if (!(config.requestsPerMinute > 0)) issues.push('Requests per minute must be positive');
+
+  return issues;
+}
+
+export function isProviderConfigured(config: LLMProviderConfig): boolean {
+  return getProviderConfigurationIssues(config).length === 0;
+}
+
+export function describeProvider(config: LLMProviderConfig): string {
+  return `${LLM_PROVIDERS[config.provider].label} · ${config.model || 'no model'}`;
+}
+
+function createProviderError(
+  provider: LLMProviderId,
+  message: string,
+  status: number | null = null,
+  retryAfterMs: number | null = null
+): LLMProviderError {
+  return Object.assign(new Error(message), { provider, status, retryAfterMs });
+}
+
+// Retry-After is either delay seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function isLLMProviderError(error: unknown): error is LLMProviderError {
+  return error instanceof Error && 'provider' in error && 'status' in error;
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+async function postJson(
+  provider: LLMProviderId,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw createProviderError(provider, `Could not reach ${LLM_PROVIDERS[provider].label} at ${url}: ${error instanceof Error ? error.message : 'network error'}`);
+  }
+
+  console.log(`🧠 [LLM Providers] ${LLM_PROVIDERS[provider].label} response status:`, response.status);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ [LLM Providers] ${LLM_PROVIDERS[provider].label} API error:`, response.status, errorText);
+    throw createProviderError(
+      provider,
+      `${LLM_PROVIDERS[provider].label} API error: ${response.status} - ${errorText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  return response.json();
+}
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string }; finish_reason?: string }[];
+};
+
+// OpenAI, Azure OpenAI and OpenAI-compatible servers share the Chat Completions wire format
+async function completeChatCompletions(request: LLMCompletionRequest, config: LLMProviderConfig): Promise<LLMCompletion> {
+  const baseUrl = trimTrailingSlash(config.baseUrl);
+  const headers: Record<string, string> = {};
+  let url: string;
+
+  if (config.provider === 'azure-openai') {
+    url = `${baseUrl}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${encodeURIComponent(config.apiVersion || '')}`;
+    headers['api-key'] = config.apiKey;
+  } else {
+    url = `${baseUrl}/chat/completions`;
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const body: Record<string, unknown> = {
+    messages: request.messages,
+    temperature: config.temperature,
+    max_tokens: config.maxTokens
+  };
+  // Azure takes the model from the deployment in the URL
+  if (config.provider !== 'azure-openai') body.model = config.model;
+  if (request.jsonMode) body.response_format = { type: 'json_object' };
+
+  const data = await postJson(config.provider, url, headers, body, request.signal) as ChatCompletionResponse;
+  const choice = data.choices?.[0];
+
+  return {
+    content: choice?.message?.content || '',
+    truncated: choice?.finish_reason === 'length',
+    provider: config.provider,
+    model: config.model
+  };
+}
+
+type AnthropicResponse = {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+};
+
+async function completeAnthropic(request: LLMCompletionRequest, config: LLMProviderConfig): Promise<LLMCompletion> {
+  // The Messages API takes the system prompt separately from the conversation
+  const system = request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+  const messages = request.messages
+    .filter(message => message.role !== 'system')
+    .map(message => ({ role: message.role, content: message.content }));
+
+  if (request.jsonMode) {
+    // No native JSON mode: prefill the assistant turn so the reply starts inside the object
+    messages.push({ role: 'assistant', content: '{' });
+  }
+
+  const data = await postJson(
+    'anthropic',
+    `${trimTrailingSlash(config.baseUrl)}/messages`,
+    {
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    {
+      model: config.model,
+      system: system || undefined,
+      messages,
+      temperature: config.temperature,
+      max_tokens: config.maxTokens
+    },
+    request.signal
+  ) as AnthropicResponse;
+
+  const text = (data.content || [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text || '')
+    .join('');
+
+  return {
+    content: request.jsonMode ? `{${text}` : text,
+    truncated: data.stop_reason === 'max_tokens',
+    provider: 'anthropic',
+    model: config.model
+  };
+}
+
+/**
+ * Sends a chat request to the configured provider
+ */
+export async function completeChat(request: LLMCompletionRequest, config: LLMProviderConfig = getActiveProviderConfig()): Promise<LLMCompletion> {
+  const issues = getProviderConfigurationIssues(config);
+  if (issues.length > 0) {
+    throw createProviderError(config.provider, `${LLM_PROVIDERS[config.provider].label} is not configured: ${issues.join(', ')}`);
+  }
+
+  console.log(`🧠 [LLM Providers] Sending request via ${describeProvider(config)}`);
+
+  return config.provider === 'anthropic'
+    ? completeAnthropic(request, config)
+    : completeChatCompletions(request, config);
+}
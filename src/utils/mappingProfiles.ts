@@ -0,0 +1,201 @@
+import type { ColumnMappingDecision, MappableField } from './excelParser';
+import type { ValueUnit } from './numberFormatting';
+
+/**
+ * Saved column-mapping profiles
+ * Lets a team teach the importer a new spreadsheet template once (per portfolio company or LP report layout)
+ * instead of hard-coding every header variant into COLUMN_MAPPINGS
+ */
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  fingerprint: string;
+  headers: string[]; // Normalized headers of the template the profile was saved from
+  fieldMappings: Record<string, MappableField | null>; // Normalized header → field (null = ignored column)
+  columnUnits?: Record<string, ValueUnit>; // Normalized header → unit the analyst chose for a currency column
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MappingProfileMatch {
+  profile: MappingProfile;
+  coverage: number; // Share of the sheet's headers the profile knows about (0-1)
+  exact: boolean;
+}
+
+const STORAGE_KEY = 'column_mapping_profiles';
+const EXPORT_VERSION = 1;
+
+// Minimum header overlap for a profile to be applied to a sheet whose layout differs slightly
+const MIN_PROFILE_COVERAGE = 0.8;
+
+export function normalizeHeader(header: string): string {
+  if (!header || typeof header !== 'string') return '';
+  return header.toLowerCase().replace(/[^a-z0-9+-]/g, '');
+}
+
+function normalizeHeaders(headers: string[]): string[] {
+  return headers.map(normalizeHeader).filter(header => header.length > 0);
+}
+
+/**
+ * Order-sensitive hash of a sheet's normalized headers, used to recognize a template on upload
+ */
+export function computeHeaderFingerprint(headers: string[]): string {
+  const source = normalizeHeaders(headers).join('|');
+  let hash = 5381;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) + hash + source.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+function isMappingProfile(value: unknown): value is MappingProfile {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Partial<MappingProfile>;
+  return typeof profile.id === 'string'
+    && typeof profile.name === 'string'
+    && typeof profile.fingerprint === 'string'
+    && Array.isArray(profile.headers)
+    && !!profile.fieldMappings && typeof profile.fieldMappings === 'object';
+}
+
+export function getMappingProfiles(): MappingProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isMappingProfile) : [];
+  } catch (error) {
+    console.error('📋 [Mapping Profiles] Failed to load saved profiles:', error);
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: MappingProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Saves the reviewed mapping as a named profile
+ * A profile with the same name is overwritten so the team can refine a template over time
+ */
+export function saveMappingProfile(name: string, headers: string[], decisions: ColumnMappingDecision[]): MappingProfile {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Profile name is required');
+  }
+
+  const fieldMappings: Record<string, MappableField | null> = {};
+  const columnUnits: Record<string, ValueUnit> = {};
+  decisions.forEach(decision => {
+    const key = normalizeHeader(decision.header);
+    if (!key) return;
+    fieldMappings[key] = decision.matchType === 'ignored' ? null : decision.field;
+    // Only pin units the analyst confirmed; detected units are re-detected for each upload
+    if (decision.unit && (decision.unitSource === 'manual' || decision.unitSource === 'profile')) {
+      columnUnits[key] = decision.unit;
+    }
+  });
+
+  const profiles = getMappingProfiles();
+  const existing = profiles.find(profile => profile.name.toLowerCase() === trimmedName.toLowerCase());
+  const now = new Date().toISOString();
+
+  const profile: MappingProfile = {
+    id: existing?.id || `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: trimmedName,
+    fingerprint: computeHeaderFingerprint(headers),
+    headers: normalizeHeaders(headers),
+    fieldMappings,
+    columnUnits,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+
+  storeMappingProfiles(existing
+    ? profiles.map(saved => saved.id === existing.id ? profile : saved)
+    : [...profiles, profile]);
+
+  console.log(`📋 [Mapping Profiles] Saved "${profile.name}" (${Object.keys(fieldMappings).length} columns, fingerprint ${profile.fingerprint})`);
+  return profile;
+}
+
+export function deleteMappingProfile(id: string) {
+  storeMappingProfiles(getMappingProfiles().filter(profile => profile.id !== id));
+}
+
+/**
+ * Serializes profiles so they can be shared with the rest of the team
+ */
+export function exportMappingProfiles(profiles: MappingProfile[] = getMappingProfiles()): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), profiles }, null, 2);
+}
+
+/**
+ * Merges profiles from an exported JSON file, replacing saved profiles with the same name
+ */
+export function importMappingProfiles(json: string): { imported: number; skipped: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Profile file is not valid JSON');
+  }
+
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(candidates)) {
+    throw new Error('Profile file does not contain any mapping profiles');
+  }
+
+  const valid = candidates.filter(isMappingProfile);
+  const profiles = getMappingProfiles();
+
+  valid.forEach(incoming => {
+    const existingIndex = profiles.findIndex(profile => profile.name.toLowerCase() === incoming.name.toLowerCase());
+    if (existingIndex >= 0) {
+      profiles[existingIndex] = { ...incoming, id: profiles[existingIndex].id };
+    } else {
+      profiles.push(incoming);
+    }
+  });
+
+  storeMappingProfiles(profiles);
+  console.log(`📋 [Mapping Profiles] Imported ${valid.length} profiles, skipped ${candidates.length - valid.length} invalid entries`);
+  return { imported: valid.length, skipped: candidates.length - valid.length };
+}
+
+/**
+ * Finds the saved profile for a sheet: an exact fingerprint match first,
+ * otherwise the profile covering the most headers (at least MIN_PROFILE_COVERAGE)
+ */
+export function findMatchingProfile(headers: string[], profiles: MappingProfile[] = getMappingProfiles()): MappingProfileMatch | null {
+  if (profiles.length === 0) return null;
+
+  const fingerprint = computeHeaderFingerprint(headers);
+  const exactMatch = profiles.find(profile => profile.fingerprint === fingerprint);
+  if (exactMatch) {
+    console.log(`📋 [Mapping Profiles] Header fingerprint ${fingerprint} matches profile "${exactMatch.name}"`);
+    return { profile: exactMatch, coverage: 1, exact: true };
+  }
+
+  const sheetHeaders = normalizeHeaders(headers);
+  if (sheetHeaders.length === 0) return null;
+
+  let bestMatch: MappingProfileMatch | null = null;
+  for (const profile of profiles) {
+    const known = sheetHeaders.filter(header => header in profile.fieldMappings).length;
+    const coverage = known / sheetHeaders.length;
+    if (coverage >= MIN_PROFILE_COVERAGE && (!bestMatch || coverage > bestMatch.coverage)) {
+      bestMatch = { profile, coverage, exact: false };
+    }
+  }
+
+  if (bestMatch) {
+    console.log(`📋 [Mapping Profiles] Closest profile "${bestMatch.profile.name}" covers ${Math.round(bestMatch.coverage * 100)}% of headers`);
+  }
+  return bestMatch;
+}
@@ -156,6 +156,15 @@ export function validateRevenueAmount(
   return { isValid: true };
 }
 
+export type ValueUnit = 'dollars' | 'thousands' | 'millions';
+
+// Multiplier that converts a value expressed in the unit to raw dollars
+export const UNIT_MULTIPLIERS: Record<ValueUnit, number> = {
+  dollars: 1,
+  thousands: 1000,
+  millions: 1000000
+};
+
 /**
  * Smart unit detection for Excel parsing
  * Attempts to detect if values are in raw dollars, thousands, or millions
@@ -163,19 +172,19 @@ export function validateRevenueAmount(
 export function detectValueUnit(
   values: number[],
   columnHeader?: string
-): { unit: 'dollars' | 'thousands' | 'millions'; confidence: number } {
+): { unit: ValueUnit; confidence: number } {
   const validValues = values.filter(v => v > 0);
   
   if (validValues.length === 0) {
     return { unit: 'dollars', confidence: 0 };
   }
   
-  // Check header for unit indicators
+  // Check header for unit indicators: "(M)", "($M)", "$MM", "millions", "(K)", "$K", "thousands"
   const header = (columnHeader || '').toLowerCase();
-  if (header.includes('(m)') || header.includes('millions')) {
+  if (/\(\$?mm?\)|\$mm?\b|millions/.test(header)) {
     return { unit: 'millions', confidence: 0.9 };
   }
-  if (header.includes('(k)') || header.includes('thousands')) {
+  if (/\(\$?k\)|\$k\b|thousands/.test(header)) {
     return { unit: 'thousands', confidence: 0.9 };
   }
   if (header.includes('($)') || header.includes('dollars')) {
@@ -1,214 +1,40 @@
-import { conductExternalResearch, getPerplexityApiKey } from './externalResearch';
+import { CompanyResearchData, conductExternalResearch, getPerplexityApiKey, getResearchQueries } from './externalResearch';
 import { formatLargeNumber } from './numberFormatting';
-
-// Score-to-Language Translation Functions
-function translateMarketCredibility(score: number): string {
-  if (score >= 80) return "strong market validation and competitive positioning";
-  if (score >= 60) return "moderate market traction with growth potential";
-  if (score >= 40) return "emerging market opportunity requiring validation";
-  return "limited market validation signals";
-}
-
-function translateCapitalEfficiency(score: number): string {
-  if (score >= 80) return "exceptional capital discipline and deployment efficiency";
-  if (score >= 60) return "solid capital management with room for improvement";
-  if (score >= 40) return "concerning capital burn patterns requiring attention";
-  return "critical capital efficiency issues demanding immediate action";
-}
-
-function translateExecutionCredibility(score: number): string {
-  if (score >= 80) return "strong execution track record with consistent delivery";
-  if (score >= 60) return "moderate execution confidence with mixed historical performance";
-  if (score >= 40) return "limited execution validation requiring further proof points";
-  return "significant execution risks based on historical performance";
-}
-
-function getQualitativeRiskLevel(score: number): string {
-  if (score >= 80) return "Low";
-  if (score >= 60) return "Moderate";
-  if (score >= 40) return "High";
-  return "Critical";
-}
-
-function getConfidenceFromScores(marketScore: number, capitalScore: number, executionScore: number): number {
-  const averageScore = (marketScore + capitalScore + executionScore) / 3;
-  if (averageScore >= 80) return 5;
-  if (averageScore >= 65) return 4;
-  if (averageScore >= 50) return 3;
-  if (averageScore >= 35) return 2;
-  return 1;
-}
-
-// Enhanced Scoring Functions
-function calculateMarketCredibilityScore(company: CompanyData): number {
-  let score = 0;
-  
-  // TAM Score (20 points)
-  score += (company.tam / 5) * 20;
-  
-  // Exit Activity (15 points)
-  const exitActivityScore = (() => {
-    if (company.exitActivity.toLowerCase().includes('high')) return 15;
-    if (company.exitActivity.toLowerCase().includes('moderate')) return 10;
-    if (company.exitActivity.toLowerCase().includes('low')) return 5;
-    return 7; // Default moderate
-  })();
-  score += exitActivityScore;
-  
-  // Industry validation (15 points) - based on barrier to entry
-  score += (company.barrierToEntry / 5) * 15;
-  
-  // Investor Interest (10 points)
-  if (company.investorInterest !== null) {
-    score += (company.investorInterest / 5) * 10;
-  } else {
-    score += 5; // Default moderate
-  }
-  
-  return Math.min(100, Math.max(0, score));
-}
-
-function calculateCapitalEfficiencyScore(company: CompanyData): number {
-  let score = 0;
-  
-  // Burn Multiple (30 points)
-  if (company.burnMultiple !== null) {
-    if (company.burnMultiple <= 1.5) score += 30;
-    else if (company.burnMultiple <= 3) score += 20;
-    else if (company.burnMultiple <= 5) score += 10;
-    else score += 5;
-  } else {
-    score += 15; // Default moderate
-  }
-  
-  // Runway (20 points)
-  if (company.runway !== null) {
-    if (company.runway >= 18) score += 20;
-    else if (company.runway >= 12) score += 15;
-    else if (company.runway >= 6) score += 10;
-    else score += 5;
-  } else {
-    score += 10; // Default moderate
-  }
-  
-  // Revenue growth efficiency (25 points)
-  if (company.forwardCAGR2Y !== null && company.burnMultiple !== null) {
-    const growthEfficiency = company.forwardCAGR2Y / company.burnMultiple;
-    if (growthEfficiency >= 50) score += 25;
-    else if (growthEfficiency >= 30) score += 20;
-    else if (growthEfficiency >= 15) score += 15;
-    else if (growthEfficiency >= 5) score += 10;
-    else score += 5;
-  } else {
-    score += 12; // Default moderate
-  }
-  
-  // MOIC (25 points)
-  if (company.moic !== null) {
-    if (company.moic >= 3) score += 25;
-    else if (company.moic >= 2) score += 20;
-    else if (company.moic >= 1.5) score += 15;
-    else if (company.moic >= 1) score += 10;
-    else score += 5;
-  } else {
-    score += 12; // Default moderate
-  }
-  
-  return Math.min(100, Math.max(0, score));
-}
-
-function calculateExecutionCredibilityScore(company: CompanyData): number {
-  let score = 0;
-  
-  // Growth consistency (30 points)
-  if (company.historicalCAGR2Y !== null && company.forwardCAGR2Y !== null) {
-    const growthRatio = company.forwardCAGR2Y / Math.max(company.historicalCAGR2Y, 1);
-    if (growthRatio <= 1.5) score += 30; // Conservative projections
-    else if (growthRatio <= 2.5) score += 25; // Reasonable stretch
-    else if (growthRatio <= 4) score += 15; // Aggressive but possible
-    else score += 5; // Hockey stick risk
-  } else {
-    score += 15; // Default moderate
-  }
-  
-  // Projection realism (25 points) - Revenue trajectory score
-  if (company.revenueTrajectoryScore !== null) {
-    score += (company.revenueTrajectoryScore / 5) * 25;
-  } else {
-    score += 12; // Default moderate
-  }
-  
-  // Historical performance (25 points) - YoY growth
-  if (company.yoyGrowthPercent !== null) {
-    if (company.yoyGrowthPercent >= 100) score += 25;
-    else if (company.yoyGrowthPercent >= 50) score += 20;
-    else if (company.yoyGrowthPercent >= 25) score += 15;
-    else if (company.yoyGrowthPercent >= 0) score += 10;
-    else score += 5;
-  } else {
-    score += 12; // Default moderate
-  }
-  
-  // Round complexity (20 points) - Lower complexity = higher execution credibility
-  if (company.roundComplexity !== null) {
-    score += (company.roundComplexity / 5) * 20;
-  } else {
-    score += 12; // Default moderate (3/5)
-  }
-  
-  return Math.min(100, Math.max(0, score));
-}
-
-function calculateScenarios(company: CompanyData, marketCredibilityScore: number, capitalEfficiencyScore: number, executionCredibilityScore: number) {
-  const currentRevenue = company.currentRevenue || company.revenue || company.arr || company.currentARR || 0;
-  const exitTimeline = company.exitTimeline || 3;
-  const equityStake = company.equityStake / 100;
-  const totalInvestment = company.totalInvestment + (company.additionalInvestmentRequested || 0);
-  
-  // Base growth rate
-  const baseGrowthRate = company.forwardCAGR2Y || company.projectedRevenueGrowth || 50;
-  
-  // Industry multiple estimate (default to 6x revenue)
-  const baseMultiple = 6;
-  
-  // Calculate scenarios
-  const bearGrowthRate = baseGrowthRate * 0.5;
-  const baseGrowthRateValue = baseGrowthRate;
-  const bullGrowthRate = baseGrowthRate * 1.5;
-  
-  const bearMultiple = baseMultiple * 0.7;
-  const baseMultipleValue = baseMultiple;
-  const bullMultiple = baseMultiple * 1.3;
-  
-  // Project revenue at exit
-  const bearRevenue = currentRevenue * Math.pow(1 + bearGrowthRate / 100, exitTimeline);
-  const baseRevenue = currentRevenue * Math.pow(1 + baseGrowthRateValue / 100, exitTimeline);
-  const bullRevenue = currentRevenue * Math.pow(1 + bullGrowthRate / 100, exitTimeline);
-  
-  // Calculate exit values
-  const bearExitValue = bearRevenue * bearMultiple;
-  const baseExitValue = baseRevenue * baseMultipleValue;
-  const bullExitValue = bullRevenue * bullMultiple;
-  
-  // Calculate MOIC
-  const bearMOIC = (bearExitValue * equityStake) / totalInvestment;
-  const baseMOIC = (baseExitValue * equityStake) / totalInvestment;
-  const bullMOIC = (bullExitValue * equityStake) / totalInvestment;
-  
-  // Assign probabilities based on scores
-  const avgScore = (marketCredibilityScore + capitalEfficiencyScore + executionCredibilityScore) / 3;
-  const bearProb = avgScore < 40 ? 0.6 : avgScore < 60 ? 0.4 : 0.2;
-  const bullProb = avgScore > 80 ? 0.3 : avgScore > 60 ? 0.2 : 0.1;
-  const baseProb = 1 - bearProb - bullProb;
-  
-  return {
-    bear: { exitValue: bearExitValue, ownership: equityStake * 100, moic: bearMOIC, probability: bearProb },
-    base: { exitValue: baseExitValue, ownership: equityStake * 100, moic: baseMOIC, probability: baseProb },
-    bull: { exitValue: bullExitValue, ownership: equityStake * 100, moic: bullMOIC, probability: bullProb }
-  };
-}
-
-interface CompanyData {
+import { completeChat, describeProvider, LLM_PROVIDERS, LLMMessage, LLMProviderConfig } from './llmProviders';
+import {
+  buildRepairPrompt,
+  createAnalysisValidationError,
+  isAnalysisValidationError,
+  LLMAnalysis,
+  parseAnalysisResponse,
+  RECOMMENDATION_TYPES,
+  RecommendationType,
+  TIMING_BUCKETS,
+  ValidationStatus
+} from './analysisSchema';
+import {
+  calculateScoreBreakdown,
+  listDefaultedFactors,
+  ScoreBreakdown,
+  translateCapitalEfficiency,
+  translateExecutionCredibility,
+  translateMarketCredibility
+} from './scoring';
+import { AnalysisQueue, createAnalysisQueue, QueueOptions, QueueStatus } from './analysisQueue';
+import { AnalysisSource, createIncompleteDataResult, createRulesBaseline, RulesBaseline } from './rulesAnalysis';
+import { describeSimulation, getDistributionOverrides, getSimulationSettings, simulateCompanyReturns, SimulationResult } from './returnSimulation';
+import { describeScoringFactors, getScoringModel } from './scoringModel';
+import { getExitMultiples, recordResearchComps } from './exitMultiples';
+import { getDilutionSettings } from './dilution';
+import { getCachedResponse, hashCacheKey, isResponseCacheAvailable, pruneExpiredResponses, putCachedResponse } from './responseCache';
+
+// Repair round-trips allowed when the response fails schema validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Part of every analysis cache key: bump when the prompt template or response schema changes
+export const ANALYSIS_PROMPT_VERSION = 6;
+
+export interface CompanyData {
   id: string;
   companyName: string;
   totalInvestment: number;
@@ -250,9 +76,19 @@ interface CompanyData {
   forwardCAGR2Y: number | null;
   forwardRevenueMultiple: number | null;
   revenueTrajectoryScore: number | null;
+  sourceSheet?: string; // Fund/vintage sheet the company was imported from
+}
+
+export interface ScenarioOutcome {
+  exitValue: number;
+  ownership: number;
+  moic: number;
+  probability: number;
+  irr?: number; // Mean IRR of the simulated paths in the scenario; absent on results from before the simulation
+  invested?: number; // Mean capital in on those paths, including any pro-rata follow-on
 }
 
-interface AnalysisResult {
+export interface AnalysisResult {
   recommendation: string;
   timingBucket: string;
   reasoning: string;
@@ -277,10 +113,15 @@ interface AnalysisResult {
   };
   // Scenario analysis
   scenarios: {
-    bear: { exitValue: number; ownership: number; moic: number; probability: number };
-    base: { exitValue: number; ownership: number; moic: number; probability: number };
-    bull: { exitValue: number; ownership: number; moic: number; probability: number };
+    bear: ScenarioOutcome;
+    base: ScenarioOutcome;
+    bull: ScenarioOutcome;
   };
+  // Monte Carlo return distribution behind the scenarios
+  simulation?: SimulationResult;
+  // Scoring model version behind the credibility scores, and the points each factor contributed
+  scoringModelVersion?: number;
+  scoreBreakdown?: ScoreBreakdown;
   // Enhanced external attribution
   externalInsights: {
     marketContext: string[];
@@ -290,14 +131,160 @@ interface AnalysisResult {
   };
   researchQuality: 'comprehensive' | 'limited' | 'minimal' | 'unavailable';
   sourceAttributions: string[];
+  // Which engine produced the result, and the rules-only view kept alongside LLM output for comparison
+  analysisSource?: AnalysisSource;
+  rulesBaseline?: RulesBaseline;
+  recommendationType?: RecommendationType;
+  // Schema validation outcome for LLM output, with the issues found per company
+  validationStatus?: ValidationStatus;
+  validationIssues?: string[];
+  // Response cache provenance; cachedAt is when a reused analysis was originally generated
+  cacheHit?: boolean;
+  researchCacheHit?: boolean;
+  cachedAt?: string;
+}
+
+// What the analysis cache stores: the validated model output and its research context, never derived scores
+interface CachedAnalysis {
+  analysis: LLMAnalysis;
+  validationStatus: ValidationStatus;
+  validationIssues: string[];
+  externalSources: string;
+  researchQuality: AnalysisResult['researchQuality'];
+}
+
+// Company data carried through the UI once analysis has run (all analysis fields optional until then)
+export interface AnalyzedCompanyData extends CompanyData, Partial<AnalysisResult> {
+  // Fail-safe metadata
+  dataQualityWarnings?: string[];
+  canCalculateExitModeling?: boolean;
+  dataCompletenessScore?: number;
+}
+
+function toResearchInput(company: CompanyData): CompanyResearchData {
+  return {
+    companyName: company.companyName,
+    totalInvestment: company.totalInvestment,
+    equityStake: company.equityStake,
+    additionalInvestmentRequested: company.additionalInvestmentRequested,
+    industry: company.industry,
+    tam: company.tam,
+    revenue: company.revenue || company.arr,
+    burnMultiple: company.burnMultiple,
+    exitActivity: company.exitActivity
+  };
+}
+
+// Company fields sent to the model. The row id and source sheet only locate the row, so rows that differ
+// only there share a prompt and a cache entry
+function toPromptCompany(company: CompanyData): Omit<CompanyData, 'id' | 'sourceSheet'> {
+  const { id, sourceSheet, ...promptCompany } = company;
+  return promptCompany;
+}
+
+/**
+ * Hash of everything that shapes a company's analysis: its inputs, the prompt version, the model
+ * and the research queries feeding the prompt. Null when the browser cannot cache
+ */
+async function getAnalysisCacheKey(company: CompanyData, providerConfig: LLMProviderConfig): Promise<string | null> {
+  if (!isResponseCacheAvailable()) return null;
+  return hashCacheKey({
+    version: ANALYSIS_PROMPT_VERSION,
+    provider: providerConfig.provider,
+    model: providerConfig.model,
+    company: toPromptCompany(company),
+    researchQueries: getPerplexityApiKey() ? getResearchQueries(toResearchInput(company)) : null,
+    // The simulation summary and the scoring rubric are part of the prompt
+    simulationSettings: getSimulationSettings(),
+    distributionOverrides: getDistributionOverrides(company),
+    exitMultiples: getExitMultiples(),
+    dilutionSettings: getDilutionSettings(),
+    scoringModel: (({ market, capital, execution }) => ({ market, capital, execution }))(getScoringModel())
+  });
 }
 
-export async function analyzeCompanyWithOpenAI(
+// The baseline is only a comparison, so a failure there must not discard the LLM result
+function tryCreateRulesBaseline(company: CompanyData): RulesBaseline | undefined {
+  try {
+    return createRulesBaseline(company);
+  } catch (error) {
+    console.error('❌ [LLM Analysis] Rules baseline failed for:', company.companyName, error);
+    return undefined;
+  }
+}
+
+// Scores and scenarios are recomputed from the current data, so cached output never carries stale numbers
+function buildAnalysisResult(company: CompanyData, output: CachedAnalysis): AnalysisResult {
+  const { analysis } = output;
+  const scoringModel = getScoringModel();
+  const scoreBreakdown = calculateScoreBreakdown(company, scoringModel);
+  const marketCredibilityScore = scoreBreakdown.market.score;
+  const capitalEfficiencyScore = scoreBreakdown.capital.score;
+  const executionCredibilityScore = scoreBreakdown.execution.score;
+  const { simulation, scenarios } = simulateCompanyReturns(company, marketCredibilityScore, capitalEfficiencyScore, executionCredibilityScore);
+  
+  // Create executive summary
+  const executiveSummary = {
+    valuationAssessment: analysis.executiveSummary.valuationAssessment,
+    capitalEfficiency: `${capitalEfficiencyScore >= 75 ? '✅' : capitalEfficiencyScore >= 50 ? '🟡' : '⚠️'} Score: ${capitalEfficiencyScore}/100`,
+    marketValidation: `${marketCredibilityScore >= 75 ? '✅' : marketCredibilityScore >= 50 ? '🟡' : '⚠️'} Score: ${marketCredibilityScore}/100`,
+    executionRisk: `${executionCredibilityScore >= 75 ? '✅' : executionCredibilityScore >= 50 ? '🟡' : '⚠️'} Score: ${executionCredibilityScore}/100`,
+    recommendedAction: analysis.executiveSummary.recommendedAction
+  };
+
+  return {
+    recommendation: analysis.recommendation,
+    recommendationType: analysis.recommendationType,
+    timingBucket: analysis.timingBucket,
+    reasoning: analysis.reasoning,
+    confidence: analysis.confidence,
+    keyRisks: analysis.keyRisks,
+    suggestedAction: analysis.suggestedAction,
+    projectedExitValueRange: analysis.projectedExitValueRange,
+    externalSources: output.externalSources,
+    insufficientData: false,
+    riskAdjustedMonetizationSummary: analysis.riskAdjustedMonetizationSummary,
+    marketCredibilityScore,
+    capitalEfficiencyScore,
+    executionCredibilityScore,
+    executiveSummary,
+    scenarios,
+    simulation,
+    scoringModelVersion: scoringModel.version,
+    scoreBreakdown,
+    // Enhanced external attribution
+    externalInsights: analysis.externalInsights,
+    researchQuality: output.researchQuality,
+    sourceAttributions: analysis.sourceAttributions,
+    analysisSource: 'llm',
+    rulesBaseline: tryCreateRulesBaseline(company),
+    validationStatus: output.validationStatus,
+    validationIssues: output.validationIssues
+  };
+}
+
+/**
+ * Previously generated analysis for unchanged inputs, or null on a cache miss
+ */
+async function getCachedAnalysis(company: CompanyData, providerConfig: LLMProviderConfig): Promise<AnalysisResult | null> {
+  const cacheKey = await getAnalysisCacheKey(company, providerConfig);
+  if (!cacheKey) return null;
+
+  const entry = await getCachedResponse<CachedAnalysis>('analysis', cacheKey);
+  if (!entry) return null;
+
+  console.log(`🗄️ [LLM Analysis] Using cached analysis from ${entry.createdAt} for:`, company.companyName);
+  return { ...buildAnalysisResult(company, entry.value), cacheHit: true, cachedAt: entry.createdAt };
+}
+
+export async function analyzeCompanyWithLLM(
   company: CompanyData, 
-  apiKey: string,
-  onProgress?: (status: string) => void
+  providerConfig: LLMProviderConfig,
+  onProgress?: (status: string) => void,
+  signal?: AbortSignal,
+  forceRefresh = false
 ): Promise<AnalysisResult> {
-  console.log('🤖 [OpenAI Analysis] Starting analysis for:', company.companyName);
+  console.log('🤖 [LLM Analysis] Starting analysis for:', company.companyName);
   
   // Enhanced data validation with graduated fail-safe checks
   const currentRevenue = company.currentRevenue || company.revenue;
@@ -349,7 +336,7 @@ export async function analyzeCompanyWithOpenAI(
     })()
   };
   
-  console.log('📊 [OpenAI Analysis] Data validation results:', dataValidation);
+  console.log('📊 [LLM Analysis] Data validation results:', dataValidation);
   
   // Graduated fail-safe logic with tiered analysis capability
   const analysisCapability = (() => {
@@ -359,11 +346,11 @@ export async function analyzeCompanyWithOpenAI(
     return 'partial';
   })();
   
-  console.log('📊 [OpenAI Analysis] Analysis capability:', analysisCapability);
+  console.log('📊 [LLM Analysis] Analysis capability:', analysisCapability);
   
   // Only block analysis if completely missing revenue anchor
   if (analysisCapability === 'blocked') {
-    console.log('⚠️ [OpenAI Analysis] 📊 INCOMPLETE DATA - Providing guided analysis');
+    console.log('⚠️ [LLM Analysis] 📊 INCOMPLETE DATA - Providing guided analysis');
     const missingFields = [];
     if (!dataValidation.hasAnyRevenueAnchor) missingFields.push('current revenue or ARR');
     if (!dataValidation.hasGrowthData && !dataValidation.hasTimelineData) missingFields.push('revenue growth or timeline data');
@@ -385,46 +372,7 @@ export async function analyzeCompanyWithOpenAI(
       return `Complete missing data: ${missingFields.slice(0, 2).join(', ')}`;
     })();
     
-    // Calculate default scores for incomplete data
-    const marketCredibilityScore = calculateMarketCredibilityScore(company);
-    const capitalEfficiencyScore = calculateCapitalEfficiencyScore(company);
-    const executionCredibilityScore = calculateExecutionCredibilityScore(company);
-
-    return {
-      recommendation: '📊 INCOMPLETE DATA - Provide revenue anchor for analysis',
-      timingBucket: 'N/A - Data Incomplete',
-      reasoning: `📊 INCOMPLETE DATA: Missing critical revenue anchor prevents reliable investment assessment. Required fields: ${missingFields.join(', ')}. Investment decisions require at least current revenue or ARR to evaluate growth trajectory and investment potential.`,
-      confidence: 1,
-      keyRisks: 'PRIMARY RISK: Data insufficiency creates investment blind spots. Cannot assess growth trajectory, exit feasibility, or valuation reasonableness without revenue metrics. Recommend completing data before investment decision.',
-      suggestedAction: specificGuidance,
-      projectedExitValueRange: '⚠️ LIMITED ANALYSIS: Revenue anchor required for exit value projections. Add current revenue/ARR to enable partial calculations.',
-      externalSources: 'External research not conducted due to insufficient internal data foundation',
-      insufficientData: true,
-      riskAdjustedMonetizationSummary: '🚧 PARTIAL CALCULATION: Risk-adjusted analysis requires revenue anchor (current revenue or ARR). Partial data limits return modeling capability.',
-      marketCredibilityScore,
-      capitalEfficiencyScore,
-      executionCredibilityScore,
-      executiveSummary: {
-        valuationAssessment: '⚠️ Incomplete Data',
-        capitalEfficiency: `🟡 Score: ${capitalEfficiencyScore}/100`,
-        marketValidation: `🟡 Score: ${marketCredibilityScore}/100`,
-        executionRisk: `🟡 Score: ${executionCredibilityScore}/100`,
-        recommendedAction: '📊 Complete data requirements'
-      },
-      scenarios: {
-        bear: { exitValue: 0, ownership: 0, moic: 0, probability: 0 },
-        base: { exitValue: 0, ownership: 0, moic: 0, probability: 0 },
-        bull: { exitValue: 0, ownership: 0, moic: 0, probability: 0 }
-      },
-      externalInsights: {
-        marketContext: [],
-        competitivePosition: [],
-        fundingEnvironment: [],
-        industryTrends: []
-      },
-      researchQuality: 'unavailable' as const,
-      sourceAttributions: []
-    };
+    return createIncompleteDataResult(company, missingFields, specificGuidance);
   }
 
   // Conduct external research if Perplexity API key is available and triggers are met
@@ -433,26 +381,17 @@ export async function analyzeCompanyWithOpenAI(
   let research: any = null;
   
   const perplexityKey = getPerplexityApiKey();
-  console.log('🔑 [OpenAI Analysis] Perplexity key check:', perplexityKey ? 'FOUND' : 'NOT FOUND');
+  console.log('🔑 [LLM Analysis] Perplexity key check:', perplexityKey ? 'FOUND' : 'NOT FOUND');
   
   if (perplexityKey) {
     try {
-      console.log('🔍 [OpenAI Analysis] Starting external research with trigger evaluation...');
+      console.log('🔍 [LLM Analysis] Starting external research with trigger evaluation...');
       onProgress?.(`Researching ${company.companyName}...`);
       
-      research = await conductExternalResearch({
-        companyName: company.companyName,
-        totalInvestment: company.totalInvestment,
-        equityStake: company.equityStake,
-        additionalInvestmentRequested: company.additionalInvestmentRequested,
-        industry: company.industry,
-        tam: company.tam,
-        revenue: company.revenue || company.arr,
-        burnMultiple: company.burnMultiple,
-        exitActivity: company.exitActivity
-      }, perplexityKey);
+      research = await conductExternalResearch(toResearchInput(company), perplexityKey, { forceRefresh });
       
-      console.log('✅ [OpenAI Analysis] External research completed:', research);
+      console.log('✅ [LLM Analysis] External research completed:', research);
+      recordResearchComps(company.industry, research.structuredInsights.namedComps);
       
       externalResearch = `
 EXTERNAL MARKET INTELLIGENCE (${research.researchQuality.toUpperCase()} QUALITY):
@@ -483,12 +422,12 @@ Research Sources: ${research.sources.join(', ') || 'Limited external data availa
         : 'External research conducted with limited source availability';
         
     } catch (error) {
-      console.error('❌ [OpenAI Analysis] External research failed:', error);
+      console.error('❌ [LLM Analysis] External research failed:', error);
       externalResearch = '\nEXTERNAL RESEARCH: Unable to conduct research from approved sources due to API limitations.';
       externalSources = 'External research failed - API error or source restrictions';
     }
   } else {
-    console.log('⚠️ [OpenAI Analysis] No Perplexity key, skipping external research');
+    console.log('⚠️ [LLM Analysis] No Perplexity key, skipping external research');
     externalResearch = '\nEXTERNAL RESEARCH: Not available - configure Perplexity API key to enable market research from approved sources.';
     externalSources = 'Internal analysis only - external market research requires Perplexity API configuration';
   }
@@ -496,12 +435,14 @@ Research Sources: ${research.sources.join(', ') || 'Limited external data availa
   onProgress?.(`Analyzing ${company.companyName}...`);
 
   // Calculate internal analysis scores
-  const marketCredibilityScore = calculateMarketCredibilityScore(company);
-  const capitalEfficiencyScore = calculateCapitalEfficiencyScore(company);
-  const executionCredibilityScore = calculateExecutionCredibilityScore(company);
+  const scoringModel = getScoringModel();
+  const scoreBreakdown = calculateScoreBreakdown(company, scoringModel);
+  const marketCredibilityScore = scoreBreakdown.market.score;
+  const capitalEfficiencyScore = scoreBreakdown.capital.score;
+  const executionCredibilityScore = scoreBreakdown.execution.score;
   
-  // Calculate scenario projections
-  const scenarios = calculateScenarios(company, marketCredibilityScore, capitalEfficiencyScore, executionCredibilityScore);
+  // Simulated return distribution and the quartile scenarios derived from it
+  const { simulation, scenarios } = simulateCompanyReturns(company, marketCredibilityScore, capitalEfficiencyScore, executionCredibilityScore);
 
   const investmentContext = company.isExistingInvestment 
     ? "You are an expert venture capital investor evaluating whether to approve an additional capital request from an EXISTING PORTFOLIO COMPANY. Focus on performance tracking, exit timing optimization, and portfolio management decisions."
@@ -510,14 +451,18 @@ Research Sources: ${research.sources.join(', ') || 'Limited external data availa
     const prompt = `You are a sophisticated venture capital analyst conducting an investment evaluation.
 
 COMPANY DATA:
-${JSON.stringify(company, null, 2)}
+${JSON.stringify(toPromptCompany(company), null, 2)}
 
 INTERNAL ANALYSIS CONTEXT:
 This company demonstrates ${translateMarketCredibility(marketCredibilityScore)} alongside ${translateCapitalEfficiency(capitalEfficiencyScore)}. Historical execution shows ${translateExecutionCredibility(executionCredibilityScore)}. Use these insights to guide tone and emphasis, but do not mention scores or internal rating names in your analysis.
+${listDefaultedFactors(scoreBreakdown).length > 0 ? `These signals were scored from defaults because the data was missing or unrecognized, so treat them as unverified: ${listDefaultedFactors(scoreBreakdown).join(', ')}.` : ''}
 
-SCENARIO ANALYSIS:
+SCENARIO ANALYSIS (bear = bottom quartile, base = middle half, bull = top quartile of simulated outcomes):
 ${JSON.stringify(scenarios, null, 2)}
 
+RETURN SIMULATION:
+${describeSimulation(simulation)}
+
 ${externalResearch ? `
 EXTERNAL RESEARCH CONTEXT:
 ${externalResearch}
@@ -746,22 +691,13 @@ MOIC = VC Return ÷ (Total Investment + Additional Investment Requested)
 Calculate and lead with these composite scores to drive all subsequent analysis:
 
 🧮 Market Credibility Score (0-100):
-- TAM validation (20pts): (TAM/5) × 20
-- Exit Activity (15pts): High=15, Moderate=10, Low=5
-- Industry validation (15pts): (Barrier to Entry/5) × 15
-- Investor Interest (10pts): (Interest/5) × 10
+${describeScoringFactors(scoringModel.market)}
 
 💰 Capital Efficiency Score (0-100):
-- Burn Multiple (30pts): ≤1.5=30, ≤3=20, ≤5=10, >5=5
-- Runway (20pts): ≥18mo=20, ≥12mo=15, ≥6mo=10, <6mo=5
-- Growth Efficiency (25pts): Forward CAGR ÷ Burn Multiple ratio scoring
-- Current MOIC (25pts): ≥3x=25, ≥2x=20, ≥1.5x=15, ≥1x=10, <1x=5
+${describeScoringFactors(scoringModel.capital)}
 
 ⚡ Execution Credibility Score (0-100):
-- Growth Consistency (30pts): Forward/Historical CAGR ratio (lower = better)
-- Projection Realism (25pts): Revenue trajectory score basis
-- Historical Performance (25pts): YoY growth rate scoring
-- Structural Complexity (20pts): Round complexity inversion
+${describeScoringFactors(scoringModel.execution)}
 
 **PHASE 2: Revenue Consistency Validation**
 MANDATORY cross-checks that must influence confidence scoring:
@@ -788,23 +724,23 @@ Reference scoring: "Scores support $X participation level"
 Size recommendations based on risk-adjusted return calculations
 
 📊 Scenario Analysis (Bear/Base/Bull Framework):
-Bear: Conservative growth (0.5x base), low multiple (0.7x base), high probability if low scores
-Base: Reasonable assumptions, median multiple, moderate probability
-Bull: Aggressive growth (1.5x base), high multiple (1.3x base), low probability unless high scores
+Use the SCENARIO ANALYSIS above as given: bear, base and bull are the bottom quartile, middle half and top quartile of the simulated outcomes, with probabilities of 25%, 50% and 25%
+Do not recompute the scenarios with your own growth or multiple assumptions; explain what drives each one
 Each scenario shows: Exit Value, Ownership %, MOIC, Probability %
 
-Provide your analysis in the following JSON format:
+Provide your analysis as a single JSON object in the following format. Every field is required:
 {
+  "recommendationType": "Exactly one of: ${RECOMMENDATION_TYPES.map(type => `'${type}'`).join(', ')}",
   "recommendation": "${company.isExistingInvestment 
     ? "Portfolio management with decision math: 'Double Down $X - expect Y.Yx MOIC', 'Pro-rata $X - maintain Z% ownership', 'Bridge $X - extend runway for exit', 'Exit - current MOIC sufficient', etc." 
     : "Investment decision with sizing: 'Invest $X - target Y.Yx MOIC based on scenarios', 'Pass - insufficient risk-adjusted returns', 'Monitor - scores improve to X threshold', etc."}",
-  "timingBucket": "Enhanced timing with qualitative context: 'Double Down', 'Conditional Investment (Pending Market Validation)', 'Bridge Pending Validation', 'Wait for Better Entry', 'Reinvest when Efficiency Improves', 'Hold', 'Exit Opportunistically', 'Decline'",
+  "timingBucket": "Exactly one of: ${TIMING_BUCKETS.map(bucket => `'${bucket}'`).join(', ')}",
   "reasoning": "Provide comprehensive investment analysis covering market positioning, capital deployment efficiency, and execution track record. Use natural investor language focused on valuation analysis (revenue multiple vs sector), growth trajectory credibility, and investor validation. Address ownership math and return requirements without referencing internal scores.",
-  "confidence": "Integer 1-5 based on overall investment conviction: 5 = High confidence with strong fundamentals and clear execution; 4 = Solid opportunity with manageable risks; 3 = Moderate confidence requiring additional validation; 2 = Low confidence with significant concerns; 1 = Very low confidence with critical issues.",
+  "confidence": "JSON integer 1-5 based on overall investment conviction: 5 = High confidence with strong fundamentals and clear execution; 4 = Solid opportunity with manageable risks; 3 = Moderate confidence requiring additional validation; 2 = Low confidence with significant concerns; 1 = Very low confidence with critical issues.",
   "keyRisks": "Traditional investment risks focused on specific metrics and assumptions. Highlight capital efficiency concerns, market validation challenges, or execution delivery risks using qualitative assessments rather than numeric references.",
   "suggestedAction": "Investment action with rationale: 'Market positioning supports $X participation (Y.Yx expected MOIC from base scenario)' or 'Improve market validation before investing' or 'Conditional on co-investor validation given current risk profile'",
   "projectedExitValueRange": "MANDATORY 3-SCENARIO FORMAT with each scenario on separate lines: '**BEAR:** Revenue $XM × Y.Yx multiple = $ZM exit (Probability: X%)\\n**BASE:** Revenue $XM × Y.Yx multiple = $ZM exit (Probability: X%)\\n**BULL:** Revenue $XM × Y.Yx multiple = $ZM exit (Probability: X%)\\n\\nExpected value: $ZM. At X% ownership, expected return: $YM (Z.Zx MOIC)'. Must show calculation steps and probability weighting.",
-  "riskAdjustedMonetizationSummary": "STEP-BY-STEP with scenario weighting: 'Revenue Projection: Current $XM → Exit $YM (Z% CAGR over W years)\\n\\nScenario Analysis:\\n**Bear:** Z1.Z1x MOIC (X1% probability)\\n**Base:** Z2.Z2x MOIC (X2% probability)\\n**Bull:** Z3.Z3x MOIC (X3% probability)\\n\\nRisk-Adjusted MOIC: (Z1.Z1×X1% + Z2.Z2×X2% + Z3.Z3×X3%) = Z.Zx\\n\\nQualitative risk assessment based on market positioning, capital efficiency, and execution credibility justifies X% success probability weighting.'",
+  "riskAdjustedMonetizationSummary": "STEP-BY-STEP with scenario weighting: 'Revenue Projection: Current $XM → Exit $YM (Z% CAGR over W years)\\n\\nScenario Analysis:\\n**Bear:** Z1.Z1x MOIC (X1% probability)\\n**Base:** Z2.Z2x MOIC (X2% probability)\\n**Bull:** Z3.Z3x MOIC (X3% probability)\\n\\nRisk-Adjusted MOIC: (Z1.Z1×X1% + Z2.Z2×X2% + Z3.Z3×X3%) = Z.Zx\\n\\nQualitative risk assessment based on market positioning, capital efficiency, and execution credibility explains the spread between the simulated scenarios.'",
   "executiveSummary": {
     "valuationAssessment": "⚠️ High vs sector / 🟡 Market Rate / ✅ Conservative based on forward revenue multiple vs sector median",
     "capitalEfficiency": "✅ Strong / 🟡 Moderate / ⚠️ Concerning - include burn multiple and runway context using qualitative language",
@@ -839,185 +775,207 @@ MANDATORY FAIL-SAFE RESPONSE REQUIREMENTS:
 
 Think like a VC partner prioritizing financial fundamentals while incorporating market intelligence responsibly.`;
 
-  console.log('🤖 [OpenAI Analysis] Sending prompt to OpenAI...');
+  console.log(`🤖 [LLM Analysis] Sending prompt to ${describeProvider(providerConfig)}...`);
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4.1-2025-04-14',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an experienced venture capital investor with deep expertise in portfolio management and capital allocation decisions. Provide objective, data-driven investment recommendations that integrate both internal performance metrics and external market intelligence.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 2500,
-      }),
-    });
-
-    console.log('🤖 [OpenAI Analysis] OpenAI response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ [OpenAI Analysis] API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+  const messages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: 'You are an experienced venture capital investor with deep expertise in portfolio management and capital allocation decisions. Provide objective, data-driven investment recommendations that integrate both internal performance metrics and external market intelligence.'
+    },
+    {
+      role: 'user',
+      content: prompt
     }
+  ];
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    console.log('📄 [OpenAI Analysis] Response length:', content?.length || 0);
-    console.log('📄 [OpenAI Analysis] Response preview:', content?.substring(0, 200) + '...' || 'No content');
-    
-    if (!content) {
-      throw new Error('No response content received from OpenAI');
-    }
+  try {
+    // Validate against the declared schema, sending the issues back once for a corrected response
+    let analysis: LLMAnalysis | null = null;
+    let validationIssues: string[] = [];
+    let repairAttempts = 0;
+
+    while (!analysis) {
+      const completion = await completeChat({ messages, jsonMode: true, signal }, providerConfig);
+      const content = completion.content;
+      
+      console.log('📄 [LLM Analysis] Response length:', content?.length || 0);
+      console.log('📄 [LLM Analysis] Response preview:', content?.substring(0, 200) + '...' || 'No content');
+      
+      if (!content) {
+        throw new Error(`No response content received from ${LLM_PROVIDERS[providerConfig.provider].label}`);
+      }
 
-    // Check for truncated response
-    if (!content.trim().endsWith('}')) {
-      console.warn('⚠️ [OpenAI Analysis] Response appears truncated');
-      throw new Error('OpenAI response was truncated - incomplete JSON data received');
-    }
+      const parsed = parseAnalysisResponse(content);
+      if (parsed.data) {
+        analysis = parsed.data;
+        console.log('✅ [LLM Analysis] Response passed schema validation');
+        break;
+      }
 
-    // Parse JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('❌ [OpenAI Analysis] No JSON found in response:', content);
-      throw new Error('Could not find valid JSON in OpenAI response');
-    }
+      validationIssues = completion.truncated
+        ? ['response: truncated at the max token limit (raise it in provider settings)', ...parsed.issues]
+        : parsed.issues;
+      console.warn(`⚠️ [LLM Analysis] Schema validation failed for ${company.companyName}:`, validationIssues);
 
-    let analysis;
-    try {
-      analysis = JSON.parse(jsonMatch[0]);
-      console.log('✅ [OpenAI Analysis] Successfully parsed analysis');
-    } catch (parseError) {
-      console.error('❌ [OpenAI Analysis] JSON parsing failed:', parseError);
-      console.error('❌ [OpenAI Analysis] Raw JSON:', jsonMatch[0]);
-      throw new Error(`Failed to parse JSON response: ${parseError.message}`);
+      if (repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+        throw createAnalysisValidationError(
+          `Response failed schema validation after ${repairAttempts} repair attempt(s): ${validationIssues.slice(0, 3).join('; ')}`,
+          validationIssues
+        );
+      }
+
+      repairAttempts++;
+      onProgress?.(`Repairing response for ${company.companyName}...`);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(validationIssues) }
+      );
     }
     
-    // Calculate enhanced scores
-    const marketCredibilityScore = calculateMarketCredibilityScore(company);
-    const capitalEfficiencyScore = calculateCapitalEfficiencyScore(company);
-    const executionCredibilityScore = calculateExecutionCredibilityScore(company);
-    const scenarios = calculateScenarios(company, marketCredibilityScore, capitalEfficiencyScore, executionCredibilityScore);
-    
-    // Create executive summary
-    const executiveSummary = {
-      valuationAssessment: analysis.executiveSummary?.valuationAssessment || 
-        (company.forwardRevenueMultiple && company.forwardRevenueMultiple > 8 ? '⚠️ High Valuation' : 
-         company.forwardRevenueMultiple && company.forwardRevenueMultiple < 4 ? '✅ Conservative' : '🟡 Market Rate'),
-      capitalEfficiency: `${capitalEfficiencyScore >= 75 ? '✅' : capitalEfficiencyScore >= 50 ? '🟡' : '⚠️'} Score: ${capitalEfficiencyScore}/100`,
-      marketValidation: `${marketCredibilityScore >= 75 ? '✅' : marketCredibilityScore >= 50 ? '🟡' : '⚠️'} Score: ${marketCredibilityScore}/100`,
-      executionRisk: `${executionCredibilityScore >= 75 ? '✅' : executionCredibilityScore >= 50 ? '🟡' : '⚠️'} Score: ${executionCredibilityScore}/100`,
-      recommendedAction: analysis.executiveSummary?.recommendedAction || 
-        (scenarios.base.moic >= 3 ? '🟢 Participate' : scenarios.base.moic >= 2 ? '🟡 Consider' : '🔴 Pass')
+    const output: CachedAnalysis = {
+      analysis,
+      // Issues from the first response are kept when the repair round-trip fixed them
+      validationStatus: repairAttempts > 0 ? 'repaired' : 'valid',
+      validationIssues: repairAttempts > 0 ? validationIssues : [],
+      externalSources,
+      researchQuality: research?.researchQuality || 'unavailable'
     };
+    const cacheKey = await getAnalysisCacheKey(company, providerConfig);
+    if (cacheKey) await putCachedResponse('analysis', cacheKey, output);
 
     return {
-      recommendation: analysis.recommendation || 'Analysis incomplete',
-      timingBucket: analysis.timingBucket || 'Hold (3-6 Months)',
-      reasoning: analysis.reasoning || 'Analysis could not be completed with available data.',
-      confidence: Math.min(5, Math.max(1, parseInt(analysis.confidence) || 3)),
-      keyRisks: analysis.keyRisks || 'Unable to assess risks with current information.',
-      suggestedAction: analysis.suggestedAction || 'Request additional company data before proceeding.',
-      projectedExitValueRange: analysis.projectedExitValueRange || 'Limited external benchmarks available - internal analysis only. Insufficient data for reliable exit value projection.',
-      externalSources: externalSources,
-      insufficientData: false,
-      riskAdjustedMonetizationSummary: analysis.riskAdjustedMonetizationSummary || 'Risk-adjusted monetization analysis could not be completed with available data. Requires comprehensive financial metrics and market validation signals for accurate return projections.',
-      marketCredibilityScore,
-      capitalEfficiencyScore,
-      executionCredibilityScore,
-      executiveSummary,
-      scenarios,
-      // Enhanced external attribution
-      externalInsights: analysis.externalInsights || {
-        marketContext: [],
-        competitivePosition: [],
-        fundingEnvironment: [],
-        industryTrends: []
-      },
-      researchQuality: research?.researchQuality || 'unavailable',
-      sourceAttributions: analysis.sourceAttributions || []
+      ...buildAnalysisResult(company, output),
+      cacheHit: false,
+      researchCacheHit: Boolean(research?.cachedAt)
     };
 
   } catch (error) {
-    console.error('❌ [OpenAI Analysis] OpenAI API Error:', error);
-    throw new Error(error instanceof Error ? error.message : 'Failed to analyze company data');
+    console.error('❌ [LLM Analysis] Analysis error:', error);
+    throw error instanceof Error ? error : new Error('Failed to analyze company data');
   }
 }
 
+export interface PortfolioAnalysisOptions {
+  forceRefresh?: boolean; // Bypass cached analysis and research, re-requesting every company
+  queueOptions?: Partial<QueueOptions>;
+  onQueueCreated?: (queue: AnalysisQueue<AnalysisResult>) => void; // Exposes pause/resume/cancel to the caller
+  onStatusChange?: (status: QueueStatus) => void;
+  onCompanyAnalyzed?: (company: AnalyzedCompanyData, index: number, status: 'fulfilled' | 'rejected') => void;
+}
+
 export async function analyzePortfolio(
   companies: CompanyData[], 
-  apiKey: string,
-  onProgress?: (progress: number, status?: string) => void
-): Promise<CompanyData[]> {
-  const results: CompanyData[] = [];
-  
-  for (let i = 0; i < companies.length; i++) {
-    const company = companies[i];
-    const baseProgress = (i / companies.length) * 100;
-    
-    try {
-      const analysis = await analyzeCompanyWithOpenAI(company, apiKey, (status) => {
-        onProgress?.(baseProgress, status);
-      });
-      
-      results.push({
-        ...company,
-        recommendation: analysis.recommendation,
-        timingBucket: analysis.timingBucket,
-        reasoning: analysis.reasoning,
-        confidence: analysis.confidence,
-        keyRisks: analysis.keyRisks,
-        suggestedAction: analysis.suggestedAction,
-        projectedExitValueRange: analysis.projectedExitValueRange,
-        riskAdjustedMonetizationSummary: analysis.riskAdjustedMonetizationSummary,
-        externalSources: analysis.externalSources,
-        insufficientData: analysis.insufficientData
-      } as any);
-      
-      onProgress?.(((i + 1) / companies.length) * 100, `Completed ${company.companyName}`);
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    } catch (error) {
-      console.error(`Failed to analyze ${company.companyName}:`, error);
-      results.push({
-        ...company,
-        recommendation: 'Analysis failed',
-        timingBucket: 'N/A',
-        reasoning: 'Technical error during analysis. Please try again.',
-        confidence: 1,
-        keyRisks: 'Unable to complete analysis due to technical issues.',
-        suggestedAction: 'Retry analysis or conduct manual review.',
-        projectedExitValueRange: 'Cannot project exit value due to analysis failure. Retry analysis or conduct manual evaluation.',
-        riskAdjustedMonetizationSummary: 'Risk-adjusted analysis could not be completed due to technical error. Retry analysis to generate comprehensive return projections.',
-        externalSources: 'Analysis incomplete',
-        insufficientData: true,
-        externalInsights: {
-          marketContext: [],
-          competitivePosition: [],
-          fundingEnvironment: [],
-          industryTrends: []
-        },
-        researchQuality: 'unavailable' as const,
-        sourceAttributions: []
-      } as any);
-      
-      onProgress?.(((i + 1) / companies.length) * 100, `Failed: ${company.companyName}`);
-    }
+  providerConfig: LLMProviderConfig,
+  onProgress?: (progress: number, status?: string) => void,
+  options: PortfolioAnalysisOptions = {}
+): Promise<AnalyzedCompanyData[]> {
+  await pruneExpiredResponses();
+
+  // Cache hits are settled up front so only the misses wait on the rate-limited queue
+  const cachedResults = options.forceRefresh
+    ? companies.map((): AnalysisResult | null => null)
+    : await Promise.all(companies.map(company => getCachedAnalysis(company, providerConfig)));
+  cachedResults.forEach((result, index) => {
+    if (result) options.onCompanyAnalyzed?.({ ...companies[index], ...result }, index, 'fulfilled');
+  });
+
+  const queuedIndexes = companies.map((_, index) => index).filter(index => !cachedResults[index]);
+  const cacheHits = companies.length - queuedIndexes.length;
+  if (cacheHits > 0) {
+    onProgress?.(0, `Loaded ${cacheHits} cached ${cacheHits === 1 ? 'analysis' : 'analyses'}, ${queuedIndexes.length} to request`);
   }
-  
-  return results;
+
+  const queue = createAnalysisQueue<CompanyData, AnalysisResult>(
+    queuedIndexes.map(index => companies[index]),
+    (company, { signal, attempt }) => analyzeCompanyWithLLM(company, providerConfig, (status) => {
+      onProgress?.(progressOf(queue.getStatus()), attempt > 1 ? `${status} (attempt ${attempt})` : status);
+    }, signal, options.forceRefresh),
+    {
+      concurrency: providerConfig.concurrency,
+      requestsPerMinute: providerConfig.requestsPerMinute,
+      burst: providerConfig.concurrency,
+      ...options.queueOptions
+    },
+    {
+      onStatusChange: options.onStatusChange,
+      onRetry: (company, attempt, delayMs) => {
+        onProgress?.(progressOf(queue.getStatus()), `Rate limited on ${company.companyName}, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})`);
+      },
+      onJobSettled: (company, queueIndex, outcome) => {
+        if (outcome.status === 'rejected') {
+          console.error(`Failed to analyze ${company.companyName}:`, outcome.error);
+        }
+        // Keep the full result (scores, scenarios, executive summary, insights) alongside the inputs
+        const analyzed: AnalyzedCompanyData = {
+          ...company,
+          ...(outcome.status === 'fulfilled' ? outcome.value : createFailedAnalysisResult(outcome.error))
+        };
+        options.onCompanyAnalyzed?.(analyzed, queuedIndexes[queueIndex], outcome.status === 'fulfilled' ? 'fulfilled' : 'rejected');
+        onProgress?.(
+          progressOf(queue.getStatus()),
+          outcome.status === 'fulfilled' ? `Completed ${company.companyName}` : `Failed: ${company.companyName}`
+        );
+      }
+    }
+  );
+  options.onQueueCreated?.(queue);
+
+  const outcomes = await queue.run();
+  const outcomeByIndex = new Map(queuedIndexes.map((companyIndex, queueIndex) => [companyIndex, outcomes[queueIndex]]));
+
+  // Cancelled companies come back untouched so earlier results are not overwritten
+  return companies.map((company, index) => {
+    if (cachedResults[index]) return { ...company, ...cachedResults[index] };
+    const outcome = outcomeByIndex.get(index);
+    if (outcome.status === 'fulfilled') return { ...company, ...outcome.value };
+    if (outcome.status === 'rejected') return { ...company, ...createFailedAnalysisResult(outcome.error) };
+    return { ...company };
+  });
+}
+
+function progressOf(status: QueueStatus): number {
+  return status.total > 0 ? ((status.completed + status.failed) / status.total) * 100 : 0;
+}
+
+// Placeholder result used when a company could not be analyzed, carrying the cause for display
+function createFailedAnalysisResult(error: unknown): AnalysisResult {
+  const validationFailed = isAnalysisValidationError(error);
+  return {
+    recommendation: 'Analysis failed',
+    timingBucket: 'N/A',
+    reasoning: `${validationFailed ? 'The model response failed schema validation' : 'Technical error during analysis'}: ${error instanceof Error ? error.message : 'unknown error'}. Please try again.`,
+    confidence: 1,
+    keyRisks: 'Unable to complete analysis due to technical issues.',
+    suggestedAction: 'Retry analysis or conduct manual review.',
+    projectedExitValueRange: 'Cannot project exit value due to analysis failure. Retry analysis or conduct manual evaluation.',
+    riskAdjustedMonetizationSummary: 'Risk-adjusted analysis could not be completed due to technical error. Retry analysis to generate comprehensive return projections.',
+    externalSources: 'Analysis incomplete',
+    insufficientData: true,
+    marketCredibilityScore: 0,
+    capitalEfficiencyScore: 0,
+    executionCredibilityScore: 0,
+    executiveSummary: {
+      valuationAssessment: '⚠️ Analysis failed',
+      capitalEfficiency: '⚠️ Not scored',
+      marketValidation: '⚠️ Not scored',
+      executionRisk: '⚠️ Not scored',
+      recommendedAction: '🔁 Retry analysis'
+    },
+    scenarios: {
+      bear: { exitValue: 0, ownership: 0, moic: 0, probability: 0 },
+      base: { exitValue: 0, ownership: 0, moic: 0, probability: 0 },
+      bull: { exitValue: 0, ownership: 0, moic: 0, probability: 0 }
+    },
+    externalInsights: {
+      marketContext: [],
+      competitivePosition: [],
+      fundingEnvironment: [],
+      industryTrends: []
+    },
+    researchQuality: 'unavailable',
+    sourceAttributions: [],
+    analysisSource: 'llm',
+    validationStatus: validationFailed ? 'failed' : undefined,
+    validationIssues: validationFailed ? error.validationIssues : undefined
+  };
 }
@@ -0,0 +1,180 @@
+/**
+ * Portfolio report pack for LP updates: summary figures, the dashboard charts as static SVGs and a ranked
+ * recommendation table, as one self-contained HTML file or a multi-page print layout saved as PDF
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { classifyRecommendation, DecisionCategory } from './rulesAnalysis';
+import { calculatePortfolioMetrics } from './chartData';
+import { calculatePortfolioIrr, calculateReturnMetrics, formatIrr } from './returnMetrics';
+import { formatScoringModelVersion } from './scoringModel';
+import { renderEfficiencyLeaderboardSvg, renderExposureChartSvg, renderMoicHistogramSvg } from './reportCharts';
+import { formatCurrency } from './numberFormatting';
+import { downloadFile } from './fileDownload';
+import { escapeHtml, printHtmlDocument } from './htmlDocument';
+
+export type ReportFormat = 'html' | 'pdf';
+
+export interface PortfolioReportOptions {
+  sourceFileName: string;
+  fundLabel?: string | null; // Set when the dashboard is filtered to one fund sheet
+}
+
+export interface RankedCompany {
+  rank: number;
+  company: AnalyzedCompanyData;
+  decision: DecisionCategory;
+  expectedMoic: number | null; // Probability-weighted scenario MOIC
+  expectedIrr: number | null;
+}
+
+const DECISION_ORDER: DecisionCategory[] = ['invest', 'hold', 'pass', 'exit', 'unknown'];
+
+const DECISION_LABELS: Record<DecisionCategory, string> = {
+  invest: 'Invest',
+  hold: 'Hold',
+  pass: 'Pass',
+  exit: 'Exit',
+  unknown: 'Pending'
+};
+
+function expectedScenarioMoic(company: AnalyzedCompanyData): number | null {
+  if (!company.scenarios) return null;
+  return (['bear', 'base', 'bull'] as const)
+    .reduce((total, key) => total + company.scenarios[key].moic * company.scenarios[key].probability, 0);
+}
+
+/**
+ * Orders companies by decision (invest first), then expected scenario MOIC, then confidence
+ */
+export function rankRecommendations(companies: AnalyzedCompanyData[]): RankedCompany[] {
+  return companies
+    .map(company => ({
+      company,
+      decision: classifyRecommendation(company.recommendation, company.recommendationType),
+      expectedMoic: expectedScenarioMoic(company),
+      expectedIrr: calculateReturnMetrics(company)?.expectedIrr ?? null
+    }))
+    .sort((a, b) =>
+      DECISION_ORDER.indexOf(a.decision) - DECISION_ORDER.indexOf(b.decision) ||
+      (b.expectedMoic ?? b.company.moic ?? -1) - (a.expectedMoic ?? a.company.moic ?? -1) ||
+      (b.company.confidence || 0) - (a.company.confidence || 0)
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+function formatMultiple(value: number | null | undefined): string {
+  return value === null || value === undefined || isNaN(value) ? 'N/A' : `${value.toFixed(2)}x`;
+}
+
+function renderSummaryCards(companies: AnalyzedCompanyData[], fundLabel: string | null): string {
+  const metrics = calculatePortfolioMetrics(companies);
+  const portfolioIrr = calculatePortfolioIrr(companies);
+  const cards = [
+    { title: 'Portfolio Value', value: `$${(metrics.totalPortfolioValue / 1000000).toFixed(1)}M`, note: `${companies.length} companies${fundLabel ? ` in ${fundLabel}` : ''}` },
+    { title: 'Capital Requested', value: `$${(metrics.totalRequested / 1000000).toFixed(1)}M`, note: 'Total ask amount' },
+    { title: 'Avg MOIC', value: metrics.avgMOIC > 0 ? `${metrics.avgMOIC.toFixed(1)}x` : 'N/A', note: portfolioIrr !== null ? `Expected portfolio IRR ${formatIrr(portfolioIrr)}` : 'Portfolio multiple' },
+    { title: 'High Risk', value: String(metrics.highRiskCount), note: 'Low confidence deals' }
+  ];
+  return `<div class="cards">${cards.map(card => `<div class="card"><div class="card-title">${card.title}</div><div class="card-value">${card.value}</div><div class="muted">${escapeHtml(card.note)}</div></div>`).join('')}</div>`;
+}
+
+function renderDecisionMix(ranked: RankedCompany[]): string {
+  const counts = DECISION_ORDER.map(decision => ({ decision, count: ranked.filter(entry => entry.decision === decision).length }))
+    .filter(entry => entry.count > 0);
+  return `<p>${counts.map(entry => `<span class="pill ${entry.decision}">${DECISION_LABELS[entry.decision]}: ${entry.count}</span>`).join(' ')}</p>`;
+}
+
+function renderRankedTable(ranked: RankedCompany[]): string {
+  const rows = ranked.map(({ rank, company, decision, expectedMoic, expectedIrr }) => `<tr>
+  <td>${rank}</td>
+  <td><strong>${escapeHtml(company.companyName)}</strong>${company.sourceSheet ? `<div class="muted">${escapeHtml(company.sourceSheet)}</div>` : ''}</td>
+  <td><span class="pill ${decision}">${DECISION_LABELS[decision]}</span> ${escapeHtml(company.recommendation || '')}</td>
+  <td>${escapeHtml(company.timingBucket || 'N/A')}</td>
+  <td class="num">${company.confidence ? `${company.confidence}/5` : 'N/A'}</td>
+  <td class="num">${formatMultiple(company.moic)}</td>
+  <td class="num">${formatMultiple(expectedMoic)}</td>
+  <td class="num">${formatIrr(expectedIrr)}</td>
+  <td class="num">${formatCurrency(company.totalInvestment)}</td>
+  <td class="num">${formatCurrency(company.additionalInvestmentRequested)}</td>
+</tr>`).join('');
+
+  return `<table class="ranked">
+<thead><tr><th>#</th><th>Company</th><th>Recommendation</th><th>Timing</th><th class="num">Confidence</th><th class="num">MOIC</th><th class="num">Expected MOIC</th><th class="num">Expected IRR</th><th class="num">Invested</th><th class="num">Requested</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>`;
+}
+
+export function renderPortfolioReportHtml(companies: AnalyzedCompanyData[], options: PortfolioReportOptions): string {
+  const fundLabel = options.fundLabel || null;
+  const title = `Portfolio Report${fundLabel ? `: ${fundLabel}` : ''}`;
+  const ranked = rankRecommendations(companies);
+  const analyzed = companies.filter(company => company.recommendation);
+  const scoringModels = [...new Set(analyzed.map(company => formatScoringModelVersion(company.scoringModelVersion)))];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #0f172a; max-width: 960px; margin: 32px auto; padding: 0 24px; font-size: 12px; line-height: 1.45; }
+  h1 { font-size: 24px; margin-bottom: 2px; }
+  h2 { font-size: 16px; border-bottom: 2px solid #0891b2; padding-bottom: 4px; margin-top: 8px; }
+  .page { page-break-after: always; margin-bottom: 40px; }
+  .page:last-child { page-break-after: auto; }
+  .muted { color: #64748b; font-size: 11px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin: 16px 0; }
+  .card { border: 1px solid #e2e8f0; border-radius: 6px; padding: 12px; }
+  .card-title { font-size: 11px; color: #475569; }
+  .card-value { font-size: 22px; font-weight: bold; margin: 4px 0; }
+  .chart { border: 1px solid #e2e8f0; border-radius: 6px; padding: 12px; margin-bottom: 16px; page-break-inside: avoid; }
+  .chart h3 { font-size: 13px; margin: 0 0 8px; }
+  table.ranked { border-collapse: collapse; width: 100%; }
+  table.ranked th, table.ranked td { border-bottom: 1px solid #e2e8f0; padding: 5px 6px; text-align: left; vertical-align: top; }
+  table.ranked th { background: #f1f5f9; font-size: 11px; }
+  table.ranked tr { page-break-inside: avoid; }
+  .num { text-align: right !important; white-space: nowrap; }
+  .pill { display: inline-block; border-radius: 9px; padding: 1px 8px; font-size: 10px; font-weight: bold; }
+  .pill.invest { background: #dcfce7; color: #166534; }
+  .pill.hold { background: #fef3c7; color: #92400e; }
+  .pill.pass, .pill.exit { background: #fee2e2; color: #991b1b; }
+  .pill.unknown { background: #f1f5f9; color: #475569; }
+  @media print { body { margin: 0; max-width: none; } @page { size: A4; margin: 14mm; } }
+</style>
+</head>
+<body>
+<section class="page">
+  <h1>${escapeHtml(title)}</h1>
+  <p class="muted">${escapeHtml(options.sourceFileName)} · Prepared ${new Date().toLocaleDateString()} · ${analyzed.length} of ${companies.length} companies analyzed${scoringModels.length > 0 ? ` · Scoring model ${escapeHtml(scoringModels.join(', '))}` : ''}</p>
+  <h2>Portfolio Summary</h2>
+  ${renderSummaryCards(companies, fundLabel)}
+  <h2>Recommendation Mix</h2>
+  ${renderDecisionMix(ranked)}
+  <div class="chart"><h3>Portfolio Exposure vs Risk</h3>${renderExposureChartSvg(companies)}</div>
+</section>
+<section class="page">
+  <h2>Portfolio Analytics</h2>
+  <div class="chart"><h3>MOIC Distribution</h3>${renderMoicHistogramSvg(companies)}</div>
+  <div class="chart"><h3>Capital Efficiency Leaderboard</h3>${renderEfficiencyLeaderboardSvg(companies)}</div>
+</section>
+<section class="page">
+  <h2>Ranked Recommendations</h2>
+  <p class="muted">Ordered by decision, then probability-weighted scenario MOIC (current MOIC when no scenarios exist), then confidence</p>
+  ${renderRankedTable(ranked)}
+</section>
+</body>
+</html>`;
+}
+
+export function exportPortfolioReport(companies: AnalyzedCompanyData[], options: PortfolioReportOptions, format: ReportFormat) {
+  const html = renderPortfolioReportHtml(companies, options);
+
+  if (format === 'pdf') {
+    printHtmlDocument(html);
+  } else {
+    const baseName = options.sourceFileName.replace(/\.[^.]+$/, '') || 'portfolio';
+    const fundSuffix = options.fundLabel ? `-${options.fundLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : '';
+    downloadFile(html, `${baseName}${fundSuffix}-lp-report.html`, 'text/html');
+  }
+  console.log(`📊 [LP Report] Generated ${format} report for ${companies.length} companies`);
+}
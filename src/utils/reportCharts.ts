@@ -0,0 +1,142 @@
+/**
+ * Static SVG versions of the dashboard charts for exported reports. They plot the same series as the
+ * Recharts components (chartData.ts) on a light, print-friendly palette
+ */
+import { calculateCapitalEfficiency, categorizeByMOICBins, processPortfolioExposureData } from './chartData';
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { escapeHtml } from './htmlDocument';
+
+// Theme tokens used by chartData mapped to colors that read on white paper
+const PRINT_COLORS: Record<string, string> = {
+  'hsl(var(--success))': '#16a34a',
+  'hsl(var(--success-foreground))': '#15803d',
+  'hsl(var(--warning))': '#d97706',
+  'hsl(var(--primary))': '#0891b2',
+  'hsl(var(--destructive))': '#dc2626',
+  'hsl(var(--destructive-foreground))': '#f87171'
+};
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { top: 20, right: 20, bottom: 48, left: 56 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function printColor(color: string): string {
+  return PRINT_COLORS[color] || '#64748b';
+}
+
+function svg(label: string, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img" aria-label="${escapeHtml(label)}" font-family="Helvetica, Arial, sans-serif">${body}</svg>`;
+}
+
+function emptyChart(label: string, message: string): string {
+  return svg(label, `<text x="${WIDTH / 2}" y="${HEIGHT / 2}" text-anchor="middle" font-size="13" fill="#64748b">${escapeHtml(message)}</text>`);
+}
+
+function niceTicks(max: number, count: number = 5): number[] {
+  if (max <= 0) return [0];
+  const rawStep = max / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep) || rawStep;
+  return Array.from({ length: Math.ceil(max / step) + 1 }, (_, index) => Math.round(index * step * 1000) / 1000);
+}
+
+function axisLabel(text: string, x: number, y: number, rotate: boolean = false): string {
+  const transform = rotate ? ` transform="rotate(-90 ${x} ${y})"` : '';
+  return `<text x="${x}" y="${y}" text-anchor="middle" font-size="11" fill="#334155"${transform}>${escapeHtml(text)}</text>`;
+}
+
+function gridLines(ticks: number[], max: number, format: (value: number) => string): string {
+  return ticks.map(tick => {
+    const y = round(MARGIN.top + PLOT_HEIGHT - (tick / max) * PLOT_HEIGHT);
+    return `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y}" y2="${y}" stroke="#e2e8f0" />` +
+      `<text x="${MARGIN.left - 6}" y="${y + 4}" text-anchor="end" font-size="10" fill="#64748b">${format(tick)}</text>`;
+  }).join('');
+}
+
+/**
+ * Portfolio exposure vs risk: risk-adjusted MOIC against confidence, bubble area by capital at stake
+ */
+export function renderExposureChartSvg(companies: AnalyzedCompanyData[]): string {
+  const title = 'Portfolio exposure vs risk';
+  const points = processPortfolioExposureData(companies);
+  if (points.length === 0) return emptyChart(title, 'No companies with MOIC, confidence and investment data');
+
+  const minX = Math.max(0, Math.min(...points.map(point => point.x)) - 0.5);
+  const maxX = Math.max(...points.map(point => point.x)) + 0.5;
+  const maxSize = Math.max(...points.map(point => point.size), 0.001);
+  // Confidence runs 1-5; the extra headroom keeps the largest bubbles inside the plot
+  const maxY = 5.5;
+  const xScale = (value: number) => round(MARGIN.left + ((value - minX) / (maxX - minX)) * PLOT_WIDTH);
+  const yScale = (value: number) => round(MARGIN.top + PLOT_HEIGHT - (value / maxY) * PLOT_HEIGHT);
+
+  const xTicks = niceTicks(maxX - minX).map(tick => minX + tick).filter(tick => tick <= maxX);
+  const body = [
+    gridLines([0, 1, 2, 3, 4, 5], maxY, value => String(value)),
+    ...xTicks.map(tick => `<text x="${xScale(tick)}" y="${MARGIN.top + PLOT_HEIGHT + 16}" text-anchor="middle" font-size="10" fill="#64748b">${tick.toFixed(1)}x</text>`),
+    ...points.map(point => {
+      const radius = round(5 + Math.sqrt(point.size / maxSize) * 15);
+      return `<circle cx="${xScale(point.x)}" cy="${yScale(point.y)}" r="${radius}" fill="${printColor(point.color)}" fill-opacity="0.55" stroke="${printColor(point.color)}"><title>${escapeHtml(point.name)}</title></circle>` +
+        `<text x="${xScale(point.x)}" y="${yScale(point.y) + 3}" text-anchor="middle" font-size="9" fill="#0f172a">${escapeHtml(point.name.slice(0, 14))}</text>`;
+    }),
+    axisLabel('Risk-Adjusted MOIC', MARGIN.left + PLOT_WIDTH / 2, HEIGHT - 8),
+    axisLabel('Confidence Score', 16, MARGIN.top + PLOT_HEIGHT / 2, true)
+  ].join('');
+  return svg(title, body);
+}
+
+/**
+ * Number of companies per MOIC band
+ */
+export function renderMoicHistogramSvg(companies: AnalyzedCompanyData[]): string {
+  const title = 'MOIC distribution';
+  const bins = categorizeByMOICBins(companies);
+  const maxCount = Math.max(...bins.map(bin => bin.count));
+  if (maxCount === 0) return emptyChart(title, 'No companies report a MOIC');
+
+  const ticks = niceTicks(maxCount, Math.min(maxCount, 5)).filter(tick => Number.isInteger(tick));
+  const top = ticks[ticks.length - 1];
+  const slot = PLOT_WIDTH / bins.length;
+  const body = [
+    gridLines(ticks, top, value => String(value)),
+    ...bins.map((bin, index) => {
+      const barHeight = round((bin.count / top) * PLOT_HEIGHT);
+      const x = round(MARGIN.left + index * slot + slot * 0.15);
+      const y = MARGIN.top + PLOT_HEIGHT - barHeight;
+      return `<rect x="${x}" y="${y}" width="${round(slot * 0.7)}" height="${barHeight}" fill="${printColor(bin.color)}" rx="2" />` +
+        (bin.count > 0 ? `<text x="${round(x + slot * 0.35)}" y="${y - 4}" text-anchor="middle" font-size="10" fill="#0f172a">${bin.count}</text>` : '') +
+        `<text x="${round(x + slot * 0.35)}" y="${MARGIN.top + PLOT_HEIGHT + 16}" text-anchor="middle" font-size="10" fill="#64748b">${escapeHtml(bin.range)}</text>`;
+    }),
+    axisLabel('MOIC', MARGIN.left + PLOT_WIDTH / 2, HEIGHT - 8),
+    axisLabel('Number of Companies', 16, MARGIN.top + PLOT_HEIGHT / 2, true)
+  ].join('');
+  return svg(title, body);
+}
+
+/**
+ * Top ten companies by capital efficiency (1 / burn multiple), as horizontal bars
+ */
+export function renderEfficiencyLeaderboardSvg(companies: AnalyzedCompanyData[]): string {
+  const title = 'Capital efficiency leaderboard';
+  const rows = calculateCapitalEfficiency(companies);
+  if (rows.length === 0) return emptyChart(title, 'No companies report a burn multiple');
+
+  const labelWidth = 140;
+  const barArea = WIDTH - labelWidth - MARGIN.right - 40;
+  const rowHeight = round(Math.min(28, (HEIGHT - MARGIN.top - 20) / rows.length));
+  const maxEfficiency = Math.max(...rows.map(row => row.efficiency), 0.001);
+  const body = rows.map((row, index) => {
+    const y = MARGIN.top + index * rowHeight;
+    const textY = round(y + rowHeight * 0.65);
+    const barWidth = round((row.efficiency / maxEfficiency) * barArea);
+    return `<text x="${labelWidth - 8}" y="${textY}" text-anchor="end" font-size="11" fill="#0f172a">${escapeHtml(row.name.slice(0, 22))}</text>` +
+      `<rect x="${labelWidth}" y="${round(y + rowHeight * 0.15)}" width="${barWidth}" height="${round(rowHeight * 0.7)}" fill="${printColor(row.color)}" rx="2" />` +
+      `<text x="${labelWidth + barWidth + 6}" y="${textY}" font-size="10" fill="#475569">${row.efficiency.toFixed(2)} (${row.burnMultiple.toFixed(1)}x burn)</text>`;
+  }).join('');
+  return svg(title, body + axisLabel('Capital efficiency (1 / burn multiple)', labelWidth + barArea / 2, HEIGHT - 8));
+}
@@ -0,0 +1,105 @@
+/**
+ * Local cache for LLM analysis and Perplexity research responses
+ * Entries are keyed by a SHA-256 hash of everything that shapes the response and expire per source
+ */
+import { idbDelete, idbGet, idbGetAll, idbPut, isIndexedDbAvailable } from './indexedDb';
+
+export type CacheSource = 'analysis' | 'research';
+
+// Research tracks the news cycle, so it expires well before an analysis of unchanged inputs
+export const CACHE_TTL_MS: Record<CacheSource, number> = {
+  analysis: 7 * 24 * 60 * 60 * 1000,
+  research: 24 * 60 * 60 * 1000
+};
+
+export interface CacheEntry<T> {
+  id: string; // "<source>:<hash>"
+  source: CacheSource;
+  value: T;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const STORE = 'responseCache';
+
+// crypto.subtle only exists in secure contexts (https or localhost)
+export function isResponseCacheAvailable(): boolean {
+  return isIndexedDbAvailable() && typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+// Sorted keys and dropped undefined values so equal inputs always hash the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function hashCacheKey(parts: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function isExpired(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return Date.parse(entry.expiresAt) <= now;
+}
+
+/**
+ * Unexpired entry for a key, or null. Expired entries are removed when read
+ */
+export async function getCachedResponse<T>(source: CacheSource, key: string): Promise<CacheEntry<T> | null> {
+  if (!isResponseCacheAvailable()) return null;
+
+  try {
+    const entry = await idbGet<CacheEntry<T>>(STORE, `${source}:${key}`);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      await idbDelete(STORE, entry.id);
+      return null;
+    }
+    return entry;
+  } catch (error) {
+    console.error(`🗄️ [Response Cache] Failed to read ${source} entry:`, error);
+    return null;
+  }
+}
+
+// Caching is best effort: a failed write only means the next run calls the API again
+export async function putCachedResponse<T>(source: CacheSource, key: string, value: T): Promise<void> {
+  if (!isResponseCacheAvailable()) return;
+
+  const now = Date.now();
+  try {
+    await idbPut<CacheEntry<T>>(STORE, {
+      id: `${source}:${key}`,
+      source,
+      value,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + CACHE_TTL_MS[source]).toISOString()
+    });
+  } catch (error) {
+    console.error(`🗄️ [Response Cache] Failed to store ${source} entry:`, error);
+  }
+}
+
+/**
+ * Drops every expired entry so the store does not grow without bound
+ */
+export async function pruneExpiredResponses(): Promise<void> {
+  if (!isResponseCacheAvailable()) return;
+
+  try {
+    const now = Date.now();
+    const expired = (await idbGetAll<CacheEntry<unknown>>(STORE)).filter(entry => isExpired(entry, now));
+    await Promise.all(expired.map(entry => idbDelete(STORE, entry.id)));
+    if (expired.length > 0) console.log(`🗄️ [Response Cache] Pruned ${expired.length} expired entries`);
+  } catch (error) {
+    console.error('🗄️ [Response Cache] Failed to prune expired entries:', error);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Time-weighted return metrics: IRR, DPI/TVPI and annualized risk-adjusted return per company and scenario.
+ * Capital (existing investment plus the requested follow-on) is treated as paid in today and expected exit
+ * proceeds as distributed at the exit timeline. Scenario IRRs come from the simulated paths behind each
+ * scenario, with their own exit years and pro-rata follow-on
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { calculateRiskAdjustedMOIC } from './chartData';
+
+export interface CashFlow {
+  year: number; // Years from today
+  amount: number; // Negative for contributions, positive for distributions
+}
+
+export interface ScenarioReturns {
+  moic: number; // Also the scenario's DPI and TVPI, as everything is distributed at exit
+  irr: number | null; // Fraction (0.25 = 25% a year)
+  paidIn: number; // Including pro-rata follow-on on the scenario's paths
+}
+
+export interface ReturnMetrics {
+  paidIn: number;
+  exitYears: number;
+  currentTvpi: number | null; // Reported MOIC on capital invested to date
+  currentDpi: number; // No realizations are tracked, so always 0 before exit
+  expectedMoic: number;
+  expectedIrr: number | null;
+  annualizedRiskAdjustedReturn: number | null; // Expected MOIC weighted by confidence, annualized over the timeline
+  scenarios: Record<'bear' | 'base' | 'bull', ScenarioReturns>;
+}
+
+const DEFAULT_EXIT_YEARS = 3;
+
+function netPresentValue(cashFlows: CashFlow[], rate: number): number {
+  return cashFlows.reduce((total, flow) => total + flow.amount / Math.pow(1 + rate, flow.year), 0);
+}
+
+/**
+ * Internal rate of return by bisection, or null when the cash flows never change sign
+ */
+export function calculateIrr(cashFlows: CashFlow[]): number | null {
+  const hasContribution = cashFlows.some(flow => flow.amount < 0);
+  const hasDistribution = cashFlows.some(flow => flow.amount > 0);
+  if (!hasContribution) return null;
+  if (!hasDistribution) return -1;
+
+  let low = -0.9999;
+  let high = 100;
+  if (netPresentValue(cashFlows, low) * netPresentValue(cashFlows, high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npv = netPresentValue(cashFlows, mid);
+    if (Math.abs(npv) < 1e-7) return mid;
+    if (netPresentValue(cashFlows, low) * npv < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Compound annual rate that turns a multiple into the same value over the given years
+export function annualizeMultiple(multiple: number, years: number): number | null {
+  if (!(years > 0) || !Number.isFinite(multiple)) return null;
+  return multiple > 0 ? Math.pow(multiple, 1 / years) - 1 : -1;
+}
+
+export function getExitYears(company: AnalyzedCompanyData): number {
+  return company.exitTimeline || DEFAULT_EXIT_YEARS;
+}
+
+export function calculateReturnMetrics(company: AnalyzedCompanyData): ReturnMetrics | null {
+  if (!company.scenarios || company.insufficientData) return null;
+
+  const paidIn = (company.totalInvestment || 0) + (company.additionalInvestmentRequested || 0);
+  if (paidIn <= 0) return null;
+  const exitYears = getExitYears(company);
+
+  // Results from before the simulation recorded path IRRs fall back to the fixed exit timeline
+  const scenarioReturns = (key: 'bear' | 'base' | 'bull'): ScenarioReturns => {
+    const { moic, irr, invested } = company.scenarios[key];
+    return {
+      moic,
+      irr: irr ?? calculateIrr([{ year: 0, amount: -paidIn }, { year: exitYears, amount: moic * paidIn }]),
+      paidIn: invested ?? paidIn
+    };
+  };
+
+  const expectedMoic = (['bear', 'base', 'bull'] as const)
+    .reduce((total, key) => total + company.scenarios[key].moic * company.scenarios[key].probability, 0);
+
+  return {
+    paidIn,
+    exitYears,
+    currentTvpi: company.moic ?? null,
+    currentDpi: 0,
+    expectedMoic,
+    expectedIrr: annualizeMultiple(expectedMoic, exitYears),
+    annualizedRiskAdjustedReturn: company.confidence
+      ? annualizeMultiple(calculateRiskAdjustedMOIC(expectedMoic, company.confidence), exitYears)
+      : null,
+    scenarios: {
+      bear: scenarioReturns('bear'),
+      base: scenarioReturns('base'),
+      bull: scenarioReturns('bull')
+    }
+  };
+}
+
+export function formatIrr(irr: number | null | undefined): string {
+  return irr === null || irr === undefined || isNaN(irr) ? 'N/A' : `${(irr * 100).toFixed(1)}%`;
+}
+
+/**
+ * Pooled IRR of the analyzed companies: all capital paid in today, each company's expected proceeds
+ * distributed in its own exit year
+ */
+export function calculatePortfolioIrr(companies: AnalyzedCompanyData[]): number | null {
+  const cashFlows = companies.flatMap(company => {
+    const metrics = calculateReturnMetrics(company);
+    if (!metrics) return [];
+    return [
+      { year: 0, amount: -metrics.paidIn },
+      { year: metrics.exitYears, amount: metrics.expectedMoic * metrics.paidIn }
+    ];
+  });
+  return cashFlows.length > 0 ? calculateIrr(cashFlows) : null;
+}
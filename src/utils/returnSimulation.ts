@@ -0,0 +1,468 @@
+/**
+ * Monte Carlo return simulation
+ * Samples revenue growth, exit multiple, exit timing and round dilution per company and summarizes the resulting
+ * MOIC and IRR distributions. Bear/base/bull scenarios are the bottom quartile, middle half and top quartile
+ * of the simulated paths, so their probability-weighted MOIC equals the simulated mean
+ */
+import { AnalysisResult, CompanyData } from './openaiAnalysis';
+import { describeExitMultiple, findExitMultiple, getExitMetricValue, getExitMultipleSigma } from './exitMultiples';
+import { DilutionPlan, describeDilutionPlan, getDilutionSettings, projectFundingRounds } from './dilution';
+import { loadSettings, saveSettings } from './settingsStorage';
+
+export type DistributionType = 'normal' | 'lognormal' | 'triangular' | 'uniform';
+
+// Flat parameter set; which fields apply depends on the type
+export interface Distribution {
+  type: DistributionType;
+  mean?: number; // normal
+  sd?: number; // normal
+  median?: number; // lognormal
+  sigma?: number; // lognormal (standard deviation of the log)
+  min?: number; // triangular, uniform
+  mode?: number; // triangular
+  max?: number; // triangular, uniform
+}
+
+// Inputs a company can give its own distribution instead of the one derived from its scores
+export type SimulationVariable = 'growth' | 'exitMultiple' | 'exitYears' | 'roundDilution';
+
+export type DistributionOverrides = Partial<Record<SimulationVariable, Distribution>>;
+
+export interface SimulationInputs {
+  growth: Distribution; // Annual revenue growth, percent
+  exitMultiple: Distribution; // Revenue or ARR multiple at exit
+  exitYears: Distribution;
+  roundDilution: Distribution; // Scale on each projected round's typical dilution
+  annualDilution?: Distribution; // Results from before round-based dilution
+}
+
+// Point inputs the distributions are centred on; sensitivity analysis perturbs these
+export interface ScenarioDrivers {
+  growthRate: number; // Annual revenue growth, percent
+  exitMultiple: number; // Median exit multiple, from the exit multiple library when the industry is listed
+  exitTimeline: number; // Years
+  equityStake: number; // Percent at entry
+  totalInvestment: number; // Invested to date plus the requested follow-on
+}
+
+export interface SimulationSettings {
+  iterations: number;
+  growthVolatility: number; // Growth standard deviation as a share of the base growth rate, before execution risk
+  exitMultipleMedian: number; // For industries missing from the exit multiple library
+  exitMultipleSigma: number; // Before market risk, for industries missing from the library
+  exitTimingSpreadYears: number; // Exits land between timeline - spread and timeline + 2 x spread
+}
+
+export interface PercentileSummary {
+  mean: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface SimulationHistogramBin {
+  label: string;
+  min: number;
+  max: number | null; // Null for the open-ended top bin, so results survive JSON export
+  count: number;
+  share: number; // count / iterations
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  inputs: SimulationInputs;
+  exitMultipleBasis?: string; // Library row behind the exit multiple; absent when the settings default applied
+  overrides?: SimulationVariable[]; // Inputs that used the company's own distribution
+  dilution?: DilutionPlan; // Rounds projected before exit
+  moic: PercentileSummary;
+  irr: PercentileSummary; // Fractions (0.25 = 25% a year)
+  probabilityOfLoss: number; // MOIC below 1x
+  probabilityAbove3x: number;
+  histogram: SimulationHistogramBin[];
+}
+
+export interface CompanySimulation {
+  simulation: SimulationResult;
+  scenarios: AnalysisResult['scenarios'];
+}
+
+const SIMULATION_SETTINGS_STORAGE_KEY = 'simulation_settings';
+const DISTRIBUTION_OVERRIDES_STORAGE_KEY = 'simulation_distribution_overrides';
+
+export const SIMULATION_VARIABLES: { key: SimulationVariable; label: string }[] = [
+  { key: 'growth', label: 'Revenue growth' },
+  { key: 'exitMultiple', label: 'Exit multiple' },
+  { key: 'exitYears', label: 'Exit timing' },
+  { key: 'roundDilution', label: 'Round dilution scale' }
+];
+
+export const DISTRIBUTION_TYPES: { key: DistributionType; label: string }[] = [
+  { key: 'normal', label: 'Normal' },
+  { key: 'lognormal', label: 'Lognormal' },
+  { key: 'triangular', label: 'Triangular' },
+  { key: 'uniform', label: 'Uniform' }
+];
+
+// Parameters each distribution type reads
+export const DISTRIBUTION_PARAMETERS: Record<DistributionType, { key: keyof Omit<Distribution, 'type'>; label: string }[]> = {
+  normal: [{ key: 'mean', label: 'Mean' }, { key: 'sd', label: 'Std dev' }],
+  lognormal: [{ key: 'median', label: 'Median' }, { key: 'sigma', label: 'Sigma (log)' }],
+  triangular: [{ key: 'min', label: 'Min' }, { key: 'mode', label: 'Mode' }, { key: 'max', label: 'Max' }],
+  uniform: [{ key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }]
+};
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  iterations: 5000,
+  growthVolatility: 0.35,
+  exitMultipleMedian: 6,
+  exitMultipleSigma: 0.4,
+  exitTimingSpreadYears: 1
+};
+
+const HISTOGRAM_EDGES = [0, 0.5, 1, 1.5, 2, 3, 5, 10];
+
+export function getSimulationSettings(): SimulationSettings {
+  return loadSettings(SIMULATION_SETTINGS_STORAGE_KEY, () => ({ ...DEFAULT_SIMULATION_SETTINGS }));
+}
+
+export function saveSimulationSettings(settings: SimulationSettings): void {
+  saveSettings(SIMULATION_SETTINGS_STORAGE_KEY, settings);
+  console.log(`🎲 [Simulation] Saved settings: ${settings.iterations} paths, ${settings.exitMultipleMedian}x median exit multiple`);
+}
+
+/**
+ * Bounds on the path count (enough for stable percentiles, few enough to run per company in the browser) and
+ * on the spreads, which cannot be negative
+ */
+export function getSimulationSettingsIssues(settings: SimulationSettings): string[] {
+  const issues: string[] = [];
+  if (!Number.isInteger(settings.iterations) || settings.iterations < 100 || settings.iterations > 100000) {
+    issues.push('Iterations must be a whole number between 100 and 100,000');
+  }
+  if (!(settings.exitMultipleMedian > 0)) issues.push('Median exit multiple must be above zero');
+  if (!(settings.growthVolatility >= 0) || !(settings.exitMultipleSigma >= 0) || !(settings.exitTimingSpreadYears >= 0)) {
+    issues.push('Volatility and spread settings cannot be negative');
+  }
+  return issues;
+}
+
+// Keyed by name like the simulation seed, plus the fund sheet so same-named companies in different funds stay apart
+function getDistributionOverridesKey(company: Pick<CompanyData, 'companyName' | 'sourceSheet'>): string {
+  return `${(company.companyName || '').trim().toLowerCase()}|${(company.sourceSheet || '').trim().toLowerCase()}`;
+}
+
+function loadAllDistributionOverrides(): Record<string, DistributionOverrides> {
+  return loadSettings<Record<string, DistributionOverrides>>(DISTRIBUTION_OVERRIDES_STORAGE_KEY, () => ({}));
+}
+
+export function getDistributionOverrides(company: Pick<CompanyData, 'companyName' | 'sourceSheet'>): DistributionOverrides {
+  return loadAllDistributionOverrides()[getDistributionOverridesKey(company)] || {};
+}
+
+// An empty set removes the company's entry
+export function saveDistributionOverrides(company: Pick<CompanyData, 'companyName' | 'sourceSheet'>, overrides: DistributionOverrides): void {
+  const all = loadAllDistributionOverrides();
+  const key = getDistributionOverridesKey(company);
+  if (Object.keys(overrides).length > 0) all[key] = overrides;
+  else delete all[key];
+  saveSettings(DISTRIBUTION_OVERRIDES_STORAGE_KEY, all);
+  console.log(`🎲 [Simulation] Saved ${Object.keys(overrides).length} distribution overrides for ${company.companyName}`);
+}
+
+/**
+ * Parameter problems for one distribution, such as a negative spread or a mode outside its range
+ */
+export function getDistributionIssues(distribution: Distribution): string[] {
+  const issues: string[] = [];
+  const missing = DISTRIBUTION_PARAMETERS[distribution.type]
+    .filter(({ key }) => !Number.isFinite(distribution[key]))
+    .map(({ label }) => label);
+  if (missing.length > 0) return [`Enter ${missing.join(', ').toLowerCase()}`];
+
+  if (distribution.type === 'normal' && distribution.sd < 0) issues.push('Standard deviation cannot be negative');
+  if (distribution.type === 'lognormal') {
+    if (!(distribution.median > 0)) issues.push('Median must be above zero');
+    if (distribution.sigma < 0) issues.push('Sigma cannot be negative');
+  }
+  if ((distribution.type === 'triangular' || distribution.type === 'uniform') && distribution.min > distribution.max) {
+    issues.push('Min cannot be above max');
+  }
+  if (distribution.type === 'triangular' && (distribution.mode < distribution.min || distribution.mode > distribution.max)) {
+    issues.push('Mode must be between min and max');
+  }
+  return issues;
+}
+
+/**
+ * Converts a distribution to another type with roughly the same centre and spread, as a starting point
+ * when an override switches type
+ */
+export function reshapeDistribution(distribution: Distribution, type: DistributionType): Distribution {
+  let centre: number;
+  let spread: number; // Approximate standard deviation
+  switch (distribution.type) {
+    case 'normal':
+      centre = distribution.mean ?? 0;
+      spread = distribution.sd ?? 0;
+      break;
+    case 'lognormal':
+      centre = distribution.median ?? 1;
+      spread = centre * (distribution.sigma ?? 0);
+      break;
+    case 'triangular':
+      centre = distribution.mode ?? 0;
+      spread = ((distribution.max ?? 0) - (distribution.min ?? 0)) / (2 * Math.sqrt(6));
+      break;
+    default:
+      centre = ((distribution.min ?? 0) + (distribution.max ?? 0)) / 2;
+      spread = ((distribution.max ?? 0) - (distribution.min ?? 0)) / Math.sqrt(12);
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  switch (type) {
+    case 'normal': return { type, mean: round(centre), sd: round(spread) };
+    case 'lognormal': return centre > 0
+      ? { type, median: round(centre), sigma: round(spread / centre) }
+      : { type, median: 1, sigma: 0.5 };
+    case 'triangular': return { type, min: round(centre - Math.sqrt(6) * spread), mode: round(centre), max: round(centre + Math.sqrt(6) * spread) };
+    default: return { type, min: round(centre - Math.sqrt(3) * spread), max: round(centre + Math.sqrt(3) * spread) };
+  }
+}
+
+// Seeded so the same company and settings always give the same distribution (cache hits, snapshot diffs)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashSeed(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function sampleStandardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+export function sampleDistribution(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'normal':
+      return (distribution.mean ?? 0) + (distribution.sd ?? 0) * sampleStandardNormal(random);
+    case 'lognormal':
+      return (distribution.median ?? 1) * Math.exp((distribution.sigma ?? 0) * sampleStandardNormal(random));
+    case 'triangular': {
+      const min = distribution.min ?? 0;
+      const max = distribution.max ?? min;
+      const mode = Math.min(max, Math.max(min, distribution.mode ?? min));
+      if (max <= min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    default:
+      return (distribution.min ?? 0) + random() * ((distribution.max ?? 0) - (distribution.min ?? 0));
+  }
+}
+
+export function describeDistribution(distribution: Distribution, format: (value: number) => string): string {
+  switch (distribution.type) {
+    case 'normal': return `Normal, mean ${format(distribution.mean)} ± ${format(distribution.sd)}`;
+    case 'lognormal': return `Lognormal, median ${format(distribution.median)} (σ ${distribution.sigma.toFixed(2)})`;
+    case 'triangular': return `Triangular ${format(distribution.min)} / ${format(distribution.mode)} / ${format(distribution.max)}`;
+    default: return `Uniform ${format(distribution.min)} – ${format(distribution.max)}`;
+  }
+}
+
+export function getScenarioDrivers(company: CompanyData, settings: SimulationSettings = getSimulationSettings()): ScenarioDrivers {
+  return {
+    growthRate: company.forwardCAGR2Y || company.projectedRevenueGrowth || 50,
+    exitMultiple: findExitMultiple(company)?.mid ?? settings.exitMultipleMedian,
+    exitTimeline: company.exitTimeline || 3,
+    equityStake: company.equityStake,
+    totalInvestment: company.totalInvestment + (company.additionalInvestmentRequested || 0)
+  };
+}
+
+/**
+ * Company-specific distributions: the scores widen the spread where the data is less credible.
+ * Weak execution widens growth, weak market validation widens the exit multiple and weak capital
+ * efficiency scales round dilution up (larger rounds at lower prices). A company's saved overrides
+ * replace the derived distribution for that input as entered
+ */
+export function buildSimulationInputs(
+  company: CompanyData,
+  marketCredibilityScore: number,
+  capitalEfficiencyScore: number,
+  executionCredibilityScore: number,
+  settings: SimulationSettings = getSimulationSettings(),
+  drivers: ScenarioDrivers = getScenarioDrivers(company, settings),
+  overrides: DistributionOverrides = getDistributionOverrides(company)
+): SimulationInputs {
+  const { growthRate: baseGrowthRate, exitTimeline } = drivers;
+  const executionRisk = 1 + (100 - executionCredibilityScore) / 100;
+  const marketRisk = 1 + (100 - marketCredibilityScore) / 200;
+  const { dilutionVariance } = getDilutionSettings();
+  const dilutionShift = (100 - capitalEfficiencyScore) / 100 * dilutionVariance;
+  const exitMultiple = findExitMultiple(company);
+
+  const derived: SimulationInputs = {
+    growth: { type: 'normal', mean: baseGrowthRate, sd: Math.max(10, Math.abs(baseGrowthRate) * settings.growthVolatility * executionRisk) },
+    exitMultiple: { type: 'lognormal', median: drivers.exitMultiple, sigma: (exitMultiple ? getExitMultipleSigma(exitMultiple) : settings.exitMultipleSigma) * marketRisk },
+    exitYears: {
+      type: 'triangular',
+      min: Math.max(1, exitTimeline - settings.exitTimingSpreadYears),
+      mode: exitTimeline,
+      max: exitTimeline + 2 * settings.exitTimingSpreadYears
+    },
+    roundDilution: {
+      type: 'uniform',
+      min: Math.max(0, 1 - dilutionVariance + dilutionShift),
+      max: 1 + dilutionVariance + dilutionShift
+    }
+  };
+  return { ...derived, ...overrides };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function summarize(values: number[]): PercentileSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: sorted.reduce((sum, value) => sum + value, 0) / Math.max(1, sorted.length),
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9)
+  };
+}
+
+function buildHistogram(moics: number[]): SimulationHistogramBin[] {
+  return HISTOGRAM_EDGES.map((min, index) => {
+    const max = index + 1 < HISTOGRAM_EDGES.length ? HISTOGRAM_EDGES[index + 1] : null;
+    const count = moics.filter(moic => moic >= min && (max === null || moic < max)).length;
+    return {
+      label: max === null ? `${min}x+` : `${min}-${max}x`,
+      min,
+      max,
+      count,
+      share: moics.length > 0 ? count / moics.length : 0
+    };
+  });
+}
+
+export function simulateCompanyReturns(
+  company: CompanyData,
+  marketCredibilityScore: number,
+  capitalEfficiencyScore: number,
+  executionCredibilityScore: number,
+  settings: SimulationSettings = getSimulationSettings(),
+  drivers: ScenarioDrivers = getScenarioDrivers(company, settings)
+): CompanySimulation {
+  const overrides = getDistributionOverrides(company);
+  const inputs = buildSimulationInputs(company, marketCredibilityScore, capitalEfficiencyScore, executionCredibilityScore, settings, drivers, overrides);
+  const exitMultiple = findExitMultiple(company);
+  const exitMetricValue = getExitMetricValue(company, exitMultiple?.metric);
+  const equityStake = drivers.equityStake / 100;
+  const { totalInvestment } = drivers;
+  const dilution = projectFundingRounds(company, inputs.exitYears.max);
+  // Keyed on the name rather than the row id, which follows sheet order
+  const seed = hashSeed(company.companyName || '');
+  const random = createRandom(seed);
+
+  const paths = Array.from({ length: settings.iterations }, () => {
+    const growth = Math.max(-90, sampleDistribution(inputs.growth, random));
+    const multiple = Math.max(0, sampleDistribution(inputs.exitMultiple, random));
+    const years = Math.max(0.5, sampleDistribution(inputs.exitYears, random));
+    const dilutionScale = Math.max(0, sampleDistribution(inputs.roundDilution, random));
+
+    // Pro-rata holds ownership through a round by buying our share of it
+    let ownership = equityStake;
+    let followOn = 0;
+    for (const round of dilution.rounds) {
+      if (round.monthsFromNow > years * 12) break;
+      if (dilution.proRata && round.size !== null) {
+        followOn += ownership * round.size;
+      } else {
+        ownership *= 1 - Math.min(0.95, round.dilution * dilutionScale);
+      }
+    }
+
+    const exitValue = exitMetricValue * Math.pow(1 + growth / 100, years) * multiple;
+    const invested = totalInvestment + followOn;
+    const moic = invested > 0 ? (exitValue * ownership) / invested : 0;
+    const irr = moic > 0 ? Math.pow(moic, 1 / years) - 1 : -1;
+    return { exitValue, ownership, moic, irr, invested };
+  });
+
+  const moics = paths.map(path => path.moic);
+  const sortedPaths = [...paths].sort((a, b) => a.moic - b.moic);
+  const bucket = (from: number, to: number, probability: number) => {
+    const slice = sortedPaths.slice(Math.floor(from * sortedPaths.length), Math.floor(to * sortedPaths.length));
+    const average = (pick: (path: typeof paths[number]) => number) =>
+      slice.length > 0 ? slice.reduce((sum, path) => sum + pick(path), 0) / slice.length : 0;
+    return {
+      exitValue: average(path => path.exitValue),
+      ownership: average(path => path.ownership) * 100,
+      moic: average(path => path.moic),
+      probability,
+      // Each path's own exit year and follow-on, so the scenario IRR agrees with the simulated IRR percentiles
+      irr: average(path => path.irr),
+      invested: average(path => path.invested)
+    };
+  };
+
+  return {
+    simulation: {
+      iterations: settings.iterations,
+      seed,
+      inputs,
+      exitMultipleBasis: exitMultiple ? describeExitMultiple(exitMultiple) : undefined,
+      overrides: Object.keys(overrides).length > 0 ? SIMULATION_VARIABLES.map(({ key }) => key).filter(key => overrides[key]) : undefined,
+      dilution,
+      moic: summarize(moics),
+      irr: summarize(paths.map(path => path.irr)),
+      probabilityOfLoss: moics.filter(moic => moic < 1).length / Math.max(1, moics.length),
+      probabilityAbove3x: moics.filter(moic => moic > 3).length / Math.max(1, moics.length),
+      histogram: buildHistogram(moics)
+    },
+    scenarios: {
+      bear: bucket(0, 0.25, 0.25),
+      base: bucket(0.25, 0.75, 0.5),
+      bull: bucket(0.75, 1, 0.25)
+    }
+  };
+}
+
+/**
+ * One-paragraph summary for analysis text and prompts
+ */
+export function describeSimulation(simulation: SimulationResult): string {
+  return `Monte Carlo (${simulation.iterations.toLocaleString()} paths): MOIC P10 ${simulation.moic.p10.toFixed(1)}x / P50 ${simulation.moic.p50.toFixed(1)}x / P90 ${simulation.moic.p90.toFixed(1)}x, ` +
+    `mean ${simulation.moic.mean.toFixed(2)}x; median IRR ${(simulation.irr.p50 * 100).toFixed(0)}%; ` +
+    `P(loss) ${(simulation.probabilityOfLoss * 100).toFixed(0)}%, P(>3x) ${(simulation.probabilityAbove3x * 100).toFixed(0)}%; ` +
+    `exit multiple from ${simulation.exitMultipleBasis || 'the default simulation settings'}` +
+    (simulation.dilution ? `; future rounds: ${describeDilutionPlan(simulation.dilution)}` : '') +
+    (simulation.overrides?.length
+      ? `; company-specific ${simulation.overrides.map(key => SIMULATION_VARIABLES.find(variable => variable.key === key)?.label.toLowerCase()).join(', ')} distribution`
+      : '');
+}
@@ -0,0 +1,62 @@
+/**
+ * Deterministic company scoring shared by the LLM and rules-only analysis paths
+ */
+import { CompanyData } from './openaiAnalysis';
+import { CategoryScore, getScoringModel, ScoreCategory, scoreCategory, ScoringModel } from './scoringModel';
+
+// Score-to-Language Translation Functions
+export function translateMarketCredibility(score: number): string {
+  if (score >= 80) return "strong market validation and competitive positioning";
+  if (score >= 60) return "moderate market traction with growth potential";
+  if (score >= 40) return "emerging market opportunity requiring validation";
+  return "limited market validation signals";
+}
+
+export function translateCapitalEfficiency(score: number): string {
+  if (score >= 80) return "exceptional capital discipline and deployment efficiency";
+  if (score >= 60) return "solid capital management with room for improvement";
+  if (score >= 40) return "concerning capital burn patterns requiring attention";
+  return "critical capital efficiency issues demanding immediate action";
+}
+
+export function translateExecutionCredibility(score: number): string {
+  if (score >= 80) return "strong execution track record with consistent delivery";
+  if (score >= 60) return "moderate execution confidence with mixed historical performance";
+  if (score >= 40) return "limited execution validation requiring further proof points";
+  return "significant execution risks based on historical performance";
+}
+
+export function getQualitativeRiskLevel(score: number): string {
+  if (score >= 80) return "Low";
+  if (score >= 60) return "Moderate";
+  if (score >= 40) return "High";
+  return "Critical";
+}
+
+export function getConfidenceFromScores(marketScore: number, capitalScore: number, executionScore: number): number {
+  const averageScore = (marketScore + capitalScore + executionScore) / 3;
+  if (averageScore >= 80) return 5;
+  if (averageScore >= 65) return 4;
+  if (averageScore >= 50) return 3;
+  if (averageScore >= 35) return 2;
+  return 1;
+}
+
+export type ScoreBreakdown = Record<ScoreCategory, CategoryScore>;
+
+// Credibility scores with their per-factor points, driven by the active scoring model (see scoringModel.ts)
+export function calculateScoreBreakdown(company: CompanyData, model: ScoringModel = getScoringModel()): ScoreBreakdown {
+  return {
+    market: scoreCategory(model.market, company),
+    capital: scoreCategory(model.capital, company),
+    execution: scoreCategory(model.execution, company)
+  };
+}
+
+// Labels of the factors scored from defaults (missing or unrecognized input) instead of the company's figures
+export function listDefaultedFactors(breakdown: ScoreBreakdown): string[] {
+  return [breakdown.market, breakdown.capital, breakdown.execution]
+    .flatMap(category => category.factors)
+    .filter(factor => factor.usedDefault || factor.excluded)
+    .map(factor => factor.label);
+}
@@ -0,0 +1,367 @@
+/**
+ * Scoring rubric as data: the factors, thresholds, weights and missing-data handling behind the market,
+ * capital efficiency and execution credibility scores. Edited versions are kept in localStorage so every
+ * result can name the rubric that produced it
+ */
+import { CompanyData } from './openaiAnalysis';
+import { loadSettings, saveSettings } from './settingsStorage';
+
+export type ScoreCategory = 'market' | 'capital' | 'execution';
+
+export type ScoringMetric =
+  | 'tam'
+  | 'exitActivity'
+  | 'barrierToEntry'
+  | 'investorInterest'
+  | 'burnMultiple'
+  | 'runway'
+  | 'growthEfficiency'
+  | 'moic'
+  | 'growthConsistency'
+  | 'revenueTrajectoryScore'
+  | 'yoyGrowthPercent'
+  | 'roundComplexity';
+
+export type ScoringFactorKind = 'scale' | 'bands' | 'keywords';
+
+// 'fixed' awards missingPoints; 'exclude' drops the factor and rescales the rest of the category
+export type MissingDataPolicy = 'fixed' | 'exclude';
+
+export interface ScoreBand {
+  threshold: number;
+  points: number;
+}
+
+export interface KeywordPoints {
+  keyword: string; // Matched case-insensitively anywhere in the text
+  points: number;
+}
+
+// Flat definition; which fields apply depends on the kind
+export interface ScoringFactor {
+  id: string;
+  label: string;
+  metric: ScoringMetric;
+  kind: ScoringFactorKind;
+  points: number; // Weight: the most the factor can contribute
+  scaleMax?: number; // scale: value / scaleMax × points
+  direction?: 'higher' | 'lower'; // bands: whether higher values are better
+  bands?: ScoreBand[]; // bands: the best band the value reaches wins
+  keywords?: KeywordPoints[]; // keywords: the first keyword found wins
+  otherwisePoints?: number; // bands, keywords: value reaches no band or matches no keyword
+  missing: MissingDataPolicy;
+  missingPoints?: number; // fixed: points when the metric is unavailable
+}
+
+export interface ScoringModel {
+  version: number;
+  label: string;
+  createdAt: string;
+  market: ScoringFactor[];
+  capital: ScoringFactor[];
+  execution: ScoringFactor[];
+}
+
+// One line of a score's itemized breakdown
+export interface FactorScore {
+  factorId: string;
+  label: string;
+  metric: ScoringMetric;
+  input: number | string | null; // Raw metric value; null when missing
+  points: number; // Awarded; 0 when excluded
+  maxPoints: number;
+  usedDefault: boolean; // Points came from missing-data or no-keyword-match handling, not from the input
+  excluded: boolean; // Missing and dropped from the category total
+}
+
+export interface CategoryScore {
+  score: number; // 0-100: earned over counted points
+  earnedPoints: number;
+  maxPoints: number; // Of the counted factors
+  rescaled: boolean; // Excluded factors dropped out and the rest were scaled up
+  factors: FactorScore[];
+}
+
+interface ScoringModelStore {
+  activeVersion: number;
+  versions: ScoringModel[]; // Saved edits; the default rubric is always version 1 and never stored
+}
+
+interface MetricDefinition {
+  label: string;
+  read: (company: CompanyData) => number | string | null;
+}
+
+const SCORING_MODELS_STORAGE_KEY = 'scoring_models';
+
+export const SCORE_CATEGORIES: { key: ScoreCategory; label: string }[] = [
+  { key: 'market', label: 'Market Credibility' },
+  { key: 'capital', label: 'Capital Efficiency' },
+  { key: 'execution', label: 'Execution Credibility' }
+];
+
+export const SCORING_METRICS: Record<ScoringMetric, MetricDefinition> = {
+  tam: { label: 'TAM (1-5)', read: company => company.tam ?? null },
+  exitActivity: { label: 'Exit Activity', read: company => company.exitActivity?.trim() || null },
+  barrierToEntry: { label: 'Barrier to Entry (1-5)', read: company => company.barrierToEntry ?? null },
+  investorInterest: { label: 'Investor Interest (1-5)', read: company => company.investorInterest ?? null },
+  burnMultiple: { label: 'Burn Multiple', read: company => company.burnMultiple ?? null },
+  runway: { label: 'Runway (months)', read: company => company.runway ?? null },
+  growthEfficiency: {
+    label: 'Forward CAGR ÷ Burn Multiple',
+    read: company => company.forwardCAGR2Y !== null && company.forwardCAGR2Y !== undefined && company.burnMultiple !== null && company.burnMultiple !== undefined
+      ? company.forwardCAGR2Y / company.burnMultiple
+      : null
+  },
+  moic: { label: 'Current MOIC', read: company => company.moic ?? null },
+  growthConsistency: {
+    label: 'Forward ÷ Historical CAGR',
+    read: company => company.forwardCAGR2Y !== null && company.forwardCAGR2Y !== undefined && company.historicalCAGR2Y !== null && company.historicalCAGR2Y !== undefined
+      ? company.forwardCAGR2Y / Math.max(company.historicalCAGR2Y, 1)
+      : null
+  },
+  revenueTrajectoryScore: { label: 'Revenue Trajectory (0-5)', read: company => company.revenueTrajectoryScore ?? null },
+  yoyGrowthPercent: { label: 'YoY Growth (%)', read: company => company.yoyGrowthPercent ?? null },
+  roundComplexity: { label: 'Round Complexity (1-5, 5 = clean)', read: company => company.roundComplexity ?? null }
+};
+
+// The original hard-coded rubric
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  version: 1,
+  label: 'Default rubric',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  market: [
+    { id: 'tam', label: 'TAM Validation', metric: 'tam', kind: 'scale', points: 20, scaleMax: 5, missing: 'fixed', missingPoints: 10 },
+    {
+      id: 'exitActivity', label: 'Exit Activity', metric: 'exitActivity', kind: 'keywords', points: 15,
+      keywords: [{ keyword: 'high', points: 15 }, { keyword: 'moderate', points: 10 }, { keyword: 'low', points: 5 }],
+      otherwisePoints: 7, missing: 'fixed', missingPoints: 7
+    },
+    { id: 'barrierToEntry', label: 'Industry Validation', metric: 'barrierToEntry', kind: 'scale', points: 15, scaleMax: 5, missing: 'fixed', missingPoints: 7.5 },
+    { id: 'investorInterest', label: 'Investor Interest', metric: 'investorInterest', kind: 'scale', points: 10, scaleMax: 5, missing: 'fixed', missingPoints: 5 }
+  ],
+  capital: [
+    {
+      id: 'burnMultiple', label: 'Burn Multiple', metric: 'burnMultiple', kind: 'bands', points: 30, direction: 'lower',
+      bands: [{ threshold: 1.5, points: 30 }, { threshold: 3, points: 20 }, { threshold: 5, points: 10 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 15
+    },
+    {
+      id: 'runway', label: 'Runway', metric: 'runway', kind: 'bands', points: 20, direction: 'higher',
+      bands: [{ threshold: 18, points: 20 }, { threshold: 12, points: 15 }, { threshold: 6, points: 10 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 10
+    },
+    {
+      id: 'growthEfficiency', label: 'Growth Efficiency', metric: 'growthEfficiency', kind: 'bands', points: 25, direction: 'higher',
+      bands: [{ threshold: 50, points: 25 }, { threshold: 30, points: 20 }, { threshold: 15, points: 15 }, { threshold: 5, points: 10 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 12
+    },
+    {
+      id: 'moic', label: 'Current MOIC', metric: 'moic', kind: 'bands', points: 25, direction: 'higher',
+      bands: [{ threshold: 3, points: 25 }, { threshold: 2, points: 20 }, { threshold: 1.5, points: 15 }, { threshold: 1, points: 10 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 12
+    }
+  ],
+  execution: [
+    {
+      id: 'growthConsistency', label: 'Growth Consistency', metric: 'growthConsistency', kind: 'bands', points: 30, direction: 'lower',
+      bands: [{ threshold: 1.5, points: 30 }, { threshold: 2.5, points: 25 }, { threshold: 4, points: 15 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 15
+    },
+    { id: 'revenueTrajectoryScore', label: 'Projection Realism', metric: 'revenueTrajectoryScore', kind: 'scale', points: 25, scaleMax: 5, missing: 'fixed', missingPoints: 12 },
+    {
+      id: 'yoyGrowthPercent', label: 'Historical Performance', metric: 'yoyGrowthPercent', kind: 'bands', points: 25, direction: 'higher',
+      bands: [{ threshold: 100, points: 25 }, { threshold: 50, points: 20 }, { threshold: 25, points: 15 }, { threshold: 0, points: 10 }],
+      otherwisePoints: 5, missing: 'fixed', missingPoints: 12
+    },
+    { id: 'roundComplexity', label: 'Structural Complexity', metric: 'roundComplexity', kind: 'scale', points: 20, scaleMax: 5, missing: 'fixed', missingPoints: 12 }
+  ]
+};
+
+function loadStore(): ScoringModelStore {
+  return loadSettings<ScoringModelStore>(
+    SCORING_MODELS_STORAGE_KEY,
+    () => ({ activeVersion: DEFAULT_SCORING_MODEL.version, versions: [] }),
+    (_defaults, stored) => stored
+  );
+}
+
+function saveStore(store: ScoringModelStore): void {
+  saveSettings(SCORING_MODELS_STORAGE_KEY, store);
+}
+
+/**
+ * Every version, oldest first, starting with the default rubric
+ */
+export function getScoringModelHistory(): ScoringModel[] {
+  return [DEFAULT_SCORING_MODEL, ...loadStore().versions];
+}
+
+export function getScoringModel(): ScoringModel {
+  const { activeVersion } = loadStore();
+  return getScoringModelHistory().find(model => model.version === activeVersion) || DEFAULT_SCORING_MODEL;
+}
+
+/**
+ * Stores the edited factors as a new version and makes it the active rubric
+ */
+export function saveScoringModel(draft: Pick<ScoringModel, 'label' | 'market' | 'capital' | 'execution'>): ScoringModel {
+  const store = loadStore();
+  const version = Math.max(...getScoringModelHistory().map(model => model.version)) + 1;
+  const model: ScoringModel = {
+    version,
+    label: draft.label.trim() || `Version ${version}`,
+    createdAt: new Date().toISOString(),
+    market: draft.market,
+    capital: draft.capital,
+    execution: draft.execution
+  };
+  saveStore({ activeVersion: version, versions: [...store.versions, model] });
+  console.log(`🧮 [Scoring Model] Saved v${version}: ${model.label}`);
+  return model;
+}
+
+export function activateScoringModel(version: number): void {
+  if (!getScoringModelHistory().some(model => model.version === version)) {
+    throw new Error(`Scoring model v${version} does not exist`);
+  }
+  saveStore({ ...loadStore(), activeVersion: version });
+  console.log(`🧮 [Scoring Model] Activated v${version}`);
+}
+
+export function describeScoringModelVersion(model: Pick<ScoringModel, 'version' | 'label'>): string {
+  return `v${model.version} (${model.label})`;
+}
+
+// "v3 (Partner review)" for a result's recorded version. Results from before versioning used the default rubric
+export function formatScoringModelVersion(version: number | undefined): string {
+  const recorded = version ?? DEFAULT_SCORING_MODEL.version;
+  const model = getScoringModelHistory().find(entry => entry.version === recorded);
+  return model ? describeScoringModelVersion(model) : `v${recorded}`;
+}
+
+export function getMaxCategoryPoints(factors: ScoringFactor[]): number {
+  return factors.reduce((total, factor) => total + factor.points, 0);
+}
+
+/**
+ * Every category needs a factor, since its score is the share of factor points earned, and no band, keyword,
+ * fallback or missing-data award may exceed the points its factor is worth
+ */
+export function getScoringModelIssues(model: Pick<ScoringModel, 'market' | 'capital' | 'execution'>): string[] {
+  const issues: string[] = [];
+  SCORE_CATEGORIES.forEach(({ key, label }) => {
+    const factors = model[key];
+    if (factors.length === 0) issues.push(`${label} needs at least one factor`);
+
+    factors.forEach(factor => {
+      const name = `${label}: ${factor.label || 'Unnamed factor'}`;
+      const withinWeight = (points: number | undefined) => points !== undefined && points >= 0 && points <= factor.points;
+      if (!factor.label.trim()) issues.push(`${label} has a factor without a name`);
+      if (!(factor.points > 0)) {
+        issues.push(`${name} must be worth more than 0 points`);
+        return;
+      }
+      if (factor.kind === 'scale' && !(factor.scaleMax > 0)) issues.push(`${name} needs a scale maximum above 0`);
+      if (factor.kind === 'bands') {
+        if (!factor.bands?.length) issues.push(`${name} needs at least one band`);
+        if (factor.bands?.some(band => !Number.isFinite(band.threshold))) issues.push(`${name} has a band without a threshold`);
+        if (factor.bands?.some(band => !withinWeight(band.points))) issues.push(`${name} band points must be between 0 and ${factor.points}`);
+      }
+      if (factor.kind === 'keywords') {
+        if (!factor.keywords?.length) issues.push(`${name} needs at least one keyword`);
+        if (factor.keywords?.some(entry => !entry.keyword.trim())) issues.push(`${name} has an empty keyword`);
+        if (factor.keywords?.some(entry => !withinWeight(entry.points))) issues.push(`${name} keyword points must be between 0 and ${factor.points}`);
+      }
+      if (factor.kind !== 'scale' && !withinWeight(factor.otherwisePoints)) {
+        issues.push(`${name} fallback points must be between 0 and ${factor.points}`);
+      }
+      if (factor.missing === 'fixed' && !withinWeight(factor.missingPoints)) {
+        issues.push(`${name} missing-data points must be between 0 and ${factor.points}`);
+      }
+    });
+  });
+  return issues;
+}
+
+function bandPoints(factor: ScoringFactor, value: number): number {
+  const reached = (factor.bands || []).filter(band =>
+    factor.direction === 'lower' ? value <= band.threshold : value >= band.threshold
+  );
+  return reached.length > 0 ? Math.max(...reached.map(band => band.points)) : factor.otherwisePoints || 0;
+}
+
+export function scoreFactor(factor: ScoringFactor, company: CompanyData): FactorScore {
+  const input = SCORING_METRICS[factor.metric].read(company);
+  const base = { factorId: factor.id, label: factor.label, metric: factor.metric, maxPoints: factor.points };
+  const isMissing = input === null || (typeof input === 'number' && isNaN(input));
+  if (isMissing) {
+    const excluded = factor.missing === 'exclude';
+    return { ...base, input: null, points: excluded ? 0 : factor.missingPoints || 0, usedDefault: !excluded, excluded };
+  }
+
+  let points: number;
+  let usedDefault = false;
+  if (factor.kind === 'keywords') {
+    const text = String(input).toLowerCase();
+    const match = (factor.keywords || []).find(entry => text.includes(entry.keyword.trim().toLowerCase()));
+    points = match ? match.points : factor.otherwisePoints || 0;
+    usedDefault = !match;
+  } else if (typeof input !== 'number') {
+    points = factor.otherwisePoints || 0;
+    usedDefault = true;
+  } else if (factor.kind === 'scale') {
+    points = (Math.min(Math.max(input, 0), factor.scaleMax) / factor.scaleMax) * factor.points;
+  } else {
+    points = bandPoints(factor, input);
+  }
+  return { ...base, input, points: Math.min(factor.points, points), usedDefault, excluded: false };
+}
+
+/**
+ * Category score as the share of the counted points earned, scaled to 0-100, with the points behind it.
+ * Rubrics whose weights do not total 100 score on the same scale, and excluded factors drop out of the
+ * counted points so the rest carry the category
+ */
+export function scoreCategory(factors: ScoringFactor[], company: CompanyData): CategoryScore {
+  const factorScores = factors.map(factor => scoreFactor(factor, company));
+  const counted = factorScores.filter(result => !result.excluded);
+  const earnedPoints = counted.reduce((total, result) => total + result.points, 0);
+  const maxPoints = counted.reduce((total, result) => total + result.maxPoints, 0);
+  const rescaled = maxPoints > 0 && maxPoints < getMaxCategoryPoints(factors);
+  const score = maxPoints > 0 ? (earnedPoints / maxPoints) * 100 : 0;
+  return { score: Math.min(100, Math.max(0, score)), earnedPoints, maxPoints, rescaled, factors: factorScores };
+}
+
+function formatPoints(points: number | undefined): string {
+  return `${Math.round((points || 0) * 10) / 10}`;
+}
+
+function describeFactor(factor: ScoringFactor): string {
+  const metric = SCORING_METRICS[factor.metric].label;
+  let rule: string;
+  if (factor.kind === 'scale') {
+    rule = `(${metric} / ${factor.scaleMax}) × ${factor.points}`;
+  } else if (factor.kind === 'bands') {
+    const comparator = factor.direction === 'lower' ? '≤' : '≥';
+    const bands = [...(factor.bands || [])]
+      .sort((a, b) => factor.direction === 'lower' ? a.threshold - b.threshold : b.threshold - a.threshold)
+      .map(band => `${comparator}${band.threshold}=${formatPoints(band.points)}`);
+    rule = `${metric}: ${[...bands, `otherwise ${formatPoints(factor.otherwisePoints)}`].join(', ')}`;
+  } else {
+    const keywords = (factor.keywords || []).map(entry => `${entry.keyword}=${formatPoints(entry.points)}`);
+    rule = `${metric}: ${[...keywords, `otherwise ${formatPoints(factor.otherwisePoints)}`].join(', ')}`;
+  }
+  const missing = factor.missing === 'exclude' ? 'excluded and rescaled when missing' : `missing data = ${formatPoints(factor.missingPoints)}`;
+  return `- ${factor.label} (${factor.points}pts): ${rule}; ${missing}`;
+}
+
+/**
+ * Prompt-ready rubric lines for one category
+ */
+export function describeScoringFactors(factors: ScoringFactor[]): string {
+  const maxPoints = getMaxCategoryPoints(factors);
+  const lines = factors.map(describeFactor);
+  if (maxPoints !== 100) lines.push(`- Score = points earned ÷ ${formatPoints(maxPoints)} × 100`);
+  return lines.join('\n');
+}
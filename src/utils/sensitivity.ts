@@ -0,0 +1,166 @@
+/**
+ * Sensitivity of a company's simulated returns to the scenario drivers: a tornado of one-at-a-time swings
+ * and a growth × exit multiple grid. Every run reuses the company's seed, so differences come from the
+ * inputs rather than sampling noise
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { getScenarioDrivers, getSimulationSettings, ScenarioDrivers, simulateCompanyReturns } from './returnSimulation';
+import { loadSettings, saveSettings } from './settingsStorage';
+
+export type SensitivityInput = keyof ScenarioDrivers;
+
+export interface SensitivitySettings {
+  growthSwing: number; // Percentage points either side of the base growth rate
+  exitMultipleSwing: number; // Fraction of the base multiple
+  exitTimelineSwing: number; // Years
+  equityStakeSwing: number; // Fraction of the entry stake
+  totalInvestmentSwing: number; // Fraction of the capital at stake
+  gridSteps: number; // Rows and columns of the growth × multiple grid
+}
+
+export interface SensitivityOutcome {
+  expectedMoic: number; // Probability-weighted scenario MOIC
+  baseExitValue: number; // Base scenario exit value
+}
+
+export interface TornadoBar {
+  input: SensitivityInput;
+  label: string;
+  lowValue: number;
+  highValue: number;
+  low: SensitivityOutcome; // At lowValue
+  high: SensitivityOutcome; // At highValue
+  swing: number; // Spread of expected MOIC between the two ends
+}
+
+export interface SensitivityGrid {
+  growthRates: number[]; // Rows
+  exitMultiples: number[]; // Columns
+  cells: SensitivityOutcome[][];
+}
+
+export interface SensitivityAnalysis {
+  iterations: number;
+  drivers: ScenarioDrivers;
+  base: SensitivityOutcome;
+  tornado: TornadoBar[]; // Widest swing first
+  grid: SensitivityGrid;
+}
+
+const SENSITIVITY_SETTINGS_STORAGE_KEY = 'sensitivity_settings';
+
+// Fewer paths than the headline simulation keep the ~35 reruns per company interactive
+const MAX_SENSITIVITY_ITERATIONS = 1000;
+
+export const DEFAULT_SENSITIVITY_SETTINGS: SensitivitySettings = {
+  growthSwing: 20,
+  exitMultipleSwing: 0.3,
+  exitTimelineSwing: 1,
+  equityStakeSwing: 0.25,
+  totalInvestmentSwing: 0.25,
+  gridSteps: 5
+};
+
+export const SENSITIVITY_INPUT_LABELS: Record<SensitivityInput, string> = {
+  growthRate: 'Revenue Growth',
+  exitMultiple: 'Exit Multiple',
+  exitTimeline: 'Exit Timeline',
+  equityStake: 'Equity Stake',
+  totalInvestment: 'Total Investment'
+};
+
+export function getSensitivitySettings(): SensitivitySettings {
+  return loadSettings(SENSITIVITY_SETTINGS_STORAGE_KEY, () => ({ ...DEFAULT_SENSITIVITY_SETTINGS }));
+}
+
+export function saveSensitivitySettings(settings: SensitivitySettings): void {
+  saveSettings(SENSITIVITY_SETTINGS_STORAGE_KEY, settings);
+}
+
+/**
+ * Swings must be positive, and the fractional ones below 100% so the low case stays above zero. The grid is
+ * capped at 9 × 9 because every cell is a full simulation
+ */
+export function getSensitivitySettingsIssues(settings: SensitivitySettings): string[] {
+  const issues: string[] = [];
+  if (!(settings.growthSwing > 0)) issues.push('Growth swing must be above zero');
+  if (!(settings.exitTimelineSwing > 0)) issues.push('Exit timeline swing must be above zero');
+  if (![settings.exitMultipleSwing, settings.equityStakeSwing, settings.totalInvestmentSwing].every(swing => swing > 0 && swing < 1)) {
+    issues.push('Multiple, stake and investment swings must be between 0% and 100%');
+  }
+  if (!Number.isInteger(settings.gridSteps) || settings.gridSteps < 3 || settings.gridSteps > 9) {
+    issues.push('Grid size must be a whole number between 3 and 9');
+  }
+  return issues;
+}
+
+// Low and high ends of each driver's range, kept within sensible bounds
+function getDriverRange(input: SensitivityInput, drivers: ScenarioDrivers, settings: SensitivitySettings): [number, number] {
+  const base = drivers[input];
+  switch (input) {
+    case 'growthRate': return [Math.max(-50, base - settings.growthSwing), base + settings.growthSwing];
+    case 'exitTimeline': return [Math.max(1, base - settings.exitTimelineSwing), base + settings.exitTimelineSwing];
+    case 'exitMultiple': return [base * (1 - settings.exitMultipleSwing), base * (1 + settings.exitMultipleSwing)];
+    case 'equityStake': return [base * (1 - settings.equityStakeSwing), Math.min(100, base * (1 + settings.equityStakeSwing))];
+    default: return [base * (1 - settings.totalInvestmentSwing), base * (1 + settings.totalInvestmentSwing)];
+  }
+}
+
+function steps(low: number, high: number, count: number): number[] {
+  return Array.from({ length: count }, (_, index) => low + ((high - low) * index) / (count - 1));
+}
+
+export function canRunSensitivity(company: AnalyzedCompanyData): boolean {
+  return !company.insufficientData &&
+    company.marketCredibilityScore !== undefined &&
+    company.capitalEfficiencyScore !== undefined &&
+    company.executionCredibilityScore !== undefined &&
+    company.totalInvestment + (company.additionalInvestmentRequested || 0) > 0;
+}
+
+export function runSensitivityAnalysis(
+  company: AnalyzedCompanyData,
+  settings: SensitivitySettings = getSensitivitySettings()
+): SensitivityAnalysis | null {
+  if (!canRunSensitivity(company)) return null;
+
+  const simulationSettings = getSimulationSettings();
+  const runSettings = { ...simulationSettings, iterations: Math.min(simulationSettings.iterations, MAX_SENSITIVITY_ITERATIONS) };
+  const drivers = getScenarioDrivers(company, simulationSettings);
+
+  const evaluate = (overrides: Partial<ScenarioDrivers>): SensitivityOutcome => {
+    const { scenarios } = simulateCompanyReturns(
+      company,
+      company.marketCredibilityScore,
+      company.capitalEfficiencyScore,
+      company.executionCredibilityScore,
+      runSettings,
+      { ...drivers, ...overrides }
+    );
+    return {
+      expectedMoic: (['bear', 'base', 'bull'] as const).reduce((total, key) => total + scenarios[key].moic * scenarios[key].probability, 0),
+      baseExitValue: scenarios.base.exitValue
+    };
+  };
+
+  const tornado = (Object.keys(SENSITIVITY_INPUT_LABELS) as SensitivityInput[])
+    .map((input): TornadoBar => {
+      const [lowValue, highValue] = getDriverRange(input, drivers, settings);
+      const low = evaluate({ [input]: lowValue });
+      const high = evaluate({ [input]: highValue });
+      return { input, label: SENSITIVITY_INPUT_LABELS[input], lowValue, highValue, low, high, swing: Math.abs(high.expectedMoic - low.expectedMoic) };
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  const growthRates = steps(...getDriverRange('growthRate', drivers, settings), settings.gridSteps);
+  const exitMultiples = steps(...getDriverRange('exitMultiple', drivers, settings), settings.gridSteps);
+  const cells = growthRates.map(growthRate => exitMultiples.map(exitMultiple => evaluate({ growthRate, exitMultiple })));
+
+  return {
+    iterations: runSettings.iterations,
+    drivers,
+    base: evaluate({}),
+    tornado,
+    grid: { growthRates, exitMultiples, cells }
+  };
+}
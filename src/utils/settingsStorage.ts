@@ -0,0 +1,31 @@
+/**
+ * localStorage persistence shared by the settings modules (simulation, sensitivity, dilution, exit multiples,
+ * scoring models). Unreadable storage falls back to the defaults instead of breaking the analysis
+ */
+
+// Objects are read back over the defaults, so settings saved before a field existed still get its default
+function mergeOverDefaults<T>(defaults: T, stored: T): T {
+  return { ...defaults, ...stored };
+}
+
+/**
+ * The stored value for the key, or fresh defaults when nothing is stored or it cannot be parsed.
+ * Pass a merge for nested objects, or one that keeps the stored value for lists and stores that replace the defaults
+ */
+export function loadSettings<T>(
+  storageKey: string,
+  createDefaults: () => T,
+  merge: (defaults: T, stored: T) => T = mergeOverDefaults
+): T {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? merge(createDefaults(), JSON.parse(stored)) : createDefaults();
+  } catch (error) {
+    console.error(`⚙️ [Settings] Failed to load ${storageKey}:`, error);
+    return createDefaults();
+  }
+}
+
+export function saveSettings<T>(storageKey: string, value: T): void {
+  localStorage.setItem(storageKey, JSON.stringify(value));
+}
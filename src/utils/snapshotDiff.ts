@@ -0,0 +1,292 @@
+/**
+ * Quarter-over-quarter comparison of two portfolio snapshots
+ * Companies are matched by name and fund sheet (then name alone, then id) and compared field by field
+ * on their inputs and analysis outputs
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { classifyRecommendation } from './rulesAnalysis';
+import { formatCurrency } from './numberFormatting';
+
+export type SnapshotSource = 'workbook' | 'export' | 'upload' | 'run';
+
+export interface AnalysisSnapshot {
+  label: string;
+  source: SnapshotSource;
+  capturedAt: string | null; // Upload or run time, when known
+  companies: AnalyzedCompanyData[];
+}
+
+export type DiffFieldFormat = 'currency' | 'percent' | 'multiple' | 'score' | 'number' | 'text' | 'boolean';
+export type DiffFieldGroup = 'input' | 'output';
+
+interface DiffField {
+  key: keyof AnalyzedCompanyData;
+  label: string;
+  group: DiffFieldGroup;
+  format: DiffFieldFormat;
+}
+
+export const DIFF_FIELDS: DiffField[] = [
+  // Inputs from the uploaded workbook (RawCompanyData, including upload-time analytics)
+  { key: 'totalInvestment', label: 'Total Investment', group: 'input', format: 'currency' },
+  { key: 'equityStake', label: 'Equity Stake', group: 'input', format: 'percent' },
+  { key: 'moic', label: 'MOIC', group: 'input', format: 'multiple' },
+  { key: 'revenue', label: 'Revenue', group: 'input', format: 'currency' },
+  { key: 'arr', label: 'ARR', group: 'input', format: 'currency' },
+  { key: 'currentRevenue', label: 'Current Revenue', group: 'input', format: 'currency' },
+  { key: 'projectedRevenueYear1', label: 'Projected Revenue +1', group: 'input', format: 'currency' },
+  { key: 'projectedRevenueYear2', label: 'Projected Revenue +2', group: 'input', format: 'currency' },
+  { key: 'revenueGrowth', label: 'TTM Growth', group: 'input', format: 'percent' },
+  { key: 'projectedRevenueGrowth', label: 'Projected Growth', group: 'input', format: 'percent' },
+  { key: 'yoyGrowthPercent', label: 'YoY Growth', group: 'input', format: 'percent' },
+  { key: 'forwardCAGR2Y', label: 'Forward CAGR (2Y)', group: 'input', format: 'percent' },
+  { key: 'revenueTrajectoryScore', label: 'Revenue Trajectory', group: 'input', format: 'score' },
+  { key: 'burnMultiple', label: 'Burn Multiple', group: 'input', format: 'multiple' },
+  { key: 'runway', label: 'Runway (months)', group: 'input', format: 'number' },
+  { key: 'tam', label: 'TAM', group: 'input', format: 'score' },
+  { key: 'barrierToEntry', label: 'Barrier to Entry', group: 'input', format: 'score' },
+  { key: 'investorInterest', label: 'Investor Interest', group: 'input', format: 'score' },
+  { key: 'roundComplexity', label: 'Round Complexity', group: 'input', format: 'score' },
+  { key: 'preMoneyValuation', label: 'Pre-Money', group: 'input', format: 'currency' },
+  { key: 'postMoneyValuation', label: 'Post-Money', group: 'input', format: 'currency' },
+  { key: 'additionalInvestmentRequested', label: 'Additional Investment Requested', group: 'input', format: 'currency' },
+  { key: 'amountRequestedFromFirm', label: 'Amount Requested From Firm', group: 'input', format: 'currency' },
+  { key: 'exitTimeline', label: 'Exit Timeline (years)', group: 'input', format: 'number' },
+  { key: 'seriesStage', label: 'Series/Stage', group: 'input', format: 'text' },
+  { key: 'industry', label: 'Industry', group: 'input', format: 'text' },
+  { key: 'isExistingInvestment', label: 'Existing Investment', group: 'input', format: 'boolean' },
+  // Analysis outputs (AnalysisResult)
+  { key: 'recommendationType', label: 'Recommendation Type', group: 'output', format: 'text' },
+  { key: 'recommendation', label: 'Recommendation', group: 'output', format: 'text' },
+  { key: 'timingBucket', label: 'Timing Bucket', group: 'output', format: 'text' },
+  { key: 'confidence', label: 'Confidence', group: 'output', format: 'score' },
+  { key: 'marketCredibilityScore', label: 'Market Credibility', group: 'output', format: 'number' },
+  { key: 'capitalEfficiencyScore', label: 'Capital Efficiency', group: 'output', format: 'number' },
+  { key: 'executionCredibilityScore', label: 'Execution Credibility', group: 'output', format: 'number' }
+];
+
+export type FieldValue = string | number | boolean | null;
+
+export interface FieldDelta {
+  key: keyof AnalyzedCompanyData;
+  label: string;
+  group: DiffFieldGroup;
+  format: DiffFieldFormat;
+  before: FieldValue;
+  after: FieldValue;
+  change: number | null; // after - before, for numeric fields present in both snapshots
+}
+
+export type CompanyDiffStatus = 'changed' | 'unchanged' | 'added' | 'removed';
+
+export interface CompanyDiff {
+  key: string;
+  companyName: string;
+  status: CompanyDiffStatus;
+  before: AnalyzedCompanyData | null;
+  after: AnalyzedCompanyData | null;
+  deltas: FieldDelta[];
+  recommendationChanged: boolean;
+  confidenceDropped: boolean;
+}
+
+export interface SnapshotDiff {
+  companies: CompanyDiff[];
+  collisions: string[]; // Companies listed more than once within a snapshot
+  summary: Record<CompanyDiffStatus, number> & { recommendationChanged: number; confidenceDropped: number };
+}
+
+function normalizeName(name: string | undefined): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function companyName(company: AnalyzedCompanyData): string {
+  return company.sourceSheet ? `${company.companyName} (${company.sourceSheet})` : company.companyName;
+}
+
+// Names are the stable identity across quarters (row ids follow sheet order) and the fund sheet tells apart
+// same-named companies; both snapshots use the same key, and unnamed rows fall back to their id
+function companyKey(company: AnalyzedCompanyData): string {
+  const name = normalizeName(company.companyName);
+  return name ? `${name}|${normalizeName(company.sourceSheet)}` : `id:${company.id}`;
+}
+
+// Rows sharing a key are kept in sheet order as "key#2", "key#3" and reported rather than dropped
+function indexCompanies(companies: AnalyzedCompanyData[], label: string, collisions: string[]): Map<string, AnalyzedCompanyData> {
+  const index = new Map<string, AnalyzedCompanyData>();
+  const duplicated = new Set<string>();
+  companies.forEach(company => {
+    const key = companyKey(company);
+    if (!index.has(key)) {
+      index.set(key, company);
+      return;
+    }
+    let occurrence = 2;
+    while (index.has(`${key}#${occurrence}`)) occurrence++;
+    index.set(`${key}#${occurrence}`, company);
+    if (!duplicated.has(key)) {
+      duplicated.add(key);
+      collisions.push(`${companyName(company)} appears more than once in ${label}; its rows are matched in sheet order`);
+    }
+  });
+  return index;
+}
+
+/**
+ * Pairs companies whose keys differ only by fund sheet, such as a renamed sheet or a single-sheet upload,
+ * when the name is unmatched exactly once on each side
+ */
+function matchByName(beforeIndex: Map<string, AnalyzedCompanyData>, afterIndex: Map<string, AnalyzedCompanyData>): Map<string, string> {
+  const unmatchedByName = (index: Map<string, AnalyzedCompanyData>, other: Map<string, AnalyzedCompanyData>) => {
+    const byName = new Map<string, string[]>();
+    index.forEach((company, key) => {
+      const name = normalizeName(company.companyName);
+      if (!name || other.has(key)) return;
+      byName.set(name, [...(byName.get(name) || []), key]);
+    });
+    return byName;
+  };
+
+  const beforeByName = unmatchedByName(beforeIndex, afterIndex);
+  const afterByName = unmatchedByName(afterIndex, beforeIndex);
+  const matches = new Map<string, string>(); // Before key → after key
+  beforeByName.forEach((beforeKeys, name) => {
+    const afterKeys = afterByName.get(name);
+    if (beforeKeys.length === 1 && afterKeys?.length === 1) matches.set(beforeKeys[0], afterKeys[0]);
+  });
+  return matches;
+}
+
+function toFieldValue(value: unknown): FieldValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value;
+  return String(value);
+}
+
+function valuesEqual(before: FieldValue, after: FieldValue): boolean {
+  if (typeof before === 'number' && typeof after === 'number') {
+    return Math.abs(before - after) <= 1e-6 * Math.max(1, Math.abs(before), Math.abs(after));
+  }
+  if (typeof before === 'string' && typeof after === 'string') return before.trim() === after.trim();
+  return before === after;
+}
+
+function compareFields(before: AnalyzedCompanyData, after: AnalyzedCompanyData): FieldDelta[] {
+  return DIFF_FIELDS.flatMap(field => {
+    const beforeValue = toFieldValue(before[field.key]);
+    const afterValue = toFieldValue(after[field.key]);
+    if (valuesEqual(beforeValue, afterValue)) return [];
+    return [{
+      ...field,
+      before: beforeValue,
+      after: afterValue,
+      change: typeof beforeValue === 'number' && typeof afterValue === 'number' ? afterValue - beforeValue : null
+    }];
+  });
+}
+
+/**
+ * Free-text recommendations are reworded on every run, so a change means a different decision:
+ * the recommendation type when both snapshots have one, otherwise the classified category
+ */
+export function hasRecommendationChanged(before: AnalyzedCompanyData, after: AnalyzedCompanyData): boolean {
+  if (!before.recommendation || !after.recommendation) return false;
+  if (before.recommendationType && after.recommendationType) {
+    return before.recommendationType !== after.recommendationType;
+  }
+  return classifyRecommendation(before.recommendation, before.recommendationType) !==
+    classifyRecommendation(after.recommendation, after.recommendationType);
+}
+
+export function diffSnapshots(previous: AnalysisSnapshot, current: AnalysisSnapshot): SnapshotDiff {
+  const collisions: string[] = [];
+  const beforeIndex = indexCompanies(previous.companies, previous.label, collisions);
+  const afterIndex = indexCompanies(current.companies, current.label, collisions);
+  const nameMatches = matchByName(beforeIndex, afterIndex);
+  const matchedAfterKeys = new Set(nameMatches.values());
+
+  const pairs: { key: string; before: AnalyzedCompanyData | null; after: AnalyzedCompanyData | null }[] = [];
+  afterIndex.forEach((after, key) => {
+    if (!matchedAfterKeys.has(key)) pairs.push({ key, before: beforeIndex.get(key) || null, after });
+  });
+  beforeIndex.forEach((before, key) => {
+    if (nameMatches.has(key)) {
+      pairs.push({ key: nameMatches.get(key), before, after: afterIndex.get(nameMatches.get(key)) });
+    } else if (!afterIndex.has(key)) {
+      pairs.push({ key, before, after: null });
+    }
+  });
+
+  const companies = pairs.map(({ key, before, after }): CompanyDiff => {
+    const companyName = (after || before).companyName;
+
+    if (!before || !after) {
+      return {
+        key,
+        companyName,
+        status: before ? 'removed' : 'added',
+        before,
+        after,
+        deltas: [],
+        recommendationChanged: false,
+        confidenceDropped: false
+      };
+    }
+
+    const deltas = compareFields(before, after);
+    return {
+      key,
+      companyName,
+      status: deltas.length > 0 ? 'changed' : 'unchanged',
+      before,
+      after,
+      deltas,
+      recommendationChanged: hasRecommendationChanged(before, after),
+      confidenceDropped: typeof before.confidence === 'number' && typeof after.confidence === 'number' && after.confidence < before.confidence
+    };
+  });
+
+  const countWhere = (predicate: (diff: CompanyDiff) => boolean) => companies.filter(predicate).length;
+  console.log(`🔀 [Snapshot Diff] ${previous.label} → ${current.label}: ${countWhere(diff => diff.status === 'changed')} changed, ${countWhere(diff => diff.status === 'added')} added, ${countWhere(diff => diff.status === 'removed')} removed`);
+
+  return {
+    companies: companies.sort((a, b) => a.companyName.localeCompare(b.companyName)),
+    collisions,
+    summary: {
+      changed: countWhere(diff => diff.status === 'changed'),
+      unchanged: countWhere(diff => diff.status === 'unchanged'),
+      added: countWhere(diff => diff.status === 'added'),
+      removed: countWhere(diff => diff.status === 'removed'),
+      recommendationChanged: countWhere(diff => diff.recommendationChanged),
+      confidenceDropped: countWhere(diff => diff.confidenceDropped)
+    }
+  };
+}
+
+export function formatFieldValue(value: FieldValue, format: DiffFieldFormat): string {
+  if (value === null) return 'N/A';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') return value;
+
+  switch (format) {
+    case 'currency': return formatCurrency(value);
+    case 'percent': return `${value.toFixed(1)}%`;
+    case 'multiple': return `${value.toFixed(2)}x`;
+    case 'score': return `${Number.isInteger(value) ? value : value.toFixed(1)}/5`;
+    default: return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  }
+}
+
+export function formatFieldChange(delta: FieldDelta): string {
+  if (delta.change === null) return '';
+  const sign = delta.change > 0 ? '+' : delta.change < 0 ? '-' : '';
+  const magnitude = Math.abs(delta.change);
+
+  switch (delta.format) {
+    case 'currency': return `${sign}${formatCurrency(magnitude)}`;
+    case 'percent': return `${sign}${magnitude.toFixed(1)} pts`;
+    case 'multiple': return `${sign}${magnitude.toFixed(2)}x`;
+    default: return `${sign}${Number.isInteger(magnitude) ? magnitude : magnitude.toFixed(1)}`;
+  }
+}
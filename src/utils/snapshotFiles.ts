@@ -0,0 +1,106 @@
+/**
+ * Builds comparison snapshots from workspace history, uploaded workbooks or exported result files
+ */
+import { buildCompaniesFromPreview, loadWorkbookPreview } from './excelParser';
+import { enhanceCompanyWithAnalytics } from './revenueAnalytics';
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { AnalysisSnapshot } from './snapshotDiff';
+import { readTextFile } from './fileDownload';
+import { WorkspaceRun, WorkspaceUpload } from './workspaces';
+
+const SNAPSHOT_EXPORT_FORMAT = 'venture-decision-engine/snapshot';
+const SNAPSHOT_EXPORT_VERSION = 1;
+
+interface SnapshotExportFile {
+  format: string;
+  version: number;
+  label: string;
+  capturedAt: string | null;
+  exportedAt: string;
+  companies: AnalyzedCompanyData[];
+}
+
+export function snapshotFromWorkspaceRun(run: WorkspaceRun): AnalysisSnapshot {
+  return {
+    label: `${run.fileName} · ${run.providerDescription} · ${new Date(run.completedAt).toLocaleDateString()}`,
+    source: 'run',
+    capturedAt: run.completedAt,
+    companies: run.companies
+  };
+}
+
+export function snapshotFromWorkspaceUpload(upload: WorkspaceUpload): AnalysisSnapshot {
+  return {
+    label: `${upload.fileName} · uploaded ${new Date(upload.uploadedAt).toLocaleDateString()}`,
+    source: 'upload',
+    capturedAt: upload.uploadedAt,
+    companies: upload.companies
+  };
+}
+
+/**
+ * Serializes a snapshot (inputs and analysis results) so it can be compared in a later quarter
+ */
+export function exportSnapshot(snapshot: AnalysisSnapshot): string {
+  const file: SnapshotExportFile = {
+    format: SNAPSHOT_EXPORT_FORMAT,
+    version: SNAPSHOT_EXPORT_VERSION,
+    label: snapshot.label,
+    capturedAt: snapshot.capturedAt,
+    exportedAt: new Date().toISOString(),
+    companies: snapshot.companies
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseSnapshotExport(json: string, fileName: string): AnalysisSnapshot {
+  let parsed: Partial<SnapshotExportFile>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+
+  if (!parsed || parsed.format !== SNAPSHOT_EXPORT_FORMAT || !Array.isArray(parsed.companies)) {
+    throw new Error(`${fileName} is not an exported analysis snapshot`);
+  }
+  if (parsed.version > SNAPSHOT_EXPORT_VERSION) {
+    throw new Error(`${fileName} was exported by a newer version (format v${parsed.version})`);
+  }
+
+  const companies = parsed.companies.filter(company => company && typeof company.companyName === 'string');
+  return {
+    label: parsed.label || fileName,
+    source: 'export',
+    capturedAt: parsed.capturedAt || parsed.exportedAt || null,
+    companies
+  };
+}
+
+/**
+ * Loads a snapshot from an exported JSON file, or imports a workbook with the automatic column mapping.
+ * Every sheet holding a company table is included, as on the dashboard
+ */
+export async function loadSnapshotFromFile(file: File): Promise<AnalysisSnapshot> {
+  if (file.name.toLowerCase().endsWith('.json')) {
+    return parseSnapshotExport(await readTextFile(file), file.name);
+  }
+
+  const workbook = await loadWorkbookPreview(file);
+  const companySheets = workbook.sheets.filter(sheet => sheet.preview && sheet.containsCompanyTable);
+  if (companySheets.length === 0) {
+    throw new Error(`No company table could be detected in ${file.name}`);
+  }
+
+  const companies = companySheets.flatMap(sheet =>
+    buildCompaniesFromPreview(sheet.preview, sheet.preview.columnMappings).companies.map(enhanceCompanyWithAnalytics)
+  );
+  console.log(`🔀 [Snapshot Diff] Imported ${companies.length} companies from ${file.name} for comparison`);
+
+  return {
+    label: file.name,
+    source: 'workbook',
+    capturedAt: file.lastModified ? new Date(file.lastModified).toISOString() : null,
+    companies
+  };
+}
@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Format-agnostic spreadsheet reading
+ * Turns .xlsx/.xls/.ods workbooks and CSV/TSV exports (CRM, Google Sheets) into an XLSX workbook
+ */
+
+export type SpreadsheetFormat = 'xlsx' | 'xls' | 'ods' | 'csv' | 'tsv';
+
+export const SUPPORTED_SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.txt'];
+
+export interface SpreadsheetReadResult {
+  workbook: XLSX.WorkBook;
+  format: SpreadsheetFormat;
+  delimiter: string | null; // Only set for delimited text formats
+  encoding: string | null; // Only set for delimited text formats
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe'
+};
+
+/**
+ * Detects the spreadsheet format from the file name
+ */
+export function detectSpreadsheetFormat(fileName: string): SpreadsheetFormat | null {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.xlsx')) return 'xlsx';
+  if (lowerName.endsWith('.xls')) return 'xls';
+  if (lowerName.endsWith('.ods')) return 'ods';
+  if (lowerName.endsWith('.tsv')) return 'tsv';
+  if (lowerName.endsWith('.csv') || lowerName.endsWith('.txt')) return 'csv';
+  return null;
+}
+
+export function isSupportedSpreadsheet(fileName: string): boolean {
+  return detectSpreadsheetFormat(fileName) !== null;
+}
+
+/**
+ * Detects the text encoding of a delimited export
+ * Honors byte order marks, then checks for valid UTF-8, then falls back to Windows-1252 (legacy Excel/CRM exports)
+ */
+export function detectTextEncoding(bytes: Uint8Array): string {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// Counts delimiter occurrences outside of quoted fields
+function countDelimiter(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Detects the field delimiter of a CSV/TSV export
+ * Picks the candidate that appears on every sampled line with the most consistent count
+ */
+export function detectDelimiter(text: string): string {
+  const sampleLines = text
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .slice(0, 20);
+
+  if (sampleLines.length === 0) return ',';
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = sampleLines.map(line => countDelimiter(line, delimiter));
+    const linesWithDelimiter = counts.filter(count => count > 0).length;
+    if (linesWithDelimiter === 0) return;
+
+    // Reward delimiters that split most lines into the same number of fields
+    const frequency = new Map<number, number>();
+    counts.filter(count => count > 0).forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    const [modeCount, consistentLines] = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0];
+    const score = (consistentLines / sampleLines.length) * 100 + Math.min(modeCount, 50) + (linesWithDelimiter / sampleLines.length) * 10;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+}
+
+export function describeDelimiter(delimiter: string | null): string {
+  if (!delimiter) return 'N/A';
+  return DELIMITER_LABELS[delimiter] || `"${delimiter}"`;
+}
+
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error(`Failed to read file ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Reads any supported spreadsheet file into an XLSX workbook
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetReadResult> {
+  const format = detectSpreadsheetFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${file.name}. Supported formats: ${SUPPORTED_SPREADSHEET_EXTENSIONS.join(', ')}`);
+  }
+
+  const bytes = new Uint8Array(await readFileAsArrayBuffer(file));
+
+  if (format === 'csv' || format === 'tsv') {
+    const encoding = detectTextEncoding(bytes);
+    const text = new TextDecoder(encoding).decode(bytes); // TextDecoder strips any BOM
+    const delimiter = format === 'tsv' ? '\t' : detectDelimiter(text);
+
+    console.log(`📄 [Spreadsheet Reader] ${file.name}: ${format.toUpperCase()}, ${describeDelimiter(delimiter)}-delimited, ${encoding}`);
+
+    const workbook = XLSX.read(text, { type: 'string', FS: delimiter });
+    return { workbook, format, delimiter, encoding };
+  }
+
+  console.log(`📄 [Spreadsheet Reader] ${file.name}: ${format.toUpperCase()} workbook`);
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  return { workbook, format, delimiter: null, encoding: null };
+}
@@ -0,0 +1,226 @@
+/**
+ * Named portfolio workspaces stored locally
+ * Each workspace keeps every uploaded dataset and every analysis run so earlier quarters can be reopened
+ */
+import { AnalyzedCompanyData } from './openaiAnalysis';
+import { ImportReport } from './importReport';
+import { AnalysisMode } from './rulesAnalysis';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './indexedDb';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceUpload {
+  id: string;
+  workspaceId: string;
+  fileName: string;
+  file: Blob | null; // Original spreadsheet, kept so it can be downloaded again
+  importReport: ImportReport | null;
+  companies: AnalyzedCompanyData[]; // Parsed companies with upload-time analytics, before any analysis
+  uploadedAt: string;
+}
+
+export type WorkspaceRunStatus = 'completed' | 'cancelled';
+
+export interface WorkspaceRun {
+  id: string;
+  workspaceId: string;
+  uploadId: string | null; // Null when the dataset itself was never saved to the workspace
+  fileName: string;
+  mode: AnalysisMode;
+  providerDescription: string;
+  model: string | null; // Null for rules-only runs
+  promptVersion: number | null; // ANALYSIS_PROMPT_VERSION at run time, null for rules-only runs
+  status: WorkspaceRunStatus;
+  companies: AnalyzedCompanyData[]; // Dashboard state once the run finished, results merged in
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface WorkspaceSummary {
+  workspace: Workspace;
+  uploadCount: number;
+  runCount: number;
+}
+
+export interface WorkspaceHistory {
+  uploads: WorkspaceUpload[];
+  runs: WorkspaceRun[];
+}
+
+const ACTIVE_WORKSPACE_KEY = 'active_workspace_id';
+const DEFAULT_WORKSPACE_NAME = 'My Portfolio';
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function newestFirst<T>(items: T[], dateOf: (item: T) => string): T[] {
+  return [...items].sort((a, b) => dateOf(b).localeCompare(dateOf(a)));
+}
+
+export function getActiveWorkspaceId(): string | null {
+  return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+}
+
+export function setActiveWorkspaceId(id: string): void {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+}
+
+async function assertUniqueName(name: string, ignoreId: string | null = null): Promise<string> {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Workspace name is required');
+
+  const workspaces = await idbGetAll<Workspace>('workspaces');
+  if (workspaces.some(workspace => workspace.id !== ignoreId && workspace.name.toLowerCase() === trimmedName.toLowerCase())) {
+    throw new Error(`A workspace named "${trimmedName}" already exists`);
+  }
+  return trimmedName;
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: generateId('workspace'),
+    name: await assertUniqueName(name),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await idbPut('workspaces', workspace);
+  console.log(`🗂️ [Workspaces] Created "${workspace.name}"`);
+  return workspace;
+}
+
+export async function renameWorkspace(id: string, name: string): Promise<Workspace> {
+  const workspace = await idbGet<Workspace>('workspaces', id);
+  if (!workspace) throw new Error('Workspace not found');
+
+  const renamed = { ...workspace, name: await assertUniqueName(name, id), updatedAt: new Date().toISOString() };
+  await idbPut('workspaces', renamed);
+  return renamed;
+}
+
+/**
+ * Deletes a workspace together with its saved uploads and runs
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+  const { uploads, runs } = await getWorkspaceHistory(id);
+  await Promise.all([
+    ...uploads.map(upload => idbDelete('workspaceUploads', upload.id)),
+    ...runs.map(run => idbDelete('workspaceRuns', run.id))
+  ]);
+  await idbDelete('workspaces', id);
+
+  if (getActiveWorkspaceId() === id) localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+  console.log(`🗂️ [Workspaces] Deleted workspace ${id} (${uploads.length} uploads, ${runs.length} runs)`);
+}
+
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const [workspaces, uploads, runs] = await Promise.all([
+    idbGetAll<Workspace>('workspaces'),
+    idbGetAll<WorkspaceUpload>('workspaceUploads'),
+    idbGetAll<WorkspaceRun>('workspaceRuns')
+  ]);
+
+  return newestFirst(workspaces, workspace => workspace.updatedAt).map(workspace => ({
+    workspace,
+    uploadCount: uploads.filter(upload => upload.workspaceId === workspace.id).length,
+    runCount: runs.filter(run => run.workspaceId === workspace.id).length
+  }));
+}
+
+/**
+ * Active workspace, falling back to the most recently used one and creating a default workspace on first use
+ */
+export async function ensureActiveWorkspace(): Promise<Workspace> {
+  const activeId = getActiveWorkspaceId();
+  const active = activeId ? await idbGet<Workspace>('workspaces', activeId) : undefined;
+  if (active) return active;
+
+  const [latest] = newestFirst(await idbGetAll<Workspace>('workspaces'), workspace => workspace.updatedAt);
+  const workspace = latest || await createWorkspace(DEFAULT_WORKSPACE_NAME);
+  setActiveWorkspaceId(workspace.id);
+  return workspace;
+}
+
+export async function getWorkspaceHistory(workspaceId: string): Promise<WorkspaceHistory> {
+  const [uploads, runs] = await Promise.all([
+    idbGetAll<WorkspaceUpload>('workspaceUploads'),
+    idbGetAll<WorkspaceRun>('workspaceRuns')
+  ]);
+
+  return {
+    uploads: newestFirst(uploads.filter(upload => upload.workspaceId === workspaceId), upload => upload.uploadedAt),
+    runs: newestFirst(runs.filter(run => run.workspaceId === workspaceId), run => run.completedAt)
+  };
+}
+
+export function getWorkspaceUpload(id: string): Promise<WorkspaceUpload | undefined> {
+  return idbGet<WorkspaceUpload>('workspaceUploads', id);
+}
+
+export function getWorkspaceRun(id: string): Promise<WorkspaceRun | undefined> {
+  return idbGet<WorkspaceRun>('workspaceRuns', id);
+}
+
+async function touchWorkspace(workspaceId: string, now: string): Promise<void> {
+  const workspace = await idbGet<Workspace>('workspaces', workspaceId);
+  if (workspace) await idbPut('workspaces', { ...workspace, updatedAt: now });
+}
+
+// History is best effort: a failed write is logged and must never interrupt an upload or analysis
+export async function saveWorkspaceUpload(
+  workspaceId: string,
+  fileName: string,
+  file: Blob | null,
+  importReport: ImportReport | null,
+  companies: AnalyzedCompanyData[]
+): Promise<WorkspaceUpload | null> {
+  const upload: WorkspaceUpload = {
+    id: generateId('upload'),
+    workspaceId,
+    fileName,
+    file,
+    importReport,
+    companies,
+    uploadedAt: new Date().toISOString()
+  };
+
+  try {
+    await idbPut('workspaceUploads', upload);
+    await touchWorkspace(workspaceId, upload.uploadedAt);
+    console.log(`🗂️ [Workspaces] Saved upload ${fileName} (${companies.length} companies)`);
+    return upload;
+  } catch (error) {
+    console.error('🗂️ [Workspaces] Failed to save upload:', error);
+    return null;
+  }
+}
+
+export async function saveWorkspaceRun(run: Omit<WorkspaceRun, 'id'>): Promise<WorkspaceRun | null> {
+  const saved: WorkspaceRun = { id: generateId('history'), ...run };
+
+  try {
+    await idbPut('workspaceRuns', saved);
+    await touchWorkspace(run.workspaceId, run.completedAt);
+    console.log(`🗂️ [Workspaces] Saved ${run.status} run of ${run.fileName} (${run.providerDescription})`);
+    return saved;
+  } catch (error) {
+    console.error('🗂️ [Workspaces] Failed to save run:', error);
+    return null;
+  }
+}
+
+// Runs keep their own copy of the companies, so they stay viewable after their upload is deleted
+export function deleteWorkspaceUpload(id: string): Promise<void> {
+  return idbDelete('workspaceUploads', id);
+}
+
+export function deleteWorkspaceRun(id: string): Promise<void> {
+  return idbDelete('workspaceRuns', id);
+}